@@ -0,0 +1,101 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { CaptionEmphasis, SceneApi } from '@/types';
+import { tagCaptionEmphasis } from '@/lib/captionEmphasis';
+import { splitCaptionWords } from '@/remotion/captions/utils';
+
+/**
+ * Runs the emphasis tagging pass over the project's scenes whose tags are missing or out of date.
+ */
+export async function generateCaptionEmphasis(projectId: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized', scenes: [] as SceneApi[] };
+    }
+
+    const { data: project } = await supabase
+        .from('projects')
+        .select('user_id')
+        .eq('id', projectId)
+        .single();
+
+    if (!project || project.user_id !== user.id) {
+        return { success: false, error: 'Project not found or unauthorized', scenes: [] as SceneApi[] };
+    }
+
+    try {
+        const { data: scenes, error } = await supabase
+            .from('scenes')
+            .select('*')
+            .eq('project_id', projectId)
+            .order('order_index');
+        if (error) throw error;
+
+        const tagged = await tagCaptionEmphasis(supabase, scenes || []);
+
+        const { data: updated, error: reloadError } = await supabase
+            .from('scenes')
+            .select('*')
+            .eq('project_id', projectId)
+            .order('order_index');
+        if (reloadError) throw reloadError;
+
+        return { success: true, tagged, scenes: (updated || []) as SceneApi[] };
+    } catch (e: any) {
+        console.error('Generate Caption Emphasis Failed:', e);
+        return { success: false, error: e.message, scenes: [] as SceneApi[] };
+    }
+}
+
+/**
+ * Turns emphasis on or off for one word of a scene's caption, marking the scene's tags as edited by hand.
+ */
+export async function toggleCaptionEmphasisWord(sceneId: string, wordIndex: number) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    const { data: scene } = await supabase
+        .from('scenes')
+        .select('*, projects!inner(user_id)')
+        .eq('id', sceneId)
+        .single();
+
+    if (!scene || scene.projects.user_id !== user.id) {
+        return { success: false, error: 'Scene not found or unauthorized' };
+    }
+
+    const wordCount = splitCaptionWords(scene.text || '').length;
+    if (!Number.isInteger(wordIndex) || wordIndex < 0 || wordIndex >= wordCount) {
+        return { success: false, error: 'Invalid word' };
+    }
+
+    try {
+        const current: CaptionEmphasis['words'] = scene.caption_emphasis?.text === scene.text ? scene.caption_emphasis.words : [];
+        const words = current.some(w => w.index === wordIndex)
+            ? current.filter(w => w.index !== wordIndex)
+            : [...current, { index: wordIndex, emoji: null }].sort((a, b) => a.index - b.index);
+
+        const emphasis: CaptionEmphasis = { text: scene.text, words, manual: true };
+
+        const { data: updatedScene, error } = await supabase
+            .from('scenes')
+            .update({ caption_emphasis: emphasis })
+            .eq('id', sceneId)
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        return { success: true, scene: updatedScene as SceneApi };
+    } catch (e: any) {
+        console.error('Toggle Caption Emphasis Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
@@ -0,0 +1,86 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { CaptionPresetApi, CaptionSettings } from '@/types';
+
+export async function listCaptionPresets() {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized', presets: [] as CaptionPresetApi[] };
+    }
+
+    const { data, error } = await supabase
+        .from('caption_presets')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('List Caption Presets Failed:', error);
+        return { success: false, error: error.message, presets: [] as CaptionPresetApi[] };
+    }
+
+    return { success: true, presets: (data || []) as CaptionPresetApi[] };
+}
+
+/**
+ * Saves the given caption settings as a named preset. Whether captions are shown stays a per-project
+ * choice, so "enabled" is not stored.
+ */
+export async function saveCaptionPreset(name: string, captions: CaptionSettings) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    const presetName = name.trim();
+    if (!presetName) {
+        return { success: false, error: 'Preset name is required' };
+    }
+
+    try {
+        const look: Partial<CaptionSettings> = { ...captions };
+        delete look.enabled;
+
+        const { data: preset, error } = await supabase
+            .from('caption_presets')
+            .insert({ user_id: user.id, name: presetName, captions: look })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        return { success: true, preset: preset as CaptionPresetApi };
+    } catch (e: any) {
+        console.error('Save Caption Preset Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+export async function deleteCaptionPreset(presetId: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    try {
+        const { error } = await supabase
+            .from('caption_presets')
+            .delete()
+            .eq('id', presetId)
+            .eq('user_id', user.id);
+
+        if (error) throw error;
+
+        return { success: true };
+    } catch (e: any) {
+        console.error('Delete Caption Preset Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
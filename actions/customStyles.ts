@@ -0,0 +1,143 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { createClient as createAdminClient } from '@supabase/supabase-js';
+import { CustomStyleApi } from '@/types';
+import { IMAGE_PROVIDER_OPTIONS } from '@/lib/constants';
+import { isCustomStyleImagePath } from '@/lib/visualStyles';
+
+// Admin client for removing the uploaded reference image (the assets bucket has no user delete policy)
+const supabaseAdmin = createAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// The reference image is given as the path the client uploaded it to (assets/custom-styles/<userId>/)
+export type CustomStyleInput = Pick<CustomStyleApi, 'name' | 'style_text' | 'subject_text' | 'negative_prompt' | 'image_provider' | 'reference_image_path'>;
+
+type CustomStyleValues = CustomStyleInput & Pick<CustomStyleApi, 'reference_image_url'>;
+
+function normalizeInput(input: CustomStyleInput, userId: string): CustomStyleValues | string {
+    const name = input.name.trim();
+    if (!name) return 'Style name is required';
+
+    const styleText = input.style_text.trim();
+    if (!styleText && !input.reference_image_path) return 'Add style text or a reference image';
+
+    if (input.reference_image_path && !isCustomStyleImagePath(input.reference_image_path, userId)) {
+        return 'Invalid reference image path';
+    }
+
+    if (input.image_provider && !IMAGE_PROVIDER_OPTIONS.some(opt => opt.value === input.image_provider)) {
+        return `Unknown image provider: ${input.image_provider}`;
+    }
+
+    return {
+        name,
+        style_text: styleText,
+        subject_text: input.subject_text.trim(),
+        negative_prompt: input.negative_prompt.trim(),
+        image_provider: input.image_provider || null,
+        reference_image_path: input.reference_image_path || null,
+        reference_image_url: null,
+    };
+}
+
+export async function listCustomStyles() {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized', styles: [] as CustomStyleApi[] };
+    }
+
+    const { data, error } = await supabase
+        .from('custom_styles')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('List Custom Styles Failed:', error);
+        return { success: false, error: error.message, styles: [] as CustomStyleApi[] };
+    }
+
+    return { success: true, styles: (data || []) as CustomStyleApi[] };
+}
+
+/**
+ * Creates a custom style, or updates it when styleId is given.
+ */
+export async function saveCustomStyle(input: CustomStyleInput, styleId?: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    const values = normalizeInput(input, user.id);
+    if (typeof values === 'string') {
+        return { success: false, error: values };
+    }
+    if (values.reference_image_path) {
+        values.reference_image_url = supabase.storage.from('assets').getPublicUrl(values.reference_image_path).data.publicUrl;
+    }
+
+    try {
+        const query = styleId
+            ? supabase
+                .from('custom_styles')
+                .update({ ...values, updated_at: new Date().toISOString() })
+                .eq('id', styleId)
+                .eq('user_id', user.id)
+            : supabase
+                .from('custom_styles')
+                .insert({ ...values, user_id: user.id });
+
+        const { data: style, error } = await query.select().single();
+        if (error) throw error;
+
+        return { success: true, style: style as CustomStyleApi };
+    } catch (e: any) {
+        console.error('Save Custom Style Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+/**
+ * Deletes a custom style and its uploaded reference image. Projects still pointing at it fail
+ * generation with a clear error until another style is picked.
+ */
+export async function deleteCustomStyle(styleId: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    try {
+        const { data: style, error } = await supabase
+            .from('custom_styles')
+            .delete()
+            .eq('id', styleId)
+            .eq('user_id', user.id)
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+
+        // The row is user-writable, so only ever remove the user's own uploads
+        const imagePath = (style as CustomStyleApi | null)?.reference_image_path;
+        if (imagePath && isCustomStyleImagePath(imagePath, user.id)) {
+            const { error: storageError } = await supabaseAdmin.storage.from('assets').remove([imagePath]);
+            if (storageError) console.error('Failed to remove custom style image:', storageError.message);
+        }
+
+        return { success: true };
+    } catch (e: any) {
+        console.error('Delete Custom Style Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
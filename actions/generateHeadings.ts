@@ -1,12 +1,12 @@
 'use server';
 
 import { createClient } from '@/utils/supabase/server';
-import keyRotation from '@/lib/keyRotation';
-import OpenAI from 'openai';
+import { generateStructured } from '@/lib/llm';
+import { z } from 'zod';
 
-function getOpenAIClient(apiKey: string) {
-    return new OpenAI({ apiKey });
-}
+const HeadingsSchema = z.object({
+    headings: z.array(z.string()),
+});
 
 export async function generateHeadings(projectId: string) {
     const supabase = await createClient();
@@ -38,55 +38,27 @@ export async function generateHeadings(projectId: string) {
     console.log('[Headings] Extracting headings from script...');
 
     // 4. Call OpenAI to extract main heading texts
-    const response = await keyRotation.withRetry(
-        async (apiKey) => {
-            const openai = getOpenAIClient(apiKey);
-            return await openai.chat.completions.create({
-                model: 'gpt-4o-mini',
-                messages: [
-                    {
-                        role: 'system',
-                        content: `You are a content analysis expert. Analyze the script and extract main section headings.
+    const { headings } = await generateStructured({
+        label: 'headings',
+        model: 'gpt-4o-mini',
+        system: `You are a content analysis expert. Analyze the script and extract main section headings.
 
 CRITICAL RULES:
 1. Return ONLY text that appears EXACTLY in the script (verbatim)
 2. Extract natural section breaks and topic introductions
 3. Each heading should be 2-8 words
 4. Look for impactful statements that introduce new topics
-5. Return as a JSON array of strings
-
-Example: ["Welcome to our guide", "Understanding the basics", "Key takeaways"]
-
-Do NOT create new text. Only extract existing phrases from the script.`
-                    },
-                    {
-                        role: 'user',
-                        content: `Script:\n\n${fullScript}`
-                    }
-                ],
-                temperature: 0.3,
-            });
-        },
-        () => keyRotation.getNextOpenAIKey(),
-        1
-    );
-
-    const content = response.choices[0].message.content || '[]';
-    let headings: string[] = [];
-
-    try {
-        // Strip markdown code blocks if present
-        let cleanContent = content.trim();
-        if (cleanContent.startsWith('```')) {
-            cleanContent = cleanContent.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '');
-        }
-        headings = JSON.parse(cleanContent);
-    } catch (e) {
-        console.error('[Headings] Failed to parse OpenAI response:', e);
-        throw new Error('Failed to parse headings from OpenAI');
-    }
+5. Return a JSON object with a "headings" array of strings
+
+Example: {"headings": ["Welcome to our guide", "Understanding the basics", "Key takeaways"]}
+
+Do NOT create new text. Only extract existing phrases from the script.`,
+        user: `Script:\n\n${fullScript}`,
+        schema: HeadingsSchema,
+        temperature: 0.3,
+    });
 
-    if (!Array.isArray(headings) || headings.length === 0) {
+    if (headings.length === 0) {
         throw new Error('No headings extracted');
     }
 
@@ -0,0 +1,132 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { JobApi, SceneApi } from '@/types';
+import { cancelJob, findPendingWork, queueJob, requeueJob, triggerJobRunner } from '@/lib/generationJobs';
+import { isJobStalled } from '@/lib/constants';
+
+export type GenerationJobResult = {
+    success: boolean;
+    job?: JobApi | null;
+    error?: string;
+};
+
+function isActive(job: JobApi): boolean {
+    return (job.status === 'queued' || job.status === 'running') && !isJobStalled(job);
+}
+
+/**
+ * Queues a server-side job that generates every missing, failed or incomplete scene of a project.
+ * Returns the already-active job instead of starting a second one.
+ */
+export async function startGenerationJob(projectId: string): Promise<GenerationJobResult> {
+    const supabase = await createClient();
+
+    // 1. Auth Check
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    // 2. Verify Ownership
+    const { data: project } = await supabase
+        .from('projects')
+        .select('user_id, script, segments')
+        .eq('id', projectId)
+        .single();
+
+    if (!project || project.user_id !== user.id) {
+        return { success: false, error: 'Project not found or unauthorized' };
+    }
+
+    try {
+        // 3. Reuse an in-flight job
+        const { data: latestJob } = await supabase
+            .from('jobs')
+            .select('*')
+            .eq('project_id', projectId)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        if (latestJob && isActive(latestJob as JobApi)) {
+            return { success: true, job: latestJob as JobApi };
+        }
+
+        // 4. Work out what needs generating
+        const { data: scenes } = await supabase
+            .from('scenes')
+            .select('*')
+            .eq('project_id', projectId)
+            .order('order_index');
+
+        const work = findPendingWork(project, (scenes || []) as SceneApi[]);
+        if (work.length === 0) {
+            return { success: true, job: null };
+        }
+
+        // 5. Queue and kick off the runner
+        const job = await queueJob(projectId, user.id, 'generate_scenes', work.length, `Queued ${work.length} scenes`);
+        await triggerJobRunner(job.id);
+        console.log(`[Jobs] Queued job ${job.id} for project ${projectId} (${work.length} scenes)`);
+
+        return { success: true, job };
+    } catch (e: any) {
+        console.error('Start Generation Job Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+export async function cancelGenerationJob(jobId: string): Promise<GenerationJobResult> {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    try {
+        const job = await cancelJob(jobId, user.id);
+        return { success: true, job };
+    } catch (e: any) {
+        console.error('Cancel Generation Job Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+/**
+ * Re-queues a cancelled, failed or stalled (no heartbeat, or queued but never picked up) job. Progress counters carry over;
+ * scenes that already failed in this job are not retried by it.
+ */
+export async function resumeGenerationJob(jobId: string): Promise<GenerationJobResult> {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    try {
+        const { data: existing } = await supabase
+            .from('jobs')
+            .select('*')
+            .eq('id', jobId)
+            .eq('user_id', user.id)
+            .single();
+
+        if (!existing) {
+            return { success: false, error: 'Job not found' };
+        }
+        if (existing.status === 'completed' || isActive(existing as JobApi)) {
+            return { success: true, job: existing as JobApi };
+        }
+
+        const job = await requeueJob(jobId, user.id);
+        await triggerJobRunner(jobId);
+
+        return { success: true, job };
+    } catch (e: any) {
+        console.error('Resume Generation Job Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
@@ -0,0 +1,138 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { createClient as createAdminClient } from '@supabase/supabase-js';
+import { ReferenceCharacterApi } from '@/types';
+import { isReferenceCharacterImagePath } from '@/lib/referenceCharacters';
+
+// Admin client for removing the uploaded image (the assets bucket has no user delete policy)
+const supabaseAdmin = createAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+export async function listReferenceCharacters() {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized', characters: [] as ReferenceCharacterApi[] };
+    }
+
+    const { data, error } = await supabase
+        .from('reference_characters')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('List Reference Characters Failed:', error);
+        return { success: false, error: error.message, characters: [] as ReferenceCharacterApi[] };
+    }
+
+    return { success: true, characters: (data || []) as ReferenceCharacterApi[] };
+}
+
+/**
+ * Registers a character image the client uploaded to assets/characters/<userId>/.
+ */
+export async function createReferenceCharacter(name: string, imagePath: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    const characterName = name.trim();
+    if (!characterName) {
+        return { success: false, error: 'Character name is required' };
+    }
+    if (!isReferenceCharacterImagePath(imagePath, user.id)) {
+        return { success: false, error: 'Invalid image path' };
+    }
+
+    try {
+        const { data: { publicUrl } } = supabase.storage.from('assets').getPublicUrl(imagePath);
+
+        const { data: character, error } = await supabase
+            .from('reference_characters')
+            .insert({ user_id: user.id, name: characterName, image_path: imagePath, image_url: publicUrl })
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        return { success: true, character: character as ReferenceCharacterApi };
+    } catch (e: any) {
+        console.error('Create Reference Character Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+export async function renameReferenceCharacter(characterId: string, name: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    const characterName = name.trim();
+    if (!characterName) {
+        return { success: false, error: 'Character name is required' };
+    }
+
+    try {
+        const { data: character, error } = await supabase
+            .from('reference_characters')
+            .update({ name: characterName })
+            .eq('id', characterId)
+            .eq('user_id', user.id)
+            .select()
+            .single();
+
+        if (error) throw error;
+
+        return { success: true, character: character as ReferenceCharacterApi };
+    } catch (e: any) {
+        console.error('Rename Reference Character Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+/**
+ * Deletes a character and its uploaded image. Projects still using it fail image generation
+ * with a clear error until another character is picked.
+ */
+export async function deleteReferenceCharacter(characterId: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    try {
+        const { data: character, error } = await supabase
+            .from('reference_characters')
+            .delete()
+            .eq('id', characterId)
+            .eq('user_id', user.id)
+            .select()
+            .maybeSingle();
+
+        if (error) throw error;
+
+        // The row is user-writable, so only ever remove the user's own uploads
+        if (character && isReferenceCharacterImagePath(character.image_path, user.id)) {
+            const { error: storageError } = await supabaseAdmin.storage.from('assets').remove([character.image_path]);
+            if (storageError) console.error('Failed to remove character image:', storageError.message);
+        }
+
+        return { success: true };
+    } catch (e: any) {
+        console.error('Delete Reference Character Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
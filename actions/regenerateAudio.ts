@@ -1,8 +1,9 @@
 'use server';
 
 import { createClient } from '@/utils/supabase/server';
-import { generateMinimaxAudio, generateQwenAudio } from '@/lib/ai';
-import { generateGenAIProAudio } from '@/lib/genaipro';
+import { synthesize } from '@/lib/ttsProviders';
+import { recordSceneAsset } from '@/lib/sceneAssets';
+import { SceneApi } from '@/types';
 
 export async function regenerateAudio(sceneId: string, text: string, voiceId: string, projectId: string, sceneIndex: number) {
     const supabase = await createClient();
@@ -16,7 +17,7 @@ export async function regenerateAudio(sceneId: string, text: string, voiceId: st
     // 2. Verify scene ownership
     const { data: scene } = await supabase
         .from('scenes')
-        .select('*, projects!inner(user_id)')
+        .select('*, projects!inner(user_id, settings)')
         .eq('id', sceneId)
         .single();
 
@@ -25,37 +26,25 @@ export async function regenerateAudio(sceneId: string, text: string, voiceId: st
     }
 
     try {
-        // 3. Generate new audio (route to appropriate provider)
+        // 3. Generate new audio (provider resolved from the voice)
         console.log(`Regenerating audio for scene ${sceneId}`);
-        let audioUrl: string;
-        let audioDuration: number;
-
-        if (voiceId.startsWith('genaipro_')) {
-            const actualVoiceId = voiceId.replace('genaipro_', '');
-            const result = await generateGenAIProAudio(text, actualVoiceId, projectId, sceneIndex);
-            audioUrl = result.url;
-            audioDuration = result.duration;
-        } else if (voiceId.startsWith('qwen_')) {
-            const result = await generateQwenAudio(text, voiceId, projectId, sceneIndex);
-            audioUrl = result.url;
-            audioDuration = result.duration;
-        } else {
-            const result = await generateMinimaxAudio(text, voiceId, projectId, sceneIndex);
-            audioUrl = result.url;
-            audioDuration = result.duration;
-        }
+        const { url: audioUrl, duration: audioDuration, wordTimings } = await synthesize(text, voiceId, projectId, sceneIndex, { language: scene.projects.settings?.language });
 
         // 4. Update scene with new audio
         const { error: updateError } = await supabase
             .from('scenes')
             .update({
                 audio_url: audioUrl,
-                duration: audioDuration
+                duration: audioDuration,
+                word_timings: wordTimings ?? null,
+                stale_assets: (scene.stale_assets || []).filter((asset: string) => asset !== 'audio')
             })
             .eq('id', sceneId);
 
         if (updateError) throw updateError;
 
+        await recordSceneAsset(user.id, scene as SceneApi, 'audio', { url: audioUrl, duration: audioDuration, word_timings: wordTimings ?? null });
+
         return { success: true, audioUrl, duration: audioDuration };
     } catch (e: any) {
         console.error('Regenerate Audio Failed:', e);
@@ -2,17 +2,12 @@
 
 import { SceneApi, ProjectSettings } from '@/types';
 import { createClient } from '@/utils/supabase/server';
-import { generateFalImage, generateRunwareImage, generateGeminiImage, generateReplicateImage } from '@/lib/ai';
-import { generateImagenImage } from '@/lib/imagen';
-import OpenAI from 'openai';
-
-import { CHARACTER_REFERENCE_MAP } from '@/lib/constants';
-
-import keyRotation from '@/lib/keyRotation';
-
-function getOpenAIClient(apiKey: string) {
-    return new OpenAI({ apiKey });
-}
+import { generateImage, resolveImageRoute } from '@/lib/imageProviders';
+import { resolveReferenceImage } from '@/lib/referenceCharacters';
+import { buildPromptWriterInput, loadSceneContext } from '@/lib/storyContext';
+import { buildStyledPrompt, resolveVisualStylePreset, ScenePromptSchema } from '@/lib/visualStyles';
+import { generateStructured } from '@/lib/llm';
+import { recordSceneAsset } from '@/lib/sceneAssets';
 
 export async function regenerateImage(
     sceneId: string,
@@ -22,7 +17,8 @@ export async function regenerateImage(
     projectId: string,
     sceneIndex: number,
     aspectRatio: string = '16:9',
-    imageTarget: 'primary' | 'secondary' = 'primary'
+    imageTarget: 'primary' | 'secondary' = 'primary',
+    promptOverride?: string // Used verbatim as the image prompt (and saved as the scene prompt)
 ) {
     const supabase = await createClient();
 
@@ -52,166 +48,60 @@ export async function regenerateImage(
     try {
         console.log(`Regenerating image (${imageTarget}) for scene ${sceneId} with style: ${activeStyle}`);
 
-        // 3. Generate fresh prompt using OpenAI with retry
-        console.log('Generating fresh prompt with OpenAI...');
-        const promptResponse = await keyRotation.withRetry(
-            async (apiKey) => {
-                const openai = getOpenAIClient(apiKey);
-
-                // Use James-specific instructions for james_finetuned style
-                const systemPrompt = activeStyle === 'james_finetuned'
-                    ? 'You are a visual prompt writer creating scenes featuring James (a male character) as the central subject. Generate a detailed visual scene description showing James performing, explaining, or demonstrating the action described. James must be the main subject. Return ONLY a single sentence visual description.'
-                    : activeStyle === 'grandma_finetuned'
-                        ? 'You are a visual prompt writer creating scenes featuring Grandma (a female character) as the central subject. Generate a detailed visual scene description showing Grandma performing, explaining, or demonstrating the action described. Grandma must be the main subject. Return ONLY a single sentence visual description.'
-                        : 'You are a visual prompt writer. Generate a detailed, visual, descriptive scene prompt based on the given text. Return ONLY a single sentence visual description, no JSON, no explanations.';
-
-                return await openai.chat.completions.create({
-                    model: 'gpt-4o-mini',
-                    messages: [
-                        {
-                            role: 'system',
-                            content: systemPrompt
-                        },
-                        {
-                            role: 'user',
-                            content: `Create a detailed visual scene description for: ${text}`
-                        }
-                    ],
-                    temperature: 0.8,
-                });
-            },
-            () => keyRotation.getNextOpenAIKey()
-        );
-
-        let simplePrompt = promptResponse.choices[0].message.content?.trim() || text;
-        console.log('Generated prompt:', simplePrompt);
-
-        // 4. Build Full Styled Prompt (Same logic as generateScene.ts)
-        const styleMode = activeStyle;
-        let styleDesc = "";
-        let subjectDesc = "";
-        let negativePrompt = "";
-
-        if (styleMode === "normal" || styleMode === "stock_natural") {
-            styleDesc = "Style: Cinematic, photorealistic, 8k, everyday life, humanistic, natural lighting.";
-            subjectDesc = "Subject: Modern everyday life or general cinematic visuals.";
-            negativePrompt = "text, logos, writing, letters, words, watermarks";
-        } else if (styleMode === "stick") {
-            styleDesc = "Style: Minimalist stick figure drawing, hand-drawn sketch style, black ink on white paper, simple lines.";
-            subjectDesc = "Subject: Simple stick figures, very abstract and funny/cute.";
-            negativePrompt = "text, realistic, detailed";
-        } else if (styleMode === "health") {
-            styleDesc = "Style: Clean photorealistic medical visualization, clinical photography aesthetic, high-resolution anatomical detail, realistic human tissue and organ rendering, accurate biological structures, soft even studio lighting with no dramatic shadows, neutral clinical background, precise anatomical accuracy, realistic skin tone and texture, professional medical imaging aesthetic, scientifically accurate cellular and organ detail, muted clinical color palette with accurate biological coloring, sharp focus throughout, documentary medical photography style.";
-            subjectDesc = "Subject: Realistic human anatomy, body organs, biological structures, and health-related medical visuals rendered with clinical accuracy.";
-            negativePrompt = "cartoon, illustration, animated, flat design, vector art, sketch, drawing, painterly, oil painting, watercolor, concept art, stylized, semi-realistic, medical diagram, infographic, arrows, labels, text, letters, cinematic lighting, dramatic shadows, oversaturated colors, fantasy, sci-fi, abstract, 3D cartoon render, low detail, simplified anatomy, caricature, comic style";
-        } else if (styleMode === "cartoon" || styleMode === "stock_vector") {
-            styleDesc = "Style: Vector illustration, instructional vector illustration, thin clean line art, rounded shapes, pastel colors, no shading, simple indoor background.";
-            subjectDesc = "Subject: Friendly, simple vector characters in everyday situations.";
-            negativePrompt = "photo, realistic, 3d, photograph, photorealistic, realism, CGI, render, dramatic lighting, shadows, texture";
-        } else if (styleMode === "art" || styleMode === "stock_art") {
-            styleDesc = "Style: 1950s pop art illustration, retro comic illustration, bold black outlines, flat saturated colors, halftone dots, yellow background.";
-            subjectDesc = "Subject: Vintage pop art.";
-            negativePrompt = "photo, realistic, 3d, modern, photograph, photorealistic, realism, CGI, render, soft shading, gradients";
-        } else if (styleMode === "clean_illustration") {
-            styleDesc = "Style: clean narrative illustration, modern editorial illustration style, realistic human proportions, adult characters only (ages 25–90), mature facial features, soft painted shading with gentle shadows, clean linework (not cartoon), natural adult anatomy, detailed but uncluttered environment, storytelling illustration look.";
-            subjectDesc = "Subject: Adult characters in modern narrative settings.";
-            negativePrompt = "child, children, kid, kids, toddler, baby, teen, teenager, cartoon, vector, flat, anime, chibi, 3d, cgi, text";
-        } else if (styleMode === "reference_image") {
-            // User-provided strict prompt template
-            styleDesc = `Role: You are an expert storyboard artist creating high-fidelity assets for a modern animated video series. Do not add Text to images.
-
-1. Character Consistency Protocol:
-Strict Adherence: Use the provided image as an consistent fixed visual charachter. Maintain the exact stick-figure proportions, line weight, and head-to-body ratio.
-Expression: Map the requested emotion onto the minimal facial features without adding realistic details that contradict the style. Use exaggerated posture and gestural body language to convey intent.
-
-2. Environment & Composition:
-Setting: Generate a fully immersive, "world-building" background. Never use white, solid, or gradient voids. The environment must be rich with narrative details (props, furniture, nature) relevant to the scene.
-Framing: Use a cinematic 16:9 composition. Ensure the subject is clearly separated from the background using contrast and soft lighting.
-
-3. Art Direction:
-Style: Modern 2D Vector Illustration.
-No text in image.
-Visuals: Flat colors, clean smooth outlines, zero pixelation, and soft, cel-shaded lighting. Use visual metaphors if the scene calls for it.
-Output Quality: High-contrast, sharp lines, suitable for 4K video playback.`;
-
-            subjectDesc = ""; // Handled by reference image and prompt context
-            negativePrompt = "text, watermark, extra limbs, distorted face, 3d, realistic, photo, blur, noise, grainy, white background, simple background";
-        } else if (styleMode === "thick_stick_color") {
-            styleDesc = "Style: simple human stick figure pictogram, head and limbs only, very simplified torso shape, arms and legs as thick solid rounded rods, rounded limb ends, solid filled shapes not outlines, minimal facial features, flat vector illustration, simple color fills, colored clothing blocks (shirt and pants as simple shapes), limited color palette, friendly abstract style, white background, no shading, no texture";
-            subjectDesc = "Subject: Thick stick figure pictograms in simple colors";
-            negativePrompt = "realistic anatomy, detailed body, thin limbs, single line drawing, sketch, ink, pencil, line art, outline only, comic style, cartoon character, childrens illustration, detailed clothing folds, textures text";
-        } else if (styleMode === "thick_stick_bw") {
-            styleDesc = "Style: simple human stick figure pictogram, head and limbs only, no detailed torso, arms and legs as thick solid rods, rounded limb ends, solid filled shapes not lines, minimal facial features or no face, instructional diagram style, ISO safety icon style, flat vector symbol, very minimal detail, no clothing, no anatomy, white background";
-            subjectDesc = "Subject: Black and white thick stick figure symbols";
-            negativePrompt = "cartoon character, childrens illustration, human anatomy, body proportions, clothing, shirt, pants, realistic, sketch, line drawing, outline only, thin lines, comic style text";
-        } else if (styleMode === "james_finetuned") {
-            // James Finetuned uses Replicate with JAMESTOK trigger
-            styleDesc = "A clean flat cartoon character of NEWJAMESTOK, white hair, white short beard, adult , he is 30 years old: ";
-            subjectDesc = "";
-            negativePrompt = "";
-        } else if (styleMode === "grandma_finetuned") {
-            styleDesc = "A clean flat cartoon character of GRANDMATOK, adult , she is 30 years old: ";
-            subjectDesc = "";
-            negativePrompt = "";
-        } else if (styleMode === "dark_animated") {
-            styleDesc = "Style: Dark vintage animated background aesthetic, psychological thriller atmosphere, film noir lighting, grainy texture, muted dark colors (deep blacks, grays, dark reds), mysterious shadows, surreal and psychological symbolism, 1950s detective movie feel, high contrast, dramatic lighting.";
-            subjectDesc = "Subject: Shadowy figures, psychological concepts, abstract representations of the mind, vintage manipulation themes.";
-            negativePrompt = "bright, colorful, happy, cartoon, anime, 3d render, modern, glossy, cute, flat, vector, daylight";
-        } else { // zen
-            styleDesc = "Style: Cinematic, photorealistic, 8k, serene lighting.";
-            subjectDesc = "Subject: Zen Buddhist monk in orange robes/clothes and in meditative or teaching poses, minimalist Asian temple backgrounds.";
-            negativePrompt = "text, logos, writing, modern, cluttered";
-        }
+        // 3. Prompt: the user's (override, or the scene's locked prompt) verbatim, else a fresh one from OpenAI
+        const preset = await resolveVisualStylePreset(supabase, user.id, activeStyle);
+        const userPrompt = promptOverride?.trim() || (scene.prompt_locked ? scene.prompt : null);
+        let fullPrompt: string;
 
-        // For James/Grandma Finetuned, append the trigger
-        const fullPrompt = (styleMode === "james_finetuned" || styleMode === "grandma_finetuned")
-            ? `${styleDesc} ${simplePrompt}`
-            : `${simplePrompt} ${styleDesc} ${subjectDesc} NO TEXT IN THE IMAGE. Negative: ${negativePrompt}`;
-
-        // 4. Generate image with the same provider logic
-        let imageUrl = "";
-        if (activeModel === 'imagen') {
-            try {
-                imageUrl = await generateImagenImage(fullPrompt, projectId, sceneIndex, aspectRatio);
-            } catch (imagenError: any) {
-                console.warn('Imagen failed, falling back to Gemini:', imagenError.message);
-                imageUrl = await generateGeminiImage(fullPrompt, projectId, sceneIndex, aspectRatio);
-            }
-        } else if (activeModel === 'gemini') {
-            imageUrl = await generateGeminiImage(fullPrompt, projectId, sceneIndex, aspectRatio);
-        } else if (activeModel === 'runware' || activeStyle === 'reference_image') { // Force Runware for reference_image
-            // Enforce 400@1 for reference_image, otherwise 100@1
-            const modelId = activeStyle === 'reference_image' ? "runware:400@1" : "runware:100@1";
-            // Get Reference Image ID if applicable
-            const refImageId = (activeStyle === 'reference_image' && settings.referenceCharacter)
-                ? CHARACTER_REFERENCE_MAP[settings.referenceCharacter]
-                : undefined;
-
-            imageUrl = await generateRunwareImage(fullPrompt, projectId, sceneIndex, aspectRatio, modelId, refImageId);
-        } else if (activeModel && activeModel.startsWith('jamestok:')) {
-            // James Finetuned via Runware (Regeneration)
-            console.log(`Regenerating with custom James model: ${activeModel}`);
-            imageUrl = await generateRunwareImage(fullPrompt, projectId, sceneIndex, aspectRatio, activeModel);
-        } else if (activeModel === 'replicate') {
-            // James Finetuned model via Replicate
-            imageUrl = await generateReplicateImage(fullPrompt, aspectRatio, projectId, sceneIndex);
+        if (userPrompt) {
+            console.log('Using user prompt:', userPrompt);
+            fullPrompt = userPrompt;
         } else {
-            imageUrl = await generateFalImage(fullPrompt, projectId, sceneIndex, aspectRatio);
+            console.log('Generating fresh prompt with OpenAI...');
+            const context = await loadSceneContext(supabase, projectId, scene.order_index);
+            const { prompt: simplePrompt } = await generateStructured({
+                label: 'regenerate_scene_prompt',
+                model: 'gpt-4o-mini',
+                system: preset.promptInstructions,
+                user: buildPromptWriterInput(text, context),
+                schema: ScenePromptSchema,
+                temperature: 0.8, // Higher temp so a regeneration differs from the last prompt
+            });
+            console.log('Generated prompt:', simplePrompt);
+
+            // 4. Build Full Styled Prompt from the shared preset
+            fullPrompt = buildStyledPrompt(preset, simplePrompt);
         }
 
-        // 5. Update scene with new image
+        // 5. Generate image through the shared provider registry
+        const referenceImage = preset.usesReferenceImage
+            ? await resolveReferenceImage(supabase, user.id, settings.referenceCharacter)
+            : undefined;
+        const imageRoute = resolveImageRoute(activeModel, preset, referenceImage, settings.imageFallbacks);
+        const { url: imageUrl, providerId } = await generateImage(imageRoute, {
+            prompt: fullPrompt,
+            projectId,
+            sceneIndex,
+            aspectRatio
+        });
+
+        // 6. Update scene with new image
         // Conditionally update image_url or image_url_2 based on imageTarget
         // Also ensure media_type is set to 'image' (important if converting from 'video')
         const updateData: any = {
             prompt: fullPrompt,
             media_type: 'image',
-            status: 'ready'
+            status: 'ready',
+            stale_assets: (scene.stale_assets || []).filter((asset: string) => asset !== 'prompt')
         };
 
         if (imageTarget === 'secondary') {
             updateData.image_url_2 = imageUrl;
+            updateData.image_provider_2 = providerId;
         } else {
             updateData.image_url = imageUrl;
+            updateData.image_provider = providerId;
+            updateData.candidates_pending = false;
         }
 
         const { error: updateError } = await supabase
@@ -221,7 +111,13 @@ Output Quality: High-contrast, sharp lines, suitable for 4K video playback.`;
 
         if (updateError) throw updateError;
 
-        return { success: true, imageUrl, prompt: fullPrompt };
+        await recordSceneAsset(user.id, scene as SceneApi, imageTarget === 'secondary' ? 'image_2' : 'image', {
+            url: imageUrl,
+            prompt: fullPrompt,
+            provider: providerId
+        });
+
+        return { success: true, imageUrl, prompt: fullPrompt, provider: providerId };
     } catch (e: any) {
         console.error('Regenerate Image Failed:', e);
         return { success: false, error: e.message };
@@ -0,0 +1,85 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { SceneApi, SceneAssetApi } from '@/types';
+import { SCENE_ASSET_SLOTS } from '@/lib/sceneAssets';
+
+export async function listSceneAssets(sceneId: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized', assets: [] as SceneAssetApi[] };
+    }
+
+    const { data, error } = await supabase
+        .from('scene_assets')
+        .select('*')
+        .eq('scene_id', sceneId)
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false });
+
+    if (error) {
+        console.error('List Scene Assets Failed:', error);
+        return { success: false, error: error.message, assets: [] as SceneAssetApi[] };
+    }
+
+    return { success: true, assets: (data || []) as SceneAssetApi[] };
+}
+
+/**
+ * Puts an earlier take back on its scene (image 1, image 2 or audio). A restored image also restores
+ * the prompt it was made from, unless the scene's prompt is locked.
+ */
+export async function selectSceneAsset(assetId: string) {
+    const supabase = await createClient();
+
+    // 1. Auth Check
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    // 2. Verify ownership (RLS limits scene_assets to the user's own takes)
+    const { data: asset } = await supabase
+        .from('scene_assets')
+        .select('*, scenes!inner(prompt_locked)')
+        .eq('id', assetId)
+        .eq('user_id', user.id)
+        .single();
+
+    if (!asset) {
+        return { success: false, error: 'Variant not found or unauthorized' };
+    }
+
+    try {
+        // 3. Point the scene at the take
+        const updateData: Record<string, unknown> = { [SCENE_ASSET_SLOTS[asset.kind as SceneAssetApi['kind']]]: asset.url };
+
+        if (asset.kind === 'audio') {
+            updateData.duration = asset.duration;
+            updateData.word_timings = asset.word_timings;
+        } else if (asset.kind === 'image_2') {
+            updateData.image_provider_2 = asset.provider;
+        } else {
+            updateData.image_provider = asset.provider;
+            updateData.media_type = 'image';
+            updateData.candidates_pending = false;
+            if (asset.prompt && !asset.scenes.prompt_locked) updateData.prompt = asset.prompt;
+        }
+
+        const { data: updatedScene, error: updateError } = await supabase
+            .from('scenes')
+            .update(updateData)
+            .eq('id', asset.scene_id)
+            .select()
+            .single();
+
+        if (updateError) throw updateError;
+
+        return { success: true, scene: updatedScene as SceneApi };
+    } catch (e: any) {
+        console.error('Select Scene Asset Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
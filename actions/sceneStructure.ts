@@ -0,0 +1,274 @@
+'use server';
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createClient } from '@/utils/supabase/server';
+import { SceneApi } from '@/types';
+import { getProjectSegments, scriptFromSegments } from '@/lib/segmentation';
+
+// Storyboard structure edits. Renumbering order_index and rewriting projects.script / segments
+// happen together inside one RPC (see supabase/schema.sql) so a failure can't leave gaps or duplicates.
+
+type ProjectStructure = {
+    scenes: SceneApi[];
+    segments: string[]; // Current scene texts by order_index, including not-yet-generated segments
+};
+
+async function loadProjectStructure(supabase: SupabaseClient, projectId: string, userId: string): Promise<ProjectStructure | null> {
+    const { data: project } = await supabase
+        .from('projects')
+        .select('user_id, script, segments')
+        .eq('id', projectId)
+        .single();
+
+    if (!project || project.user_id !== userId) return null;
+
+    const { data: scenes } = await supabase
+        .from('scenes')
+        .select('*')
+        .eq('project_id', projectId)
+        .order('order_index');
+
+    // Scene texts take precedence over the stored segments (they may have been edited)
+    const segments = [...getProjectSegments(project)];
+    for (const scene of scenes || []) {
+        segments[scene.order_index] = scene.text;
+    }
+
+    return { scenes: (scenes || []) as SceneApi[], segments: Array.from(segments, segment => segment ?? '') };
+}
+
+async function getAuthedScene(supabase: SupabaseClient, sceneId: string, userId: string): Promise<SceneApi | null> {
+    const { data: scene } = await supabase
+        .from('scenes')
+        .select('*, projects!inner(user_id)')
+        .eq('id', sceneId)
+        .single();
+
+    if (!scene || scene.projects.user_id !== userId) return null;
+    return scene as SceneApi;
+}
+
+/**
+ * Inserts a new (pending) scene at position `at`; later scenes shift down.
+ */
+export async function insertScene(projectId: string, at: number, text: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    const newText = text.replace(/\s+/g, ' ').trim();
+    if (!newText) {
+        return { success: false, error: 'Scene text cannot be empty' };
+    }
+
+    try {
+        const structure = await loadProjectStructure(supabase, projectId, user.id);
+        if (!structure) {
+            return { success: false, error: 'Project not found or unauthorized' };
+        }
+
+        const position = Math.max(0, Math.min(at, structure.segments.length));
+        const segments = [...structure.segments];
+        segments.splice(position, 0, newText);
+
+        const { data: sceneId, error } = await supabase.rpc('insert_scene', {
+            p_project_id: projectId,
+            p_at: position,
+            p_text: newText,
+            p_script: scriptFromSegments(segments),
+            p_segments: segments,
+        });
+
+        if (error) throw error;
+
+        return { success: true, sceneId: sceneId as string };
+    } catch (e: any) {
+        console.error('Insert Scene Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+export async function deleteScene(sceneId: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    try {
+        const scene = await getAuthedScene(supabase, sceneId, user.id);
+        if (!scene) {
+            return { success: false, error: 'Scene not found or unauthorized' };
+        }
+
+        const structure = await loadProjectStructure(supabase, scene.project_id, user.id);
+        if (!structure) {
+            return { success: false, error: 'Project not found or unauthorized' };
+        }
+
+        const segments = [...structure.segments];
+        segments.splice(scene.order_index, 1);
+
+        const { error } = await supabase.rpc('delete_scene', {
+            p_scene_id: sceneId,
+            p_script: scriptFromSegments(segments),
+            p_segments: segments,
+        });
+
+        if (error) throw error;
+
+        return { success: true };
+    } catch (e: any) {
+        console.error('Delete Scene Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+/**
+ * Splits a scene in two. The first half keeps the scene's image (and its audio, flagged stale);
+ * a second image, if the scene had one, moves to the new scene.
+ */
+export async function splitScene(sceneId: string, firstText: string, secondText: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    const first = firstText.replace(/\s+/g, ' ').trim();
+    const second = secondText.replace(/\s+/g, ' ').trim();
+    if (!first || !second) {
+        return { success: false, error: 'Both halves of a split need text' };
+    }
+
+    try {
+        const scene = await getAuthedScene(supabase, sceneId, user.id);
+        if (!scene) {
+            return { success: false, error: 'Scene not found or unauthorized' };
+        }
+
+        const structure = await loadProjectStructure(supabase, scene.project_id, user.id);
+        if (!structure) {
+            return { success: false, error: 'Project not found or unauthorized' };
+        }
+
+        const segments = [...structure.segments];
+        segments.splice(scene.order_index, 1, first, second);
+
+        const { data: newSceneId, error } = await supabase.rpc('split_scene', {
+            p_scene_id: sceneId,
+            p_first_text: first,
+            p_second_text: second,
+            p_script: scriptFromSegments(segments),
+            p_segments: segments,
+        });
+
+        if (error) throw error;
+
+        return { success: true, sceneId: newSceneId as string };
+    } catch (e: any) {
+        console.error('Split Scene Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+/**
+ * Merges a scene with the one after it. The merged scene keeps the first scene's image and takes
+ * the second scene's image as its second image when that slot is free.
+ */
+export async function mergeWithNextScene(sceneId: string) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    try {
+        const scene = await getAuthedScene(supabase, sceneId, user.id);
+        if (!scene) {
+            return { success: false, error: 'Scene not found or unauthorized' };
+        }
+
+        const structure = await loadProjectStructure(supabase, scene.project_id, user.id);
+        if (!structure) {
+            return { success: false, error: 'Project not found or unauthorized' };
+        }
+
+        const next = structure.scenes.find(s => s.order_index === scene.order_index + 1);
+        if (!next) {
+            return { success: false, error: 'There is no generated scene after this one to merge with' };
+        }
+
+        const text = `${scene.text} ${next.text}`;
+        const segments = [...structure.segments];
+        segments.splice(scene.order_index, 2, text);
+
+        const { error } = await supabase.rpc('merge_scenes', {
+            p_first_id: sceneId,
+            p_second_id: next.id,
+            p_text: text,
+            p_script: scriptFromSegments(segments),
+            p_segments: segments,
+        });
+
+        if (error) throw error;
+
+        return { success: true };
+    } catch (e: any) {
+        console.error('Merge Scenes Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
+
+/**
+ * Reorders scenes. sceneIds must list every scene of the project in the new order; assets move with their scene.
+ */
+export async function reorderScenes(projectId: string, sceneIds: string[]) {
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    try {
+        const structure = await loadProjectStructure(supabase, projectId, user.id);
+        if (!structure) {
+            return { success: false, error: 'Project not found or unauthorized' };
+        }
+
+        const byId = new Map(structure.scenes.map(scene => [scene.id, scene]));
+        if (sceneIds.length !== byId.size || !sceneIds.every(id => byId.has(id))) {
+            return { success: false, error: 'Scene list is out of date, reload and try again' };
+        }
+
+        // Generated scenes fill the positions generated scenes held, in the new order;
+        // not-yet-generated segments stay where they are
+        const orderIndices = structure.scenes.map(scene => scene.order_index).sort((a, b) => a - b);
+        const segments = [...structure.segments];
+        sceneIds.forEach((id, i) => {
+            segments[orderIndices[i]] = structure.segments[byId.get(id)!.order_index];
+        });
+
+        const { error } = await supabase.rpc('reorder_scenes', {
+            p_project_id: projectId,
+            p_scene_ids: sceneIds,
+            p_order_indices: orderIndices,
+            p_script: scriptFromSegments(segments),
+            p_segments: segments,
+        });
+
+        if (error) throw error;
+
+        return { success: true };
+    } catch (e: any) {
+        console.error('Reorder Scenes Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
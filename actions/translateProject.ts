@@ -0,0 +1,152 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { ProjectApi, ProjectSettings, SceneApi } from '@/types';
+import { languageLabel, LANGUAGE_OPTIONS, VOICE_OPTIONS } from '@/lib/constants';
+import { translateTexts } from '@/lib/translation';
+import { queueJob, triggerJobRunner } from '@/lib/generationJobs';
+import { copyAssetToProject } from '@/lib/sceneAssets';
+import { scriptFromSegments } from '@/lib/segmentation';
+import { deleteProject } from './deleteProject';
+
+const COPY_CONCURRENCY = 5;
+
+/**
+ * Copies a project into another language: scene texts (and headings) are translated, the images and
+ * prompts are reused (image files are copied into the new project's folder), and a narrate_scenes job records the new narration with a voice that speaks
+ * the language (audioVoice if it does, else the project's voice if it does, else the first that does).
+ * Returns the id of the new project. If copying fails the half-made copy is deleted again.
+ */
+export async function translateProject(projectId: string, language: string, audioVoice?: string) {
+    const supabase = await createClient();
+
+    // 1. Auth Check
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    // 2. Verify Ownership
+    const { data: project } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('id', projectId)
+        .single();
+
+    if (!project || project.user_id !== user.id) {
+        return { success: false, error: 'Project not found or unauthorized' };
+    }
+
+    const { settings } = project as ProjectApi;
+    const sourceLanguage = settings.language || 'en';
+    if (!LANGUAGE_OPTIONS.some(l => l.value === language)) {
+        return { success: false, error: 'Unsupported language' };
+    }
+    if (language === sourceLanguage) {
+        return { success: false, error: `Project is already in ${languageLabel(language)}` };
+    }
+
+    const voices = VOICE_OPTIONS.filter(v => v.languages.includes(language));
+    const voice = voices.find(v => v.value === audioVoice) || voices.find(v => v.value === settings.audioVoice) || voices[0];
+    if (!voice) {
+        return { success: false, error: `No voice speaks ${languageLabel(language)}` };
+    }
+
+    let copyId: string | null = null;
+
+    try {
+        const { data: scenes, error: scenesError } = await supabase
+            .from('scenes')
+            .select('*')
+            .eq('project_id', projectId)
+            .order('order_index');
+
+        if (scenesError) throw scenesError;
+        if (!scenes || scenes.length === 0) {
+            return { success: false, error: 'Generate the project before translating it' };
+        }
+
+        // 3. Translate scene texts and headings together (headings are matched against scene text)
+        const headings = settings.headings || [];
+        const translated = await translateTexts([...scenes.map(s => s.text), ...headings], sourceLanguage, language);
+        const sceneTexts = translated.slice(0, scenes.length);
+
+        const translatedSettings: ProjectSettings = {
+            ...settings,
+            language,
+            audioVoice: voice.value,
+            headings: settings.headings ? translated.slice(scenes.length) : undefined,
+            isVerified: false,
+            renderParts: undefined
+        };
+
+        // 4. Create the translated project
+        const { data: copy, error: projectError } = await supabase
+            .from('projects')
+            .insert({
+                user_id: user.id,
+                script: scriptFromSegments(sceneTexts),
+                segments: sceneTexts,
+                story_bible: project.story_bible ?? null,
+                settings: translatedSettings,
+                status: 'draft'
+            })
+            .select()
+            .single();
+
+        if (projectError) throw projectError;
+        copyId = copy.id as string;
+
+        // 5. Copy the image files, so deleting or regenerating the original never takes them from the copy
+        const imageUrls = new Map<string, string>();
+        const pending = Array.from(new Set((scenes as SceneApi[]).flatMap(s => [s.image_url, s.image_url_2]).filter((url): url is string => !!url)));
+        const copyWorker = async () => {
+            for (let url = pending.shift(); url; url = pending.shift()) {
+                imageUrls.set(url, await copyAssetToProject(url, copy.id));
+            }
+        };
+        await Promise.all(Array.from({ length: COPY_CONCURRENCY }, copyWorker));
+
+        // 6. Copy the scenes with their visuals; narration is recorded by the job
+        const { error: insertError } = await supabase
+            .from('scenes')
+            .insert((scenes as SceneApi[]).map((scene, i) => ({
+                project_id: copy.id,
+                order_index: scene.order_index,
+                text: sceneTexts[i],
+                prompt: scene.prompt,
+                prompt_locked: scene.prompt_locked ?? false,
+                image_url: scene.image_url ? imageUrls.get(scene.image_url)! : null,
+                image_url_2: scene.image_url_2 ? imageUrls.get(scene.image_url_2)! : null,
+                image_provider: scene.image_provider ?? null,
+                image_provider_2: scene.image_provider_2 ?? null,
+                visual_style: scene.visual_style ?? null,
+                media_type: scene.media_type,
+                attribution: scene.attribution ?? null,
+                status: 'pending'
+            })));
+
+        if (insertError) throw insertError;
+
+        // 7. Queue the narration
+        const job = await queueJob(copy.id, user.id, 'narrate_scenes', scenes.length, `Queued narration of ${scenes.length} scenes`);
+
+        // The copy exists either way: if the runner can't be reached the job is marked failed and
+        // "Generate" in the copy records the narration instead
+        try {
+            await triggerJobRunner(job.id);
+        } catch (e: any) {
+            console.error(`[Translate] Narration job ${job.id} could not be started:`, e.message);
+        }
+        console.log(`[Translate] Project ${projectId} translated to ${language} as ${copy.id}`);
+
+        return { success: true, projectId: copy.id as string };
+    } catch (e: any) {
+        console.error('Translate Project Failed:', e);
+        if (copyId) {
+            const cleanup = await deleteProject(copyId);
+            if (!cleanup.success) console.error(`[Translate] Failed to delete incomplete copy ${copyId}:`, cleanup.error);
+        }
+        return { success: false, error: e.message };
+    }
+}
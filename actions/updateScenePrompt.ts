@@ -0,0 +1,51 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { SceneApi } from '@/types';
+
+/**
+ * Saves a user-edited image prompt for a scene and whether it is locked. A locked prompt is used
+ * verbatim by scene generation and image regeneration instead of asking OpenAI for a new one.
+ */
+export async function updateScenePrompt(sceneId: string, prompt: string, locked: boolean) {
+    const supabase = await createClient();
+
+    // 1. Auth Check
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    // 2. Verify scene ownership
+    const { data: scene } = await supabase
+        .from('scenes')
+        .select('*, projects!inner(user_id)')
+        .eq('id', sceneId)
+        .single();
+
+    if (!scene || scene.projects.user_id !== user.id) {
+        return { success: false, error: 'Scene not found or unauthorized' };
+    }
+
+    const newPrompt = prompt.trim();
+    if (!newPrompt) {
+        return { success: false, error: 'Prompt cannot be empty' };
+    }
+
+    try {
+        // 3. Save prompt and lock state
+        const { data: updatedScene, error: updateError } = await supabase
+            .from('scenes')
+            .update({ prompt: newPrompt, prompt_locked: locked })
+            .eq('id', sceneId)
+            .select()
+            .single();
+
+        if (updateError) throw updateError;
+
+        return { success: true, scene: updatedScene as SceneApi };
+    } catch (e: any) {
+        console.error('Update Scene Prompt Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
@@ -0,0 +1,77 @@
+'use server';
+
+import { createClient } from '@/utils/supabase/server';
+import { SceneApi } from '@/types';
+import { getProjectSegments, scriptFromSegments } from '@/lib/segmentation';
+
+/**
+ * Edits a scene's narration text. Its audio (and duration) and image prompt no longer match,
+ * so they are flagged in stale_assets until regenerated. projects.script / segments are kept in sync.
+ */
+export async function updateSceneText(sceneId: string, text: string) {
+    const supabase = await createClient();
+
+    // 1. Auth Check
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return { success: false, error: 'Unauthorized' };
+    }
+
+    // 2. Verify scene ownership
+    const { data: scene } = await supabase
+        .from('scenes')
+        .select('*, projects!inner(user_id, script, segments)')
+        .eq('id', sceneId)
+        .single();
+
+    if (!scene || scene.projects.user_id !== user.id) {
+        return { success: false, error: 'Scene not found or unauthorized' };
+    }
+
+    const newText = text.replace(/\s+/g, ' ').trim();
+    if (!newText) {
+        return { success: false, error: 'Scene text cannot be empty' };
+    }
+    if (newText === scene.text) {
+        return { success: true, scene: scene as SceneApi };
+    }
+
+    try {
+        // 3. Update scene text and mark dependent assets stale
+        const staleAssets = Array.from(new Set([...(scene.stale_assets || []), 'audio', 'prompt']));
+        const { data: updatedScene, error: updateError } = await supabase
+            .from('scenes')
+            .update({ text: newText, stale_assets: staleAssets })
+            .eq('id', sceneId)
+            .select()
+            .single();
+
+        if (updateError) throw updateError;
+
+        // 4. Rebuild the project script from the ordered segments; scene texts take precedence
+        // over the stored segments (they may have been edited), not-yet-generated segments keep theirs
+        const { data: scenes } = await supabase
+            .from('scenes')
+            .select('order_index, text')
+            .eq('project_id', scene.project_id)
+            .order('order_index');
+
+        const segments = [...getProjectSegments(scene.projects)];
+        for (const s of scenes || []) {
+            segments[s.order_index] = s.text;
+        }
+        const orderedSegments = Array.from(segments, segment => segment ?? '');
+
+        const { error: projectError } = await supabase
+            .from('projects')
+            .update({ script: scriptFromSegments(orderedSegments), segments: orderedSegments })
+            .eq('id', scene.project_id);
+
+        if (projectError) throw projectError;
+
+        return { success: true, scene: updatedScene as SceneApi };
+    } catch (e: any) {
+        console.error('Update Scene Text Failed:', e);
+        return { success: false, error: e.message };
+    }
+}
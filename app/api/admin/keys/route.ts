@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import keyRotation from '@/lib/keyRotation';
+
+// Per-key health of the rotation pools (keys are masked). Restricted to ADMIN_EMAILS (comma-separated).
+export async function GET() {
+    const supabase = await createClient();
+
+    // 1. Auth Check
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Admin Check
+    const adminEmails = (process.env.ADMIN_EMAILS || '')
+        .split(',')
+        .map(email => email.trim().toLowerCase())
+        .filter(Boolean);
+    if (!user.email || !adminEmails.includes(user.email.toLowerCase())) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    return NextResponse.json({ pools: keyRotation.getHealthSnapshot() });
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { buildSubtitleCues, SUBTITLE_FORMATS, SubtitleFormat } from '@/lib/subtitles';
+
+// Must match the part size of the render route so part captions line up with part videos
+const MAX_SCENES = 800;
+
+/**
+ * Caption file for the project's render: ?format=srt|vtt|sbv (YouTube), optional &part=N for one
+ * part of a multi-part export.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ projectId: string }> }
+) {
+    const { projectId } = await params;
+    const supabase = await createClient();
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'srt';
+    if (!Object.hasOwn(SUBTITLE_FORMATS, format)) {
+        return NextResponse.json({ error: `Unsupported caption format: ${format}` }, { status: 400 });
+    }
+    const writer = SUBTITLE_FORMATS[format as SubtitleFormat];
+
+    const partParam = request.nextUrl.searchParams.get('part');
+    const partNumber = partParam ? Number(partParam) : undefined;
+    if (partNumber !== undefined && (!Number.isInteger(partNumber) || partNumber < 1)) {
+        return NextResponse.json({ error: 'Invalid part' }, { status: 400 });
+    }
+
+    const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('*')
+        .eq('id', projectId)
+        .single();
+
+    if (projectError || !project || project.user_id !== user.id) {
+        return NextResponse.json({ error: 'Project not found or unauthorized' }, { status: 404 });
+    }
+
+    // Same scenes, in the same order, as the render route
+    const { data: scenes, error: scenesError } = await supabase
+        .from('scenes')
+        .select('*')
+        .eq('project_id', projectId)
+        .eq('status', 'ready')
+        .order('order_index');
+
+    if (scenesError || !scenes || scenes.length === 0) {
+        return NextResponse.json({ error: 'No ready scenes found' }, { status: 400 });
+    }
+
+    let scenesInFile = scenes;
+    let isFirstPart: boolean | undefined;
+    if (partNumber !== undefined) {
+        scenesInFile = scenes.slice((partNumber - 1) * MAX_SCENES, partNumber * MAX_SCENES);
+        isFirstPart = partNumber === 1;
+        if (scenesInFile.length === 0) {
+            return NextResponse.json({ error: 'No scenes in this part' }, { status: 400 });
+        }
+    }
+
+    const cues = buildSubtitleCues(scenesInFile, project.settings, isFirstPart);
+    const fileName = `captions-${projectId.slice(0, 8)}${partNumber !== undefined ? `-part${partNumber}` : ''}.${writer.extension}`;
+
+    return new NextResponse(writer.write(cues), {
+        headers: {
+            'Content-Type': writer.contentType,
+            'Content-Disposition': `attachment; filename="${fileName}"`,
+            'Cache-Control': 'no-store',
+        },
+    });
+}
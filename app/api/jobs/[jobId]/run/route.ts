@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { runGenerationJob, triggerJobRunner } from '@/lib/generationJobs';
+
+// Each invocation works for up to ~4 minutes, then re-triggers itself for the remaining scenes
+export const maxDuration = 300;
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    const { jobId } = await params;
+
+    // 1. Internal-only: called by startGenerationJob / resumeGenerationJob and by itself
+    const secret = process.env.JOB_RUNNER_SECRET;
+    if (!secret || request.headers.get('x-job-secret') !== secret) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // 2. Respond immediately, run the job after the response
+    after(async () => {
+        try {
+            const outcome = await runGenerationJob(jobId);
+            console.log(`[Jobs] Job ${jobId} run finished: ${outcome}`);
+            if (outcome === 'requeued') {
+                await triggerJobRunner(jobId);
+            }
+        } catch (error: any) {
+            console.error(`[Jobs] Job ${jobId} runner error:`, error);
+        }
+    });
+
+    return NextResponse.json({ accepted: true }, { status: 202 });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { collectUnselectedSceneAssets } from '@/lib/sceneAssets';
+
+// Garbage collection of unselected scene takes, meant for a scheduled job (e.g. Vercel Cron, which sends CRON_SECRET as a bearer token)
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    try {
+        const removed = await collectUnselectedSceneAssets();
+        return NextResponse.json({ removed });
+    } catch (error: any) {
+        console.error('[SceneAssets] Garbage collection failed:', error);
+        return NextResponse.json({ error: error.message }, { status: 500 });
+    }
+}
@@ -18,9 +18,11 @@ export async function POST(
 
     // 2. Parse Body (Optional)
     let partNumber: number | undefined;
+    let burnInCaptions = true; // false = render without captions (e.g. to upload an exported SRT/VTT track instead)
     try {
         const body = await request.json();
         partNumber = body.part;
+        burnInCaptions = body.captions !== false;
     } catch (e) {
         // Body might be empty for legacy/full render
     }
@@ -99,6 +101,7 @@ export async function POST(
         } else {
             console.log(`[Render API] Triggering Full Render (${scenes.length} scenes)`);
         }
+        if (!burnInCaptions) console.log('[Render API] Captions disabled for this render');
 
         if (scenesToRender.length === 0) {
             throw new Error("No scenes to render for this part.");
@@ -134,7 +137,9 @@ export async function POST(
                     bucketName: targetBucketName,
                     inputProps: {
                         scenes: scenesToRender,
-                        settings: project.settings,
+                        settings: burnInCaptions
+                            ? project.settings
+                            : { ...project.settings, captions: { ...project.settings.captions, enabled: false } },
                         projectId,
                         isFirstPart: currentPartIndex === 0, // Use different prop name to avoid Remotion's part detection
                     },
@@ -3,10 +3,15 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/utils/supabase/client';
-import { ProjectSettings, ProjectApi } from '@/types';
+import { ProjectSettings, ProjectApi, CustomStyleApi, ReferenceCharacterApi } from '@/types';
 import { deleteProject } from '@/actions/deleteProject';
-import { Sparkles, Play, Clock, LayoutGrid, Plus, ChevronRight, Wand2, Type, Trash2, LayoutTemplate } from 'lucide-react';
+import { listCustomStyles } from '@/actions/customStyles';
+import CustomStylesManager from '@/components/CustomStylesManager';
+import { listReferenceCharacters } from '@/actions/referenceCharacters';
+import ReferenceCharacterLibrary from '@/components/ReferenceCharacterLibrary';
+import { Sparkles, Play, Clock, LayoutGrid, Plus, ChevronRight, Wand2, Type, Trash2, LayoutTemplate, Palette, Users } from 'lucide-react';
 import { VOICE_OPTIONS, CAPTION_FONTS, CAPTION_POSITIONS } from '@/lib/constants';
+import { segmentScript } from '@/lib/segmentation';
 import dynamic from 'next/dynamic';
 const TemplateMode = dynamic(() => import('@/components/TemplateMode'), { ssr: false });
 
@@ -20,6 +25,10 @@ export default function Home() {
     const [user, setUser] = useState<any>(null);
 
     const [credits, setCredits] = useState<number | null>(null);
+    const [customStyles, setCustomStyles] = useState<CustomStyleApi[]>([]);
+    const [showStyleManager, setShowStyleManager] = useState(false);
+    const [referenceCharacters, setReferenceCharacters] = useState<ReferenceCharacterApi[]>([]);
+    const [showCharacterLibrary, setShowCharacterLibrary] = useState(false);
 
     // Initial Load
     useEffect(() => {
@@ -48,6 +57,10 @@ export default function Home() {
                 .order('created_at', { ascending: false });
 
             if (data) setProjects(data);
+
+            const [{ styles }, { characters }] = await Promise.all([listCustomStyles(), listReferenceCharacters()]);
+            setCustomStyles(styles);
+            setReferenceCharacters(characters);
         };
         init();
     }, []);
@@ -96,6 +109,7 @@ export default function Home() {
                 .insert({
                     user_id: user.id,
                     script,
+                    segments: segmentScript(script), // Fix scene boundaries now so later edits to the splitter don't shift them
                     settings,
                     status: 'draft'
                 })
@@ -258,7 +272,16 @@ export default function Home() {
 
                                 <div className="space-y-5">
                                     <div className="space-y-2">
-                                        <label className="text-xs font-semibold uppercase tracking-wider text-stone-500">Visual Style</label>
+                                        <div className="flex items-center justify-between">
+                                            <label className="text-xs font-semibold uppercase tracking-wider text-stone-500">Visual Style</label>
+                                            <button
+                                                type="button"
+                                                onClick={() => setShowStyleManager(true)}
+                                                className="flex items-center gap-1 text-xs text-stone-500 hover:text-orange-400 transition-colors"
+                                            >
+                                                <Palette className="w-3 h-3" /> My Styles
+                                            </button>
+                                        </div>
                                         <select
                                             value={settings.visualStyle}
                                             onChange={(e) => {
@@ -291,12 +314,28 @@ export default function Home() {
                                             <option value="grandma_finetuned">Grandma Finetuned</option>
                                             <option value="dark_animated">Dark Animated (Psychology)</option>
                                             <option value="reference_image">Reference Character</option>
+                                            {customStyles.length > 0 && (
+                                                <optgroup label="My Styles">
+                                                    {customStyles.map(style => (
+                                                        <option key={style.id} value={`custom:${style.id}`}>{style.name}</option>
+                                                    ))}
+                                                </optgroup>
+                                            )}
                                         </select>
                                     </div>
 
                                     {settings.visualStyle === 'reference_image' && (
                                         <div className="space-y-2">
-                                            <label className="text-xs font-semibold uppercase tracking-wider text-stone-500">Character</label>
+                                            <div className="flex items-center justify-between">
+                                                <label className="text-xs font-semibold uppercase tracking-wider text-stone-500">Character</label>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => setShowCharacterLibrary(true)}
+                                                    className="flex items-center gap-1 text-xs text-stone-500 hover:text-orange-400 transition-colors"
+                                                >
+                                                    <Users className="w-3 h-3" /> My Characters
+                                                </button>
+                                            </div>
                                             <select
                                                 value={settings.referenceCharacter || 'grandpa'}
                                                 onChange={(e) => setSettings({ ...settings, referenceCharacter: e.target.value as any })}
@@ -306,6 +345,13 @@ export default function Home() {
                                                 <option value="grandma">Grandma</option>
                                                 <option value="james">James</option>
                                                 <option value="dr_sticky">Dr. Sticky</option>
+                                                {referenceCharacters.length > 0 && (
+                                                    <optgroup label="My Characters">
+                                                        {referenceCharacters.map(character => (
+                                                            <option key={character.id} value={`custom:${character.id}`}>{character.name}</option>
+                                                        ))}
+                                                    </optgroup>
+                                                )}
                                             </select>
                                         </div>
                                     )}
@@ -451,6 +497,32 @@ export default function Home() {
                     </div>
                 </div>
             </div>
+
+            <CustomStylesManager
+                isOpen={showStyleManager}
+                onClose={() => setShowStyleManager(false)}
+                styles={customStyles}
+                onStylesChange={(styles) => {
+                    setCustomStyles(styles);
+                    // Don't leave a deleted style selected
+                    if (settings.visualStyle.startsWith('custom:') && !styles.some(style => `custom:${style.id}` === settings.visualStyle)) {
+                        setSettings({ ...settings, visualStyle: 'zen' });
+                    }
+                }}
+            />
+
+            <ReferenceCharacterLibrary
+                isOpen={showCharacterLibrary}
+                onClose={() => setShowCharacterLibrary(false)}
+                characters={referenceCharacters}
+                onCharactersChange={(characters) => {
+                    setReferenceCharacters(characters);
+                    // Don't leave a deleted character selected
+                    if (settings.referenceCharacter?.startsWith('custom:') && !characters.some(character => `custom:${character.id}` === settings.referenceCharacter)) {
+                        setSettings({ ...settings, referenceCharacter: 'grandpa' });
+                    }
+                }}
+            />
         </div>
     );
 }
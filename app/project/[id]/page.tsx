@@ -3,18 +3,29 @@
 import { useEffect, useState, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { createClient } from '@/utils/supabase/client';
-import { ProjectApi, SceneApi, ProjectSettings } from '@/types';
-import { generateScene } from '@/actions/generateScene';
+import { ProjectApi, SceneApi, ProjectSettings, JobApi, CaptionFont } from '@/types';
+import { startGenerationJob, cancelGenerationJob, resumeGenerationJob } from '@/actions/generationJob';
 import { updateProjectSettings } from '@/actions/updateProjectSettings';
 import { regenerateAudio } from '@/actions/regenerateAudio';
 import { regenerateImage } from '@/actions/regenerateImage';
+import { updateSceneText } from '@/actions/updateSceneText';
+import { updateScenePrompt } from '@/actions/updateScenePrompt';
+import { insertScene, deleteScene, splitScene, mergeWithNextScene, reorderScenes } from '@/actions/sceneStructure';
 import { generateHeadings } from '@/actions/generateHeadings';
+import { generateCaptionEmphasis, toggleCaptionEmphasisWord } from '@/actions/captionEmphasis';
 import { Player } from '@remotion/player';
 import { MainComposition } from '@/remotion/MainComposition';
-import { ChevronLeft, Play, LayoutList, Image as ImageIcon, Music, Type, AlertCircle, Sparkles, ChevronDown, Loader2, Wand2, Settings, RefreshCw, Download, X } from 'lucide-react';
+import { ChevronLeft, Play, LayoutList, Image as ImageIcon, Music, Type, AlertCircle, Sparkles, ChevronDown, Loader2, Wand2, Settings, RefreshCw, Download, X, Pencil, Plus, Scissors, Combine, Trash2, Lock, Unlock, History, Captions, Languages } from 'lucide-react';
 import { toast } from 'sonner';
 import RenderingModal from '@/components/RenderingModal';
+import SceneAssetHistory from '@/components/SceneAssetHistory';
+import CaptionStyleEditor from '@/components/CaptionStyleEditor';
+import TranslateProjectModal from '@/components/TranslateProjectModal';
 import { useAvatarWorker } from '@/hooks/useAvatarWorker';
+import { IMAGE_PROVIDER_OPTIONS, JOB_STALE_AFTER_MS, isJobStalled, jobLastSeen } from '@/lib/constants';
+import type { SubtitleFormat } from '@/lib/subtitles';
+import { CAPTION_FONTS, captionFont, overrideCaptions } from '@/remotion/captions/theme';
+import { splitCaptionWords } from '@/remotion/captions/utils';
 
 export default function ProjectPage() {
     const params = useParams();
@@ -32,13 +43,30 @@ export default function ProjectPage() {
     const [showCredits, setShowCredits] = useState(false);
     const [regeneratingAudio, setRegeneratingAudio] = useState<string | null>(null);
     const [regeneratingImage, setRegeneratingImage] = useState<string | null>(null);
+    const [editingSceneId, setEditingSceneId] = useState<string | null>(null);
+    const [editingText, setEditingText] = useState("");
+    const [savingSceneText, setSavingSceneText] = useState(false);
+    const [editingPromptSceneId, setEditingPromptSceneId] = useState<string | null>(null);
+    const [editingPrompt, setEditingPrompt] = useState("");
+    const [savingPrompt, setSavingPrompt] = useState(false);
+    const [historySceneId, setHistorySceneId] = useState<string | null>(null);
+    const [structureEdit, setStructureEdit] = useState<{ sceneId: string; mode: 'insert' | 'split'; text: string } | null>(null);
+    const [structureBusy, setStructureBusy] = useState(false);
+    const [draggedSceneId, setDraggedSceneId] = useState<string | null>(null);
     const [rendering, setRendering] = useState(false);
     const [renderProgress, setRenderProgress] = useState<any>(null);
     const [showRenderModal, setShowRenderModal] = useState(false);
+    const [burnInCaptions, setBurnInCaptions] = useState(true); // Off = render without captions, to upload an exported caption file instead
+    const [captionFormat, setCaptionFormat] = useState<SubtitleFormat>('srt');
+    const [showCaptionEditor, setShowCaptionEditor] = useState(false);
+    const [showTranslate, setShowTranslate] = useState(false);
+    const [taggingEmphasis, setTaggingEmphasis] = useState(false);
     const [previewImage, setPreviewImage] = useState<{ url: string; url2?: string | null; isVideo?: boolean } | null>(null);
     const [showRegenOptions, setShowRegenOptions] = useState<string | null>(null);
     const [isValidating, setIsValidating] = useState(false);
     const [isVerified, setIsVerified] = useState(false);
+    const [activeJob, setActiveJob] = useState<JobApi | null>(null);
+    const [jobStalled, setJobStalled] = useState(false);
     const playerRef = useRef<any>(null);
 
     const {
@@ -216,172 +244,92 @@ export default function ProjectPage() {
 
     const [generationLog, setGenerationLog] = useState<string>("");
 
-    const handleGenerate = async () => {
-        if (!project) return;
-        setGenerating(true);
-        setGenProgress(0);
-        setGenerationLog("Initializing generation...");
-
-        setIsVerified(false);
-        await updateProjectSettings(projectId, { isVerified: false });
-
-        try {
-            // 1. Split Script (Simple regex)
-            const sentences = project.script.match(/[^.!?]+[.!?]+/g) || [project.script];
-
-            let generatedCount = 0;
-            const maxIter = Math.max(sentences.length, scenes.length);
-
-            // 2. Iterate and Generate
-            for (let i = 0; i < maxIter; i++) {
-                const existingScene = scenes.find(s => s.order_index === i);
-                const text = existingScene?.text || (sentences[i] ? sentences[i].trim() : "");
-                if (!text) continue;
-
-                // Skip if already generated
-                if (existingScene) {
-                    setGenProgress(((i + 1) / maxIter) * 100);
-                    continue;
-                }
-
-                // Rate Limit Check
-                if (generatedCount > 0 && generatedCount % 40 === 0) {
-                    setGenerationLog(`Rate limit pause: Waiting 60 seconds before continuing...`);
-                    await new Promise(resolve => setTimeout(resolve, 60000));
-                    setGenerationLog("Resuming generation...");
-                }
-
-                setGenerationLog(`Generating scene ${i + 1} of ${maxIter}...`);
-
-                // Call Server Action
-                const result = await generateScene(projectId, i, text, project.settings);
+    // Track the project's latest generation job (runs server-side, progress arrives via Realtime)
+    useEffect(() => {
+        supabase.from('jobs').select('*').eq('project_id', projectId)
+            .order('created_at', { ascending: false }).limit(1).maybeSingle()
+            .then(({ data }) => {
+                if (data) setActiveJob(data as JobApi);
+            });
 
-                if (!result.success || !result.scene) {
-                    setGenerationLog(`Error generating scene ${i + 1}: ${result.error}`);
-                    toast.error(`Error generating scene ${i + 1}: ${result.error}`);
-                    break;
-                }
+        const jobChannel = supabase.channel(`jobs-${projectId}`)
+            .on('postgres_changes',
+                { event: '*', schema: 'public', table: 'jobs', filter: `project_id=eq.${projectId}` },
+                (payload) => {
+                    if (payload.eventType === 'DELETE') return;
+                    const job = payload.new as JobApi;
+                    setActiveJob(prev => (!prev || prev.id === job.id || job.created_at > prev.created_at) ? job : prev);
+                })
+            .subscribe();
 
-                // OPTIMISTIC UPDATE: Add the new scene to state immediately
-                setScenes(prev => {
-                    const existing = prev.find(s => s.id === result.scene!.id);
-                    if (existing) return prev;
-                    return [...prev, result.scene!].sort((a, b) => a.order_index - b.order_index);
-                });
+        return () => {
+            supabase.removeChannel(jobChannel);
+        };
+    }, [projectId, supabase]);
 
-                generatedCount++;
-                setGenProgress(((i + 1) / maxIter) * 100);
-            }
-            setGenerationLog("Generation complete!");
-        } catch (e) {
-            console.error(e);
-            setGenerationLog("Generation failed due to an error.");
-            toast.error("Generation failed");
-        } finally {
-            setGenerating(false);
-            setTimeout(() => setGenerationLog(""), 5000);
+    // Mirror job progress into the generation UI; a job that stops heartbeating (or is never picked up) is shown as stalled
+    useEffect(() => {
+        if (!activeJob) return;
+        const active = activeJob.status === 'queued' || activeJob.status === 'running';
+        const staleIn = jobLastSeen(activeJob) + JOB_STALE_AFTER_MS - Date.now();
+
+        setGenerating(active);
+        setJobStalled(isJobStalled(activeJob));
+        setGenProgress(activeJob.total > 0 ? ((activeJob.completed + activeJob.failed) / activeJob.total) * 100 : 0);
+        setGenerationLog(active ? (activeJob.current_message || `Generated ${activeJob.completed} of ${activeJob.total}`) : "");
+
+        if (active && staleIn > 0) {
+            const timer = setTimeout(() => setJobStalled(true), staleIn);
+            return () => clearTimeout(timer);
         }
-    };
+    }, [activeJob]);
 
-    const handleContinueGeneration = async () => {
+    // Generation runs server-side as a job (survives tab close); this only queues / controls it
+    const handleGenerate = async () => {
         if (!project) return;
         setGenerating(true);
-        setGenProgress(0);
-        setGenerationLog("Analyzing missing content...");
+        setGenerationLog("Queueing generation...");
 
         setIsVerified(false);
         await updateProjectSettings(projectId, { isVerified: false });
 
-        try {
-            const sentences = project.script.match(/[^.!?]+[.!?]+/g) || [project.script];
-            let generatedCount = 0;
-            const maxIter = Math.max(sentences.length, scenes.length);
-
-            for (let i = 0; i < maxIter; i++) {
-                const existingScene = scenes.find(s => s.order_index === i);
-                const text = existingScene?.text || (sentences[i] ? sentences[i].trim() : "");
-                if (!text) continue;
-
-                // Update progress
-                setGenProgress(((i) / maxIter) * 100);
-
-                // Use current state 'scenes' (snapshot) to decide what to do
-                // Note: We search the *original* list. If we fix something, we won't see the update in 'scenes' variable 
-                // until next render, but that's fine for sequential processing.
-
-                // 1. Missing Scene
-                if (!existingScene) {
-                    setGenerationLog(`Generating missing scene ${i + 1}...`);
-                    await performGeneration(i, text);
-                    generatedCount++;
-                }
-                // 2. Error Scene
-                else if (existingScene.status === 'error') {
-                    setGenerationLog(`Retrying failed scene ${i + 1}...`);
-                    // Delete first to avoid conflicts/cleanup
-                    await supabase.from('scenes').delete().eq('id', existingScene.id);
-                    // Update local UI to remove it temporarily
-                    setScenes(prev => prev.filter(s => s.id !== existingScene.id));
-
-                    await performGeneration(i, text);
-                    generatedCount++;
-                }
-                // 3. Asset Checks on Existing Ready/Pending Scenes
-                else {
-                    let didWork = false;
-                    // Check Audio
-                    if (!existingScene.audio_url) {
-                        setGenerationLog(`Restoring audio for scene ${i + 1}...`);
-                        await handleRegenerateAudio(existingScene.id, text, i);
-                        didWork = true;
-                    }
-
-                    // Check Image (Visuals)
-                    if (!existingScene.image_url) {
-                        setGenerationLog(`Restoring visuals for scene ${i + 1}...`);
-                        await handleRegenerateImage(existingScene.id, text, i);
-                        didWork = true;
-                    }
-
-                    if (didWork) generatedCount++;
-                }
-
-                // Rate Limit
-                if (generatedCount > 0 && generatedCount % 10 === 0) {
-                    setGenerationLog(`Pausing for rate limits (10s)...`);
-                    await new Promise(r => setTimeout(r, 10000));
-                }
-            }
-            setGenerationLog("All scenes checked and generated!");
-            setGenProgress(100);
-        } catch (e) {
-            console.error(e);
-            toast.error("Continue generation interrupted");
-        } finally {
+        const result = await startGenerationJob(projectId);
+        if (!result.success) {
+            toast.error(`Failed to start generation: ${result.error}`);
             setGenerating(false);
-            setTimeout(() => {
-                setGenerationLog("");
-                setGenProgress(0);
-            }, 3000);
+            setGenerationLog("");
+            return;
         }
+        if (!result.job) {
+            toast.success("All scenes are already generated");
+            setGenerating(false);
+            setGenerationLog("");
+            return;
+        }
+        setActiveJob(result.job);
     };
 
-    const performGeneration = async (index: number, text: string) => {
-        if (!project) return;
-
-        const result = await generateScene(projectId, index, text, project.settings);
+    // Same job as handleGenerate: it picks up missing, failed and incomplete scenes
+    const handleContinueGeneration = handleGenerate;
 
-        if (!result.success || !result.scene) {
-            toast.error(`Error generating scene ${index + 1}: ${result.error}`);
-            // Don't break loop, just continue to next try or let user retry
-            return;
+    const handleCancelGeneration = async () => {
+        if (!activeJob) return;
+        const result = await cancelGenerationJob(activeJob.id);
+        if (!result.success) {
+            toast.error(`Failed to cancel generation: ${result.error}`);
+        } else if (result.job) {
+            setActiveJob(result.job);
         }
+    };
 
-        setScenes(prev => {
-            const existing = prev.find(s => s.id === result.scene!.id);
-            if (existing) return prev;
-            return [...prev, result.scene!].sort((a, b) => a.order_index - b.order_index);
-        });
+    const handleResumeGeneration = async () => {
+        if (!activeJob) return;
+        const result = await resumeGenerationJob(activeJob.id);
+        if (!result.success) {
+            toast.error(`Failed to resume generation: ${result.error}`);
+        } else if (result.job) {
+            setActiveJob(result.job);
+        }
     };
 
     const handleUpdateSettings = async (newSettings: Partial<ProjectSettings>) => {
@@ -440,9 +388,175 @@ export default function ProjectPage() {
 
 
 
+    const handleSaveSceneText = async (sceneId: string) => {
+        setSavingSceneText(true);
+
+        // Changing narration forces re-verification before next export
+        setIsVerified(false);
+        await updateProjectSettings(projectId, { isVerified: false });
+
+        try {
+            const result = await updateSceneText(sceneId, editingText);
+            if (result.success && result.scene) {
+                setScenes(prev => prev.map(s => s.id === sceneId ? result.scene! : s));
+                setEditingSceneId(null);
+            } else {
+                toast.error(`Failed to update scene text: ${result.error}`);
+            }
+        } catch (e: any) {
+            toast.error(`Error: ${e.message}`);
+        } finally {
+            setSavingSceneText(false);
+        }
+    };
+
+    // Saves an edited prompt (keeping its lock state), optionally regenerating the image with it right away
+    const handleSavePrompt = async (scene: SceneApi, regenerate: boolean) => {
+        if (regenerate) {
+            setEditingPromptSceneId(null);
+            await handleRegenerateImage(scene.id, scene.text, scene.order_index, 'primary', editingPrompt);
+            return;
+        }
+
+        setSavingPrompt(true);
+        try {
+            const result = await updateScenePrompt(scene.id, editingPrompt, !!scene.prompt_locked);
+            if (result.success && result.scene) {
+                setScenes(prev => prev.map(s => s.id === scene.id ? result.scene! : s));
+                setEditingPromptSceneId(null);
+            } else {
+                toast.error(`Failed to update prompt: ${result.error}`);
+            }
+        } catch (e: any) {
+            toast.error(`Error: ${e.message}`);
+        } finally {
+            setSavingPrompt(false);
+        }
+    };
+
+    const handleTogglePromptLock = async (scene: SceneApi) => {
+        if (!scene.prompt) return;
+
+        const result = await updateScenePrompt(scene.id, scene.prompt, !scene.prompt_locked);
+        if (result.success && result.scene) {
+            setScenes(prev => prev.map(s => s.id === scene.id ? result.scene! : s));
+        } else {
+            toast.error(`Failed to ${scene.prompt_locked ? 'unlock' : 'lock'} prompt: ${result.error}`);
+        }
+    };
+
+    const handleToggleEmphasisWord = async (scene: SceneApi, wordIndex: number) => {
+        const result = await toggleCaptionEmphasisWord(scene.id, wordIndex);
+        if (result.success && result.scene) {
+            setScenes(prev => prev.map(s => s.id === scene.id ? result.scene! : s));
+        } else {
+            toast.error(`Failed to update emphasis: ${result.error}`);
+        }
+    };
+
+    // Runs the emphasis tagging pass over scenes without current tags
+    const handleTagEmphasis = async () => {
+        setTaggingEmphasis(true);
+        try {
+            const result = await generateCaptionEmphasis(projectId);
+            if (!result.success) {
+                toast.error(`Emphasis tagging failed: ${result.error}`);
+                return;
+            }
+
+            const tagged = new Map(result.scenes.map(s => [s.id, s.caption_emphasis]));
+            setScenes(prev => prev.map(s => tagged.has(s.id) ? { ...s, caption_emphasis: tagged.get(s.id) } : s));
+            toast.success(`Tagged emphasis words in ${result.tagged} scenes`);
+        } finally {
+            setTaggingEmphasis(false);
+        }
+    };
+
+    // A take picked from the scene's variant history
+    const handleSceneAssetSelected = async (updatedScene: SceneApi) => {
+        setScenes(prev => prev.map(s => s.id === updatedScene.id ? updatedScene : s));
+
+        // Changing scene media forces re-verification before next export
+        setIsVerified(false);
+        await updateProjectSettings(projectId, { isVerified: false });
+    };
+
+    // Regenerates whatever a text edit left out of date (audio, and optionally the image from a fresh prompt)
+    const handleRegenerateStale = async (scene: SceneApi, includeImage: boolean) => {
+        await handleRegenerateAudio(scene.id, scene.text, scene.order_index);
+        if (includeImage) {
+            await handleRegenerateImage(scene.id, scene.text, scene.order_index);
+        }
+    };
+
+    // Storyboard structure edits (insert / split / merge / delete / reorder), then reload the renumbered scenes
+    const runStructureEdit = async (label: string, operation: () => Promise<{ success: boolean; error?: string }>) => {
+        setStructureBusy(true);
+
+        // Changing the storyboard forces re-verification before next export
+        setIsVerified(false);
+        await updateProjectSettings(projectId, { isVerified: false });
+
+        try {
+            const result = await operation();
+            if (!result.success) {
+                toast.error(`Failed to ${label}: ${result.error}`);
+                return false;
+            }
+            const { data: scns } = await supabase.from('scenes').select('*').eq('project_id', projectId).order('order_index');
+            if (scns) setScenes(scns);
+            return true;
+        } catch (e: any) {
+            toast.error(`Error: ${e.message}`);
+            return false;
+        } finally {
+            setStructureBusy(false);
+        }
+    };
+
+    const handleSaveStructureEdit = async (scene: SceneApi) => {
+        if (!structureEdit) return;
+
+        let ok: boolean;
+        if (structureEdit.mode === 'split') {
+            // The first line break marks where the scene splits
+            const [first, ...rest] = structureEdit.text.split(/\n+/);
+            if (rest.length === 0 || !first.trim() || !rest.join(' ').trim()) {
+                toast.error("Put a line break where the scene should split");
+                return;
+            }
+            ok = await runStructureEdit('split scene', () => splitScene(scene.id, first, rest.join(' ')));
+        } else {
+            ok = await runStructureEdit('insert scene', () => insertScene(projectId, scene.order_index + 1, structureEdit.text));
+        }
+
+        if (ok) setStructureEdit(null);
+    };
+
+    const handleDeleteScene = async (scene: SceneApi) => {
+        if (!confirm(`Delete scene ${scene.order_index + 1}? Its image and audio will be removed from the storyboard.`)) return;
+        const ok = await runStructureEdit('delete scene', () => deleteScene(scene.id));
+        if (ok && expandedSceneId === scene.id) setExpandedSceneId(null);
+    };
+
+    const handleDropScene = async (targetSceneId: string) => {
+        const draggedId = draggedSceneId;
+        setDraggedSceneId(null);
+        if (!draggedId || draggedId === targetSceneId) return;
+
+        const ids = scenes.map(s => s.id).filter(id => id !== draggedId);
+        ids.splice(ids.indexOf(targetSceneId) + (scenes.findIndex(s => s.id === draggedId) < scenes.findIndex(s => s.id === targetSceneId) ? 1 : 0), 0, draggedId);
+
+        // Optimistic reorder into the positions the scenes held (not-yet-generated segments keep theirs);
+        // runStructureEdit reloads the authoritative order
+        const orderIndices = scenes.map(s => s.order_index).sort((a, b) => a - b);
+        setScenes(prev => ids.map((id, i) => ({ ...prev.find(s => s.id === id)!, order_index: orderIndices[i] })));
+        await runStructureEdit('reorder scenes', () => reorderScenes(projectId, ids));
+    };
+
     // ... (rest of code) ...
 
-    const handleRegenerateImage = async (sceneId: string, text: string, sceneIndex: number, imageTarget: 'primary' | 'secondary' = 'primary') => {
+    const handleRegenerateImage = async (sceneId: string, text: string, sceneIndex: number, imageTarget: 'primary' | 'secondary' = 'primary', prompt?: string) => {
         if (!project) return;
         setRegeneratingImage(sceneId);
         setShowRegenOptions(null); // Close options if open
@@ -460,7 +574,8 @@ export default function ProjectPage() {
                 projectId,
                 sceneIndex,
                 project.settings.aspectRatio,
-                imageTarget
+                imageTarget,
+                prompt
             );
             if (result.success) {
                 // Reload scenes
@@ -604,7 +719,7 @@ export default function ProjectPage() {
             const response = await fetch(`/api/render/${projectId}`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ part })
+                body: JSON.stringify({ part, captions: burnInCaptions })
             });
 
             if (!response.ok) {
@@ -705,6 +820,15 @@ export default function ProjectPage() {
                         <LayoutList size={16} />
                         {showScript ? 'Hide' : 'Show'} Script
                     </button>
+                    <button
+                        onClick={() => setShowTranslate(true)}
+                        disabled={scenes.length === 0}
+                        className="px-4 py-2 bg-stone-800 hover:bg-stone-700 disabled:opacity-50 disabled:cursor-not-allowed text-stone-200 rounded-lg transition-colors flex items-center gap-2 text-sm"
+                        title="Copy this project into another language"
+                    >
+                        <Languages size={16} />
+                        Translate
+                    </button>
                     {rendering && !showRenderModal && (
                         <button
                             onClick={() => setShowRenderModal(true)}
@@ -788,6 +912,14 @@ export default function ProjectPage() {
                                                             {isRendering ? '' : 'Export'}
                                                         </button>
                                                     )}
+                                                    <a
+                                                        href={`/api/captions/${projectId}?format=${captionFormat}&part=${partNum}`}
+                                                        download
+                                                        className="px-1.5 py-1 text-stone-500 hover:text-white rounded text-[10px] flex items-center"
+                                                        title="Download captions for this part"
+                                                    >
+                                                        <Captions size={10} />
+                                                    </a>
                                                 </div>
                                             );
                                         })}
@@ -835,6 +967,43 @@ export default function ProjectPage() {
                             );
                         }
                     })()}
+                    {/* CAPTION EXPORT */}
+                    {scenes.some(s => s.status === 'ready') && (
+                        <div className="flex items-center gap-1 bg-stone-900/50 p-1 rounded-lg border border-white/5">
+                            {project.settings.captions.enabled && (
+                                <label
+                                    className="flex items-center gap-1.5 px-2 text-[11px] text-stone-400 cursor-pointer"
+                                    title="Uncheck to export the video without captions and upload a caption file separately"
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={burnInCaptions}
+                                        onChange={(e) => setBurnInCaptions(e.target.checked)}
+                                        className="accent-orange-500"
+                                    />
+                                    Burn in captions
+                                </label>
+                            )}
+                            <select
+                                value={captionFormat}
+                                onChange={(e) => setCaptionFormat(e.target.value as SubtitleFormat)}
+                                className="bg-stone-800 border border-white/10 rounded px-1.5 py-1 text-[11px] text-stone-300 focus:outline-none"
+                            >
+                                <option value="srt">SRT</option>
+                                <option value="vtt">WebVTT</option>
+                                <option value="sbv">YouTube (SBV)</option>
+                            </select>
+                            <a
+                                href={`/api/captions/${projectId}?format=${captionFormat}`}
+                                download
+                                className="px-2 py-1 bg-stone-800 hover:bg-stone-700 text-stone-300 rounded text-[11px] flex items-center gap-1 border border-white/10"
+                                title="Download captions for the full video"
+                            >
+                                <Captions size={12} />
+                                Captions
+                            </a>
+                        </div>
+                    )}
                     <div className="flex items-center gap-2">
                         {(project.status === 'rendering' || project.status === 'error') && (
                             <button
@@ -942,12 +1111,31 @@ export default function ProjectPage() {
                         <span className="text-xs font-bold uppercase tracking-wider text-stone-500 flex items-center gap-2">
                             <LayoutList size={14} /> Storyboard ({scenes.length})
                         </span>
-                        {generating && (
-                            <div className="flex flex-col items-end">
-                                <span className="text-xs text-orange-500 animate-pulse">{Math.round(genProgress)}%</span>
-                                <span className="text-[10px] text-stone-500">{generationLog}</span>
+                        {generating && !jobStalled && (
+                            <div className="flex items-center gap-2">
+                                <div className="flex flex-col items-end">
+                                    <span className="text-xs text-orange-500 animate-pulse">{Math.round(genProgress)}%</span>
+                                    <span className="text-[10px] text-stone-500">{generationLog}</span>
+                                </div>
+                                {activeJob && (
+                                    <button
+                                        onClick={handleCancelGeneration}
+                                        className="p-1 text-stone-500 hover:text-red-400 transition-colors"
+                                        title="Stop generation"
+                                    >
+                                        <X size={12} />
+                                    </button>
+                                )}
                             </div>
                         )}
+                        {jobStalled && (
+                            <button
+                                onClick={handleResumeGeneration}
+                                className="flex items-center gap-1 text-[10px] text-orange-400 hover:text-orange-300 transition-colors"
+                            >
+                                <RefreshCw size={10} /> Stalled at {Math.round(genProgress)}% - Resume
+                            </button>
+                        )}
                     </div>
 
                     <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-2">
@@ -964,7 +1152,17 @@ export default function ProjectPage() {
                         )}
 
                         {scenes.map((scene, idx) => (
-                            <div key={scene.id} className={`bg-stone-900 border p-3 rounded-lg transition-all cursor-pointer ${expandedSceneId === scene.id ? 'border-orange-500/50' : 'border-white/5 hover:border-orange-500/30'}`}>
+                            <div
+                                key={scene.id}
+                                draggable={!generating && !structureBusy && editingSceneId !== scene.id && structureEdit?.sceneId !== scene.id}
+                                onDragStart={() => setDraggedSceneId(scene.id)}
+                                onDragEnd={() => setDraggedSceneId(null)}
+                                onDragOver={(e) => {
+                                    if (draggedSceneId) e.preventDefault();
+                                }}
+                                onDrop={() => handleDropScene(scene.id)}
+                                className={`bg-stone-900 border p-3 rounded-lg transition-all cursor-pointer ${draggedSceneId === scene.id ? 'opacity-40' : ''} ${expandedSceneId === scene.id ? 'border-orange-500/50' : 'border-white/5 hover:border-orange-500/30'}`}
+                            >
                                 <div className="flex gap-3 items-start" onClick={() => setExpandedSceneId(expandedSceneId === scene.id ? null : scene.id)}>
                                     {/* Thumbnail */}
                                     <div
@@ -1026,6 +1224,8 @@ export default function ProjectPage() {
                                         </p>
                                         <div className="flex items-center gap-2 text-[10px] text-stone-600">
                                             {scene.audio_url && <Music size={10} className="text-green-500/50" />}
+                                            {scene.stale_assets && scene.stale_assets.length > 0 && <span title="Text edited - assets out of date"><AlertCircle size={10} className="text-amber-500/70" /></span>}
+                                            {scene.candidates_pending && <span title="Candidate images - pick one"><History size={10} className="text-orange-400" /></span>}
                                             {scene.prompt && <span className="truncate max-w-[100px]">{scene.visual_style || 'Zen'}</span>}
                                         </div>
                                     </div>
@@ -1034,8 +1234,225 @@ export default function ProjectPage() {
 
                                 {expandedSceneId === scene.id && (
                                     <div className="mt-3 pt-3 border-t border-white/5 text-xs space-y-2 animate-in fade-in slide-in-from-top-2">
+                                        {/* Structure Section */}
+                                        <div className="flex flex-wrap gap-1">
+                                            <button
+                                                onClick={() => setStructureEdit({ sceneId: scene.id, mode: 'insert', text: '' })}
+                                                disabled={structureBusy || generating}
+                                                className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                            >
+                                                <Plus size={10} /> Insert after
+                                            </button>
+                                            <button
+                                                onClick={() => setStructureEdit({ sceneId: scene.id, mode: 'split', text: scene.text })}
+                                                disabled={structureBusy || generating}
+                                                className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                            >
+                                                <Scissors size={10} /> Split
+                                            </button>
+                                            <button
+                                                onClick={() => runStructureEdit('merge scenes', () => mergeWithNextScene(scene.id))}
+                                                disabled={structureBusy || generating || !scenes.some(s => s.order_index === scene.order_index + 1)}
+                                                className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                            >
+                                                <Combine size={10} /> Merge next
+                                            </button>
+                                            <button
+                                                onClick={() => handleDeleteScene(scene)}
+                                                disabled={structureBusy || generating}
+                                                className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-red-900/50 hover:text-red-300 rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                            >
+                                                <Trash2 size={10} /> Delete
+                                            </button>
+                                        </div>
+                                        {structureEdit?.sceneId === scene.id && (
+                                            <div className="space-y-1">
+                                                <span className="text-[10px] text-stone-500">
+                                                    {structureEdit.mode === 'split' ? 'Put a line break where the scene should split:' : 'Text for the new scene:'}
+                                                </span>
+                                                <textarea
+                                                    value={structureEdit.text}
+                                                    onChange={(e) => setStructureEdit({ ...structureEdit, text: e.target.value })}
+                                                    rows={3}
+                                                    className="w-full bg-stone-950 border border-stone-700 rounded p-2 text-stone-200 text-xs focus:outline-none focus:border-orange-500/50"
+                                                />
+                                                <div className="flex justify-end gap-1">
+                                                    <button
+                                                        onClick={() => setStructureEdit(null)}
+                                                        className="px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] transition-colors"
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleSaveStructureEdit(scene)}
+                                                        disabled={structureBusy || !structureEdit.text.trim()}
+                                                        className="flex items-center gap-1 px-2 py-1 bg-orange-600 hover:bg-orange-500 text-white rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                                    >
+                                                        {structureBusy ? <><Loader2 size={10} className="animate-spin" /> Saving...</> : structureEdit.mode === 'split' ? 'Split' : 'Insert'}
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        {/* Text Section */}
                                         <div>
-                                            <span className="font-semibold text-stone-400">Prompt:</span> <span className="text-stone-300">{scene.prompt || 'N/A'}</span>
+                                            <div className="flex items-center justify-between">
+                                                <span className="font-semibold text-stone-400">Text:</span>
+                                                {editingSceneId !== scene.id && (
+                                                    <button
+                                                        onClick={() => {
+                                                            setEditingSceneId(scene.id);
+                                                            setEditingText(scene.text);
+                                                        }}
+                                                        className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] transition-colors"
+                                                    >
+                                                        <Pencil size={10} /> Edit
+                                                    </button>
+                                                )}
+                                            </div>
+                                            {editingSceneId === scene.id && (
+                                                <div className="mt-1 space-y-1">
+                                                    <textarea
+                                                        value={editingText}
+                                                        onChange={(e) => setEditingText(e.target.value)}
+                                                        rows={3}
+                                                        className="w-full bg-stone-950 border border-stone-700 rounded p-2 text-stone-200 text-xs focus:outline-none focus:border-orange-500/50"
+                                                    />
+                                                    <div className="flex justify-end gap-1">
+                                                        <button
+                                                            onClick={() => setEditingSceneId(null)}
+                                                            className="px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] transition-colors"
+                                                        >
+                                                            Cancel
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleSaveSceneText(scene.id)}
+                                                            disabled={savingSceneText || !editingText.trim()}
+                                                            className="flex items-center gap-1 px-2 py-1 bg-orange-600 hover:bg-orange-500 text-white rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                                        >
+                                                            {savingSceneText ? <><Loader2 size={10} className="animate-spin" /> Saving...</> : 'Save'}
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </div>
+                                        {scene.stale_assets && scene.stale_assets.length > 0 && (
+                                            <div className="p-2 bg-amber-500/10 border border-amber-500/20 rounded space-y-1">
+                                                <div className="flex items-center gap-1 text-amber-400 text-[10px]">
+                                                    <AlertCircle size={10} />
+                                                    Text changed - {scene.stale_assets.map(asset => asset === 'audio' ? 'audio' : 'image prompt').join(' & ')} out of date
+                                                </div>
+                                                <div className="flex gap-1">
+                                                    <button
+                                                        onClick={() => handleRegenerateAudio(scene.id, scene.text, scene.order_index)}
+                                                        disabled={regeneratingAudio === scene.id || regeneratingImage === scene.id}
+                                                        className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                                    >
+                                                        <RefreshCw size={10} /> Audio only
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleRegenerateStale(scene, true)}
+                                                        disabled={regeneratingAudio === scene.id || regeneratingImage === scene.id}
+                                                        className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                                    >
+                                                        <RefreshCw size={10} /> Audio + image
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        )}
+                                        {/* Caption Emphasis Section */}
+                                        {project.settings.captions.emphasis && project.settings.captions.emphasis !== 'off' && (() => {
+                                            const emphasized = scene.caption_emphasis?.text === scene.text
+                                                ? new Map(scene.caption_emphasis.words.map(w => [w.index, w.emoji]))
+                                                : new Map<number, string | null>();
+                                            return (
+                                                <div>
+                                                    <span className="font-semibold text-stone-400">
+                                                        Emphasis:
+                                                        {scene.caption_emphasis?.manual && <span className="ml-1 text-[10px] font-normal text-stone-500">(edited)</span>}
+                                                    </span>
+                                                    <div className="mt-1 flex flex-wrap gap-1">
+                                                        {splitCaptionWords(scene.text).map((word, index) => (
+                                                            <button
+                                                                key={index}
+                                                                onClick={() => handleToggleEmphasisWord(scene, index)}
+                                                                className={`px-1.5 py-0.5 rounded text-[10px] border transition-colors ${emphasized.has(index)
+                                                                    ? 'bg-orange-500/20 border-orange-500/40 text-orange-300'
+                                                                    : 'bg-stone-900 border-white/5 text-stone-400 hover:text-white'
+                                                                    }`}
+                                                                title={emphasized.has(index) ? 'Remove emphasis' : 'Emphasize'}
+                                                            >
+                                                                {word}{emphasized.get(index) ? ` ${emphasized.get(index)}` : ''}
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            );
+                                        })()}
+                                        {/* Prompt Section */}
+                                        <div>
+                                            <div className="flex items-center justify-between">
+                                                <span className="font-semibold text-stone-400 flex items-center gap-1">
+                                                    Prompt:
+                                                    {scene.prompt_locked && <span title="Locked - used as is when the image is regenerated"><Lock size={10} className="text-orange-400" /></span>}
+                                                </span>
+                                                {editingPromptSceneId !== scene.id && (
+                                                    <div className="flex gap-1">
+                                                        {scene.prompt && (
+                                                            <button
+                                                                onClick={() => handleTogglePromptLock(scene)}
+                                                                className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] transition-colors"
+                                                                title={scene.prompt_locked ? 'Let regeneration write a new prompt' : 'Keep this prompt when the image is regenerated'}
+                                                            >
+                                                                {scene.prompt_locked ? <><Unlock size={10} /> Unlock</> : <><Lock size={10} /> Lock</>}
+                                                            </button>
+                                                        )}
+                                                        <button
+                                                            onClick={() => {
+                                                                setEditingPromptSceneId(scene.id);
+                                                                setEditingPrompt(scene.prompt || '');
+                                                            }}
+                                                            className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] transition-colors"
+                                                        >
+                                                            <Pencil size={10} /> Edit
+                                                        </button>
+                                                    </div>
+                                                )}
+                                            </div>
+                                            {editingPromptSceneId === scene.id ? (
+                                                <div className="mt-1 space-y-1">
+                                                    <textarea
+                                                        value={editingPrompt}
+                                                        onChange={(e) => setEditingPrompt(e.target.value)}
+                                                        rows={5}
+                                                        className="w-full bg-stone-950 border border-stone-700 rounded p-2 text-stone-200 text-xs focus:outline-none focus:border-orange-500/50"
+                                                    />
+                                                    <div className="flex justify-end gap-1">
+                                                        <button
+                                                            onClick={() => setEditingPromptSceneId(null)}
+                                                            className="px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] transition-colors"
+                                                        >
+                                                            Cancel
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleSavePrompt(scene, false)}
+                                                            disabled={savingPrompt || !editingPrompt.trim()}
+                                                            className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                                        >
+                                                            {savingPrompt ? <><Loader2 size={10} className="animate-spin" /> Saving...</> : 'Save'}
+                                                        </button>
+                                                        <button
+                                                            onClick={() => handleSavePrompt(scene, true)}
+                                                            disabled={savingPrompt || regeneratingImage === scene.id || !editingPrompt.trim()}
+                                                            className="flex items-center gap-1 px-2 py-1 bg-orange-600 hover:bg-orange-500 text-white rounded text-[10px] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                                        >
+                                                            <RefreshCw size={10} /> Regenerate with this prompt
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                            ) : (
+                                                <p className="text-stone-300 mt-1">{scene.prompt || 'N/A'}</p>
+                                            )}
                                         </div>
                                         <div>
                                             <span className="font-semibold text-stone-400">Visual Style:</span> <span className="text-stone-300">{scene.visual_style || 'N/A'}</span>
@@ -1043,6 +1460,11 @@ export default function ProjectPage() {
                                         <div>
                                             <span className="font-semibold text-stone-400">Duration:</span> <span className="text-stone-300">{scene.duration?.toFixed(1)}s</span>
                                         </div>
+                                        {scene.image_provider && (
+                                            <div>
+                                                <span className="font-semibold text-stone-400">Provider:</span> <span className="text-stone-300">{scene.image_provider}{scene.image_provider_2 && scene.image_provider_2 !== scene.image_provider ? ` / ${scene.image_provider_2}` : ''}</span>
+                                            </div>
+                                        )}
 
                                         {/* Audio Section */}
                                         <div className="flex items-center justify-between">
@@ -1128,6 +1550,26 @@ export default function ProjectPage() {
                                             </div>
                                         )}
 
+                                        {/* Variant History */}
+                                        <div>
+                                            {scene.candidates_pending && historySceneId !== scene.id && (
+                                                <div className="flex items-center gap-1 mb-1 text-orange-400 text-[10px]">
+                                                    <AlertCircle size={10} /> Candidate images generated - open Variants to pick one
+                                                </div>
+                                            )}
+                                            <button
+                                                onClick={() => setHistorySceneId(historySceneId === scene.id ? null : scene.id)}
+                                                className="flex items-center gap-1 px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] transition-colors"
+                                            >
+                                                <History size={10} /> {historySceneId === scene.id ? 'Hide variants' : 'Variants'}
+                                            </button>
+                                            {historySceneId === scene.id && (
+                                                <div className="mt-2">
+                                                    <SceneAssetHistory scene={scene} onSceneChange={handleSceneAssetSelected} />
+                                                </div>
+                                            )}
+                                        </div>
+
                                         {scene.status === 'error' && (
                                             <div className="flex items-center gap-1 text-red-500 pt-2">
                                                 <AlertCircle size={12} /> Generation Failed
@@ -1226,84 +1668,124 @@ export default function ProjectPage() {
                             <option value="dark_psychology">Dark Psychology</option>
                         </select>
 
-                        {/* Classic-only settings - only show when classic style is selected */}
+                        {/* Theme settings, honoured by every caption style */}
+                        {/* Font */}
+                        <select
+                            value={captionFont(project.settings.captions)}
+                            onChange={(e) => handleUpdateSettings({
+                                captions: overrideCaptions(project.settings.captions, { font: e.target.value as CaptionFont })
+                            })}
+                            className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
+                            disabled={!project.settings.captions.enabled}
+                        >
+                            {(Object.keys(CAPTION_FONTS) as CaptionFont[]).map(font => (
+                                <option key={font} value={font}>{CAPTION_FONTS[font].label}</option>
+                            ))}
+                        </select>
+
+                        {/* Size */}
+                        <select
+                            value={project.settings.captions.fontSize || 'medium'}
+                            onChange={(e) => handleUpdateSettings({
+                                captions: { ...project.settings.captions, fontSize: e.target.value as any }
+                            })}
+                            className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
+                            disabled={!project.settings.captions.enabled}
+                        >
+                            <option value="small">S</option>
+                            <option value="medium">M</option>
+                            <option value="large">L</option>
+                            <option value="xlarge">XL</option>
+                        </select>
+
+                        {/* Position */}
+                        <select
+                            value={project.settings.captions.position}
+                            onChange={(e) => handleUpdateSettings({
+                                captions: { ...project.settings.captions, position: e.target.value as any }
+                            })}
+                            className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
+                            disabled={!project.settings.captions.enabled}
+                        >
+                            <option value="top">Top</option>
+                            <option value="center">Center</option>
+                            <option value="mid-bottom">Mid-Bottom</option>
+                            <option value="bottom">Bottom</option>
+                        </select>
+
+                        {/* Animation - classic only */}
                         {(project.settings.captions.style === 'classic' || !project.settings.captions.style) && (
-                            <>
-                                {/* Font */}
-                                <select
-                                    value={project.settings.captions.font}
-                                    onChange={(e) => handleUpdateSettings({
-                                        captions: { ...project.settings.captions, font: e.target.value as any }
-                                    })}
-                                    className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
-                                    disabled={!project.settings.captions.enabled}
-                                >
-                                    <option value="sans">Sans</option>
-                                    <option value="serif">Serif</option>
-                                    <option value="brush">Brush</option>
-                                </select>
-
-                                {/* Size */}
-                                <select
-                                    value={project.settings.captions.fontSize || 'medium'}
-                                    onChange={(e) => handleUpdateSettings({
-                                        captions: { ...project.settings.captions, fontSize: e.target.value as any }
-                                    })}
-                                    className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
-                                    disabled={!project.settings.captions.enabled}
-                                >
-                                    <option value="small">S</option>
-                                    <option value="medium">M</option>
-                                    <option value="large">L</option>
-                                    <option value="xlarge">XL</option>
-                                </select>
-
-                                {/* Position */}
-                                <select
-                                    value={project.settings.captions.position}
-                                    onChange={(e) => handleUpdateSettings({
-                                        captions: { ...project.settings.captions, position: e.target.value as any }
-                                    })}
-                                    className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
-                                    disabled={!project.settings.captions.enabled}
-                                >
-                                    <option value="top">Top</option>
-                                    <option value="center">Center</option>
-                                    <option value="mid-bottom">Mid-Bottom</option>
-                                    <option value="bottom">Bottom</option>
-                                </select>
-
-                                {/* Animation */}
-                                <select
-                                    value={project.settings.captions.animation || 'typewriter'}
-                                    onChange={(e) => handleUpdateSettings({
-                                        captions: { ...project.settings.captions, animation: e.target.value as any }
-                                    })}
-                                    className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
-                                    disabled={!project.settings.captions.enabled}
-                                >
-                                    <option value="none">None</option>
-                                    <option value="typewriter">Typewriter</option>
-                                    <option value="fade-in">Fade In</option>
-                                    <option value="slide-up">Slide Up</option>
-                                    <option value="bounce">Bounce</option>
-                                </select>
-
-                                {/* Stroke/Weight */}
-                                <select
-                                    value={project.settings.captions.strokeWidth || 'medium'}
-                                    onChange={(e) => handleUpdateSettings({
-                                        captions: { ...project.settings.captions, strokeWidth: e.target.value as any }
-                                    })}
-                                    className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
-                                    disabled={!project.settings.captions.enabled}
-                                >
-                                    <option value="thin">Thin</option>
-                                    <option value="medium">Medium</option>
-                                    <option value="thick">Thick</option>
-                                    <option value="bold">Bold</option>
-                                </select>
-                            </>
+                            <select
+                                value={project.settings.captions.animation || 'typewriter'}
+                                onChange={(e) => handleUpdateSettings({
+                                    captions: { ...project.settings.captions, animation: e.target.value as any }
+                                })}
+                                className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
+                                disabled={!project.settings.captions.enabled}
+                            >
+                                <option value="none">None</option>
+                                <option value="typewriter">Typewriter</option>
+                                <option value="fade-in">Fade In</option>
+                                <option value="slide-up">Slide Up</option>
+                                <option value="bounce">Bounce</option>
+                            </select>
+                        )}
+
+                        {/* Stroke/Weight */}
+                        <select
+                            value={project.settings.captions.strokeWidth || 'medium'}
+                            onChange={(e) => handleUpdateSettings({
+                                captions: { ...project.settings.captions, strokeWidth: e.target.value as any }
+                            })}
+                            className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
+                            disabled={!project.settings.captions.enabled}
+                        >
+                            <option value="thin">Thin</option>
+                            <option value="medium">Medium</option>
+                            <option value="thick">Thick</option>
+                            <option value="bold">Bold</option>
+                        </select>
+
+                        <button
+                            onClick={() => setShowCaptionEditor(true)}
+                            disabled={!project.settings.captions.enabled}
+                            className="px-2 py-1 bg-stone-800 hover:bg-stone-700 disabled:opacity-50 border border-stone-700 text-stone-200 text-xs rounded flex items-center gap-1"
+                            title="Colours, shadow, background box, words per line, safe area and saved presets"
+                        >
+                            <Settings size={12} />
+                            Customize
+                        </button>
+
+                        {/* Keyword emphasis */}
+                        <select
+                            value={project.settings.captions.emphasis || 'off'}
+                            onChange={(e) => {
+                                const emphasis = e.target.value as NonNullable<ProjectSettings['captions']['emphasis']>;
+                                handleUpdateSettings({ captions: { ...project.settings.captions, emphasis } });
+                                // Tag on first use, like headings
+                                if (emphasis !== 'off' && !scenes.some(s => s.caption_emphasis?.text === s.text)) {
+                                    handleTagEmphasis();
+                                }
+                            }}
+                            className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
+                            disabled={!project.settings.captions.enabled}
+                            title="Emphasis words tagged per scene"
+                        >
+                            <option value="off">Emphasis: Off</option>
+                            <option value="highlight">Emphasis: Colour</option>
+                            <option value="scale">Emphasis: Bigger</option>
+                            <option value="emoji">Emphasis: Emoji</option>
+                        </select>
+                        {project.settings.captions.emphasis && project.settings.captions.emphasis !== 'off' && (
+                            <button
+                                onClick={() => handleTagEmphasis()}
+                                disabled={taggingEmphasis || !project.settings.captions.enabled}
+                                className="px-2 py-1 bg-stone-800 hover:bg-stone-700 disabled:opacity-50 border border-stone-700 text-stone-200 text-xs rounded flex items-center gap-1"
+                                title="Tag emphasis words in scenes that have none for their current text"
+                            >
+                                {taggingEmphasis ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+                                Tag words
+                            </button>
                         )}
 
 
@@ -1434,6 +1916,68 @@ export default function ProjectPage() {
                                 );
                             })}
                         </div>
+
+                        {/* Divider */}
+                        <div className="h-6 w-px bg-white/10"></div>
+                        <span className="text-xs font-bold uppercase tracking-wider text-stone-500 whitespace-nowrap">Candidates:</span>
+
+                        {/* Images per scene; each extra image costs a credit */}
+                        <select
+                            value={project.settings.imageCandidates?.count || 1}
+                            onChange={(e) => {
+                                const count = Number(e.target.value);
+                                handleUpdateSettings({
+                                    imageCandidates: { count, selection: project.settings.imageCandidates?.selection || 'manual' }
+                                });
+                            }}
+                            className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1"
+                        >
+                            <option value={1}>Off</option>
+                            <option value={2}>2 images (+1 credit)</option>
+                            <option value={3}>3 images (+2 credits)</option>
+                            <option value={4}>4 images (+3 credits)</option>
+                        </select>
+                        {project.settings.imageCandidates && project.settings.imageCandidates.count > 1 && (
+                            <select
+                                value={project.settings.imageCandidates.selection}
+                                onChange={(e) => handleUpdateSettings({
+                                    imageCandidates: { ...project.settings.imageCandidates!, selection: e.target.value as 'manual' | 'auto' }
+                                })}
+                                className="bg-stone-800 border border-stone-700 text-stone-200 text-xs rounded px-2 py-1 ml-1"
+                            >
+                                <option value="manual">I pick</option>
+                                <option value="auto">Auto-pick best</option>
+                            </select>
+                        )}
+
+                        {/* Divider */}
+                        <div className="h-6 w-px bg-white/10"></div>
+                        <span className="text-xs font-bold uppercase tracking-wider text-stone-500 whitespace-nowrap">Fallbacks:</span>
+
+                        <div className="flex flex-wrap gap-1 max-w-[300px]">
+                            {IMAGE_PROVIDER_OPTIONS.filter(p => p.value !== project.settings.imageModel).map((provider) => {
+                                // Unset = server default (IMAGE_PROVIDER_FALLBACKS); click order is the fallback order
+                                const current = project.settings.imageFallbacks || [];
+                                const position = current.indexOf(provider.value);
+                                return (
+                                    <button
+                                        key={provider.value}
+                                        onClick={() => {
+                                            const next = position >= 0
+                                                ? current.filter(id => id !== provider.value)
+                                                : [...current, provider.value];
+                                            handleUpdateSettings({ imageFallbacks: next.length > 0 ? next : undefined });
+                                        }}
+                                        className={`px-2 py-1 text-[10px] rounded border transition-colors ${position >= 0
+                                            ? 'bg-orange-500/20 border-orange-500/50 text-orange-400'
+                                            : 'bg-stone-800 border-stone-700 text-stone-400 hover:text-stone-300'
+                                            }`}
+                                    >
+                                        {position >= 0 ? `${position + 1}. ` : ''}{provider.label}
+                                    </button>
+                                );
+                            })}
+                        </div>
                     </div>
 
                     <div className="flex-1 overflow-y-auto flex items-start justify-center p-8 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] bg-fixed opacity-100">
@@ -1500,6 +2044,24 @@ export default function ProjectPage() {
                 error={renderProgress?.error}
             />
 
+            <CaptionStyleEditor
+                isOpen={showCaptionEditor}
+                onClose={() => setShowCaptionEditor(false)}
+                captions={project.settings.captions}
+                onChange={(captions) => handleUpdateSettings({ captions })}
+            />
+
+            <TranslateProjectModal
+                isOpen={showTranslate}
+                onClose={() => setShowTranslate(false)}
+                projectId={projectId}
+                settings={project.settings}
+                onTranslated={(translatedId) => {
+                    setShowTranslate(false);
+                    router.push(`/project/${translatedId}`);
+                }}
+            />
+
             {/* Image Preview Modal */}
             {previewImage && (
                 <div
@@ -0,0 +1,267 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Loader2, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { CaptionFont, CaptionPresetApi, CaptionSettings } from '@/types';
+import { deleteCaptionPreset, listCaptionPresets, saveCaptionPreset } from '@/actions/captionPresets';
+import { CAPTION_FONTS, captionFont, captionHighlightColor, DEFAULT_SAFE_AREA, overrideCaptions } from '@/remotion/captions/theme';
+
+interface CaptionStyleEditorProps {
+    isOpen: boolean;
+    onClose: () => void;
+    captions: CaptionSettings;
+    onChange: (captions: CaptionSettings) => void;
+}
+
+const selectClass = "w-full bg-stone-950 border border-stone-800 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-orange-500/50 transition-colors";
+const labelClass = "text-xs font-semibold uppercase tracking-wider text-stone-500";
+
+export default function CaptionStyleEditor({ isOpen, onClose, captions, onChange }: CaptionStyleEditorProps) {
+    const [presets, setPresets] = useState<CaptionPresetApi[]>([]);
+    const [presetName, setPresetName] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        listCaptionPresets().then(({ presets }) => setPresets(presets));
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const update = (changes: Partial<CaptionSettings>) => onChange({ ...captions, ...changes });
+
+    const handleSavePreset = async () => {
+        setSaving(true);
+        const result = await saveCaptionPreset(presetName, captions);
+        setSaving(false);
+        if (!result.success || !result.preset) {
+            toast.error(result.error || 'Failed to save preset');
+            return;
+        }
+
+        setPresets([result.preset, ...presets]);
+        setPresetName('');
+        toast.success('Caption preset saved');
+    };
+
+    const handleDeletePreset = async (preset: CaptionPresetApi) => {
+        if (!confirm(`Delete caption preset "${preset.name}"?`)) return;
+
+        const result = await deleteCaptionPreset(preset.id);
+        if (!result.success) {
+            toast.error(result.error || 'Failed to delete preset');
+            return;
+        }
+
+        setPresets(presets.filter(p => p.id !== preset.id));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="bg-stone-900 border border-white/10 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative">
+                <button onClick={onClose} className="absolute top-4 right-4 text-stone-500 hover:text-white transition-colors">
+                    <X className="w-5 h-5" />
+                </button>
+
+                <h2 className="text-lg font-bold text-white mb-1">Caption Style</h2>
+                <p className="text-sm text-stone-500 mb-6">Changes apply to the preview and the render. Save a look as a preset to reuse it in other projects.</p>
+
+                {/* Presets */}
+                <label className={labelClass}>My Presets</label>
+                {presets.length === 0 ? (
+                    <p className="text-sm text-stone-600 mt-2 mb-4">No presets saved yet.</p>
+                ) : (
+                    <div className="flex flex-wrap gap-2 mt-2 mb-4">
+                        {presets.map(preset => (
+                            <div key={preset.id} className="flex items-center rounded-lg border border-stone-800 bg-stone-950">
+                                <button
+                                    onClick={() => onChange({ ...preset.captions, enabled: captions.enabled })}
+                                    className="px-3 py-1.5 text-sm text-stone-200 hover:text-white"
+                                    title="Apply preset"
+                                >
+                                    {preset.name}
+                                </button>
+                                <button onClick={() => handleDeletePreset(preset)} className="pr-2 text-stone-600 hover:text-red-400" title="Delete">
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="flex gap-2 mb-6">
+                    <input
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder="Preset name"
+                        className={selectClass}
+                    />
+                    <button
+                        onClick={handleSavePreset}
+                        disabled={saving || !presetName.trim()}
+                        className="px-4 py-2 rounded-lg bg-orange-600 hover:bg-orange-500 disabled:opacity-50 text-white text-sm font-semibold transition-colors flex items-center gap-2 whitespace-nowrap"
+                    >
+                        {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Save current
+                    </button>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-1">
+                        <label className={labelClass}>Font</label>
+                        <select
+                            value={captionFont(captions)}
+                            onChange={(e) => onChange(overrideCaptions(captions, { font: e.target.value as CaptionFont }))}
+                            className={selectClass}
+                        >
+                            {(Object.keys(CAPTION_FONTS) as CaptionFont[]).map(font => (
+                                <option key={font} value={font}>{CAPTION_FONTS[font].label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className={labelClass}>Size</label>
+                        <select
+                            value={captions.fontSize || 'medium'}
+                            onChange={(e) => update({ fontSize: e.target.value as CaptionSettings['fontSize'] })}
+                            className={selectClass}
+                        >
+                            <option value="small">Small</option>
+                            <option value="medium">Medium</option>
+                            <option value="large">Large</option>
+                            <option value="xlarge">Extra large</option>
+                        </select>
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className={labelClass}>Stroke</label>
+                        <select
+                            value={captions.strokeWidth || 'medium'}
+                            onChange={(e) => update({ strokeWidth: e.target.value as CaptionSettings['strokeWidth'] })}
+                            className={selectClass}
+                        >
+                            <option value="thin">Thin</option>
+                            <option value="medium">Medium</option>
+                            <option value="thick">Thick</option>
+                            <option value="bold">Bold</option>
+                        </select>
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className={labelClass}>Position</label>
+                        <select
+                            value={captions.position}
+                            onChange={(e) => update({ position: e.target.value as CaptionSettings['position'] })}
+                            className={selectClass}
+                        >
+                            <option value="top">Top</option>
+                            <option value="center">Center</option>
+                            <option value="mid-bottom">Mid-Bottom</option>
+                            <option value="bottom">Bottom</option>
+                        </select>
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className={labelClass}>Text colour</label>
+                        <input
+                            type="color"
+                            value={captions.textColor || '#ffffff'}
+                            onChange={(e) => update({ textColor: e.target.value })}
+                            className="w-full h-9 bg-stone-950 border border-stone-800 rounded-lg cursor-pointer"
+                        />
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className={labelClass}>Highlight colour</label>
+                        <input
+                            type="color"
+                            value={captionHighlightColor(captions)}
+                            onChange={(e) => onChange(overrideCaptions(captions, { color: e.target.value }))}
+                            className="w-full h-9 bg-stone-950 border border-stone-800 rounded-lg cursor-pointer"
+                        />
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className={labelClass}>Max words per line</label>
+                        <input
+                            type="number"
+                            min={1}
+                            max={12}
+                            value={captions.maxWordsPerLine ?? ''}
+                            placeholder="Style default"
+                            onChange={(e) => update({ maxWordsPerLine: e.target.value ? Math.min(12, Math.max(1, Number(e.target.value))) : undefined })}
+                            className={selectClass}
+                        />
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className={labelClass}>Safe area ({captions.safeArea ?? DEFAULT_SAFE_AREA}%)</label>
+                        <input
+                            type="range"
+                            min={0}
+                            max={15}
+                            value={captions.safeArea ?? DEFAULT_SAFE_AREA}
+                            onChange={(e) => update({ safeArea: Number(e.target.value) })}
+                            className="w-full accent-orange-500"
+                        />
+                    </div>
+
+                    <label className="flex items-center gap-2 text-sm text-stone-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={captions.shadow ?? false}
+                            ref={(el) => { if (el) el.indeterminate = captions.shadow === undefined; }}
+                            onChange={(e) => update({ shadow: e.target.checked })}
+                            className="accent-orange-500"
+                        />
+                        Drop shadow
+                    </label>
+
+                    <label className="flex items-center gap-2 text-sm text-stone-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={captions.backgroundBox ?? false}
+                            ref={(el) => { if (el) el.indeterminate = captions.backgroundBox === undefined; }}
+                            onChange={(e) => update({ backgroundBox: e.target.checked })}
+                            className="accent-orange-500"
+                        />
+                        Background box
+                    </label>
+
+                    {captions.backgroundBox && (
+                        <>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Box colour</label>
+                                <input
+                                    type="color"
+                                    value={captions.boxColor || '#000000'}
+                                    onChange={(e) => update({ boxColor: e.target.value })}
+                                    className="w-full h-9 bg-stone-950 border border-stone-800 rounded-lg cursor-pointer"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <label className={labelClass}>Box opacity ({Math.round((captions.boxOpacity ?? 0.6) * 100)}%)</label>
+                                <input
+                                    type="range"
+                                    min={0}
+                                    max={100}
+                                    value={Math.round((captions.boxOpacity ?? 0.6) * 100)}
+                                    onChange={(e) => update({ boxOpacity: Number(e.target.value) / 100 })}
+                                    className="w-full accent-orange-500"
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
+
+                <button
+                    onClick={() => update({ textColor: undefined, shadow: undefined, backgroundBox: undefined, boxColor: undefined, boxOpacity: undefined, maxWordsPerLine: undefined, safeArea: undefined })}
+                    className="mt-6 text-xs text-stone-500 hover:text-white transition-colors"
+                >
+                    Reset to style defaults
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,247 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, Pencil, Plus, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { createClient } from '@/utils/supabase/client';
+import { CustomStyleApi } from '@/types';
+import { IMAGE_PROVIDER_OPTIONS } from '@/lib/constants';
+import { CustomStyleInput, deleteCustomStyle, saveCustomStyle } from '@/actions/customStyles';
+
+interface CustomStylesManagerProps {
+    isOpen: boolean;
+    onClose: () => void;
+    styles: CustomStyleApi[];
+    onStylesChange: (styles: CustomStyleApi[]) => void;
+}
+
+const EMPTY_STYLE: CustomStyleInput = {
+    name: '',
+    style_text: '',
+    subject_text: '',
+    negative_prompt: '',
+    image_provider: null,
+    reference_image_path: null,
+};
+
+const inputClass = "w-full bg-stone-950 border border-stone-800 rounded-lg p-3 text-sm focus:outline-none focus:border-orange-500/50 transition-colors";
+const labelClass = "text-xs font-semibold uppercase tracking-wider text-stone-500";
+
+export default function CustomStylesManager({ isOpen, onClose, styles, onStylesChange }: CustomStylesManagerProps) {
+    const supabase = createClient();
+    const [editingId, setEditingId] = useState<string | null>(null); // null = creating a new style
+    const [form, setForm] = useState<CustomStyleInput>(EMPTY_STYLE);
+    const [saving, setSaving] = useState(false);
+    const [uploading, setUploading] = useState(false);
+
+    if (!isOpen) return null;
+
+    const startEdit = (style: CustomStyleApi) => {
+        setEditingId(style.id);
+        setForm({
+            name: style.name,
+            style_text: style.style_text,
+            subject_text: style.subject_text,
+            negative_prompt: style.negative_prompt,
+            image_provider: style.image_provider,
+            reference_image_path: style.reference_image_path,
+        });
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(EMPTY_STYLE);
+    };
+
+    const handleReferenceUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        setUploading(true);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('Unauthorized');
+
+            const fileExt = file.name.substring(file.name.lastIndexOf('.'));
+            const path = `custom-styles/${user.id}/${Date.now()}${fileExt}`;
+            const { error } = await supabase.storage
+                .from('assets')
+                .upload(path, file, { contentType: file.type });
+            if (error) throw error;
+
+            setForm(prev => ({ ...prev, reference_image_path: path }));
+        } catch (error: any) {
+            console.error('Reference upload failed:', error);
+            toast.error(`Upload failed: ${error.message}`);
+        } finally {
+            setUploading(false);
+            e.target.value = '';
+        }
+    };
+
+    const handleSave = async () => {
+        setSaving(true);
+        const result = await saveCustomStyle(form, editingId || undefined);
+        setSaving(false);
+
+        if (!result.success || !result.style) {
+            toast.error(result.error || 'Failed to save style');
+            return;
+        }
+
+        const saved = result.style;
+        onStylesChange(editingId
+            ? styles.map(style => style.id === saved.id ? saved : style)
+            : [saved, ...styles]);
+        toast.success(editingId ? 'Style updated' : 'Style created');
+        resetForm();
+    };
+
+    const handleDelete = async (style: CustomStyleApi) => {
+        if (!confirm(`Delete the style "${style.name}"? Projects using it will need another style.`)) return;
+
+        const result = await deleteCustomStyle(style.id);
+        if (!result.success) {
+            toast.error(result.error || 'Failed to delete style');
+            return;
+        }
+
+        onStylesChange(styles.filter(s => s.id !== style.id));
+        if (editingId === style.id) resetForm();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="bg-stone-900 border border-white/10 rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative">
+                <button onClick={onClose} className="absolute top-4 right-4 text-stone-500 hover:text-white transition-colors">
+                    <X className="w-5 h-5" />
+                </button>
+
+                <h2 className="text-lg font-bold text-white mb-1">Custom Styles</h2>
+                <p className="text-sm text-stone-500 mb-6">Saved styles appear under &quot;My Styles&quot; in the Visual Style picker.</p>
+
+                <div className="grid md:grid-cols-2 gap-6">
+                    {/* Saved styles */}
+                    <div className="space-y-2">
+                        <label className={labelClass}>Saved</label>
+                        {styles.length === 0 && (
+                            <p className="text-sm text-stone-600">No custom styles yet.</p>
+                        )}
+                        {styles.map(style => (
+                            <div
+                                key={style.id}
+                                className={`flex items-center gap-3 p-3 rounded-lg border ${editingId === style.id ? 'border-orange-500/50 bg-orange-500/5' : 'border-stone-800 bg-stone-950'}`}
+                            >
+                                {style.reference_image_url && (
+                                    <img src={style.reference_image_url} alt="" className="w-10 h-10 rounded object-cover" />
+                                )}
+                                <div className="flex-1 min-w-0">
+                                    <p className="text-sm text-white truncate">{style.name}</p>
+                                    <p className="text-xs text-stone-500 truncate">{style.style_text || 'Reference image only'}</p>
+                                </div>
+                                <button onClick={() => startEdit(style)} className="text-stone-500 hover:text-white transition-colors" title="Edit">
+                                    <Pencil className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => handleDelete(style)} className="text-stone-500 hover:text-red-400 transition-colors" title="Delete">
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            </div>
+                        ))}
+                        {editingId && (
+                            <button onClick={resetForm} className="flex items-center gap-2 text-sm text-orange-400 hover:text-orange-300 pt-2">
+                                <Plus className="w-4 h-4" /> New style
+                            </button>
+                        )}
+                    </div>
+
+                    {/* Editor */}
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <label className={labelClass}>Name</label>
+                            <input
+                                value={form.name}
+                                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                                placeholder="House style"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className={labelClass}>Style</label>
+                            <textarea
+                                value={form.style_text}
+                                onChange={(e) => setForm({ ...form, style_text: e.target.value })}
+                                placeholder="Style: flat pastel illustration, thick outlines, soft lighting"
+                                rows={3}
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className={labelClass}>Subject</label>
+                            <input
+                                value={form.subject_text}
+                                onChange={(e) => setForm({ ...form, subject_text: e.target.value })}
+                                placeholder="Subject: friendly senior characters"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className={labelClass}>Negative Prompt</label>
+                            <input
+                                value={form.negative_prompt}
+                                onChange={(e) => setForm({ ...form, negative_prompt: e.target.value })}
+                                placeholder="text, watermark, photo"
+                                className={inputClass}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <label className={labelClass}>Image Provider</label>
+                            <select
+                                value={form.image_provider || ''}
+                                onChange={(e) => setForm({ ...form, image_provider: (e.target.value || null) as CustomStyleInput['image_provider'] })}
+                                disabled={!!form.reference_image_path}
+                                className={inputClass}
+                            >
+                                <option value="">Project default</option>
+                                {IMAGE_PROVIDER_OPTIONS.map(opt => (
+                                    <option key={opt.value} value={opt.value}>{opt.label}</option>
+                                ))}
+                            </select>
+                            {form.reference_image_path && (
+                                <p className="text-xs text-stone-500">Styles with a reference image always generate on Runware.</p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <label className={labelClass}>Reference Image (optional)</label>
+                            {form.reference_image_path ? (
+                                <div className="flex items-center gap-3">
+                                    <img src={supabase.storage.from('assets').getPublicUrl(form.reference_image_path).data.publicUrl} alt="Reference" className="w-16 h-16 rounded-lg object-cover border border-stone-800" />
+                                    <button
+                                        onClick={() => setForm({ ...form, reference_image_path: null })}
+                                        className="text-sm text-stone-400 hover:text-red-400 transition-colors"
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            ) : (
+                                <label className="flex items-center gap-2 text-sm text-stone-400 hover:text-white cursor-pointer w-fit">
+                                    {uploading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                                    {uploading ? 'Uploading...' : 'Upload image'}
+                                    <input type="file" accept="image/png,image/jpeg,image/webp" onChange={handleReferenceUpload} className="hidden" disabled={uploading} />
+                                </label>
+                            )}
+                        </div>
+
+                        <button
+                            onClick={handleSave}
+                            disabled={saving || uploading || !form.name.trim()}
+                            className="w-full py-3 rounded-lg bg-orange-600 hover:bg-orange-500 disabled:opacity-50 text-white text-sm font-semibold transition-colors flex items-center justify-center gap-2"
+                        >
+                            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+                            {editingId ? 'Save Changes' : 'Create Style'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Check, Loader2, Pencil, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { createClient } from '@/utils/supabase/client';
+import { ReferenceCharacterApi } from '@/types';
+import { createReferenceCharacter, deleteReferenceCharacter, renameReferenceCharacter } from '@/actions/referenceCharacters';
+
+interface ReferenceCharacterLibraryProps {
+    isOpen: boolean;
+    onClose: () => void;
+    characters: ReferenceCharacterApi[];
+    onCharactersChange: (characters: ReferenceCharacterApi[]) => void;
+}
+
+const inputClass = "w-full bg-stone-950 border border-stone-800 rounded-lg p-3 text-sm focus:outline-none focus:border-orange-500/50 transition-colors";
+const labelClass = "text-xs font-semibold uppercase tracking-wider text-stone-500";
+
+export default function ReferenceCharacterLibrary({ isOpen, onClose, characters, onCharactersChange }: ReferenceCharacterLibraryProps) {
+    const supabase = createClient();
+    const [name, setName] = useState('');
+    const [file, setFile] = useState<File | null>(null);
+    const [uploading, setUploading] = useState(false);
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+
+    if (!isOpen) return null;
+
+    const handleAdd = async () => {
+        if (!file || !name.trim()) return;
+
+        setUploading(true);
+        try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (!user) throw new Error('Unauthorized');
+
+            const fileExt = file.name.substring(file.name.lastIndexOf('.'));
+            const path = `characters/${user.id}/${Date.now()}${fileExt}`;
+            const { error } = await supabase.storage
+                .from('assets')
+                .upload(path, file, { contentType: file.type });
+            if (error) throw error;
+
+            const result = await createReferenceCharacter(name, path);
+            if (!result.success || !result.character) throw new Error(result.error || 'Failed to save character');
+
+            onCharactersChange([result.character, ...characters]);
+            setName('');
+            setFile(null);
+            toast.success('Character added');
+        } catch (error: any) {
+            console.error('Character upload failed:', error);
+            toast.error(`Upload failed: ${error.message}`);
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const handleRename = async (character: ReferenceCharacterApi) => {
+        const result = await renameReferenceCharacter(character.id, renameValue);
+        if (!result.success || !result.character) {
+            toast.error(result.error || 'Failed to rename character');
+            return;
+        }
+
+        const renamed = result.character;
+        onCharactersChange(characters.map(c => c.id === renamed.id ? renamed : c));
+        setRenamingId(null);
+    };
+
+    const handleDelete = async (character: ReferenceCharacterApi) => {
+        if (!confirm(`Delete "${character.name}"? Projects using this character will need another one.`)) return;
+
+        const result = await deleteReferenceCharacter(character.id);
+        if (!result.success) {
+            toast.error(result.error || 'Failed to delete character');
+            return;
+        }
+
+        onCharactersChange(characters.filter(c => c.id !== character.id));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="bg-stone-900 border border-white/10 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto p-6 shadow-2xl relative">
+                <button onClick={onClose} className="absolute top-4 right-4 text-stone-500 hover:text-white transition-colors">
+                    <X className="w-5 h-5" />
+                </button>
+
+                <h2 className="text-lg font-bold text-white mb-1">My Characters</h2>
+                <p className="text-sm text-stone-500 mb-6">Upload a clear, full-body image of a character to keep them consistent across scenes.</p>
+
+                {/* Add */}
+                <div className="flex flex-col md:flex-row gap-3 mb-6">
+                    <input
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Character name"
+                        className={inputClass}
+                    />
+                    <label className={`${inputClass} flex items-center gap-2 cursor-pointer text-stone-400 hover:text-white md:w-64`}>
+                        <Upload className="w-4 h-4 shrink-0" />
+                        <span className="truncate">{file ? file.name : 'Choose image'}</span>
+                        <input
+                            type="file"
+                            accept="image/png,image/jpeg,image/webp"
+                            onChange={(e) => setFile(e.target.files?.[0] || null)}
+                            className="hidden"
+                        />
+                    </label>
+                    <button
+                        onClick={handleAdd}
+                        disabled={uploading || !file || !name.trim()}
+                        className="px-5 py-3 rounded-lg bg-orange-600 hover:bg-orange-500 disabled:opacity-50 text-white text-sm font-semibold transition-colors flex items-center justify-center gap-2"
+                    >
+                        {uploading && <Loader2 className="w-4 h-4 animate-spin" />}
+                        Add
+                    </button>
+                </div>
+
+                {/* Library */}
+                <label className={labelClass}>Library</label>
+                {characters.length === 0 ? (
+                    <p className="text-sm text-stone-600 mt-2">No characters uploaded yet.</p>
+                ) : (
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mt-2">
+                        {characters.map(character => (
+                            <div key={character.id} className="rounded-lg border border-stone-800 bg-stone-950 overflow-hidden">
+                                <img src={character.image_url} alt={character.name} className="w-full aspect-square object-cover" />
+                                <div className="flex items-center gap-2 p-2">
+                                    {renamingId === character.id ? (
+                                        <>
+                                            <input
+                                                value={renameValue}
+                                                onChange={(e) => setRenameValue(e.target.value)}
+                                                onKeyDown={(e) => e.key === 'Enter' && handleRename(character)}
+                                                autoFocus
+                                                className="flex-1 min-w-0 bg-stone-900 border border-stone-700 rounded px-2 py-1 text-sm focus:outline-none"
+                                            />
+                                            <button onClick={() => handleRename(character)} className="text-stone-500 hover:text-white" title="Save">
+                                                <Check className="w-4 h-4" />
+                                            </button>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <span className="flex-1 min-w-0 text-sm text-white truncate">{character.name}</span>
+                                            <button
+                                                onClick={() => { setRenamingId(character.id); setRenameValue(character.name); }}
+                                                className="text-stone-500 hover:text-white"
+                                                title="Rename"
+                                            >
+                                                <Pencil className="w-4 h-4" />
+                                            </button>
+                                        </>
+                                    )}
+                                    <button onClick={() => handleDelete(character)} className="text-stone-500 hover:text-red-400" title="Delete">
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
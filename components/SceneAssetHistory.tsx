@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Check, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { SceneApi, SceneAssetApi, SceneAssetKind } from '@/types';
+import { listSceneAssets, selectSceneAsset } from '@/actions/sceneAssets';
+
+interface SceneAssetHistoryProps {
+    scene: SceneApi;
+    onSceneChange: (scene: SceneApi) => void;
+}
+
+const SECTIONS: { kind: SceneAssetKind; label: string }[] = [
+    { kind: 'image', label: 'Image 1' },
+    { kind: 'image_2', label: 'Image 2' },
+    { kind: 'audio', label: 'Audio' },
+];
+
+function currentUrl(scene: SceneApi, kind: SceneAssetKind) {
+    if (kind === 'audio') return scene.audio_url;
+    return kind === 'image_2' ? scene.image_url_2 : scene.image_url;
+}
+
+export default function SceneAssetHistory({ scene, onSceneChange }: SceneAssetHistoryProps) {
+    const [assets, setAssets] = useState<SceneAssetApi[] | null>(null);
+    const [selectingId, setSelectingId] = useState<string | null>(null);
+
+    // Reload when the scene gets a new take (regeneration) so it shows up here
+    useEffect(() => {
+        listSceneAssets(scene.id).then(result => {
+            if (!result.success) toast.error(`Failed to load variants: ${result.error}`);
+            setAssets(result.assets);
+        });
+    }, [scene.id, scene.image_url, scene.image_url_2, scene.audio_url]);
+
+    const handleSelect = async (asset: SceneAssetApi) => {
+        setSelectingId(asset.id);
+        try {
+            const result = await selectSceneAsset(asset.id);
+            if (result.success && result.scene) {
+                onSceneChange(result.scene);
+            } else {
+                toast.error(`Failed to use variant: ${result.error}`);
+            }
+        } finally {
+            setSelectingId(null);
+        }
+    };
+
+    if (!assets) {
+        return (
+            <div className="flex items-center gap-1 text-stone-500 text-[10px]">
+                <Loader2 size={10} className="animate-spin" /> Loading variants...
+            </div>
+        );
+    }
+
+    if (assets.length === 0) {
+        return <p className="text-stone-600 text-[10px]">No earlier variants yet. Regenerated images and audio are kept here.</p>;
+    }
+
+    return (
+        <div className="space-y-2">
+            {SECTIONS.map(({ kind, label }) => {
+                const takes = assets.filter(asset => asset.kind === kind);
+                if (takes.length === 0) return null;
+
+                return (
+                    <div key={kind} className="space-y-1">
+                        <span className="text-[10px] text-stone-500">{label} ({takes.length})</span>
+                        {kind === 'audio' ? (
+                            takes.map(take => {
+                                const isCurrent = take.url === currentUrl(scene, kind);
+                                return (
+                                    <div key={take.id} className="flex items-center gap-1">
+                                        <audio controls className="flex-1 h-7" src={take.url} />
+                                        {isCurrent ? (
+                                            <span className="flex items-center gap-1 px-2 text-[10px] text-orange-400"><Check size={10} /> Current</span>
+                                        ) : (
+                                            <button
+                                                onClick={() => handleSelect(take)}
+                                                disabled={!!selectingId}
+                                                className="px-2 py-1 bg-stone-800 hover:bg-stone-700 rounded text-[10px] disabled:opacity-50 transition-colors"
+                                            >
+                                                {selectingId === take.id ? <Loader2 size={10} className="animate-spin" /> : 'Use'}
+                                            </button>
+                                        )}
+                                    </div>
+                                );
+                            })
+                        ) : (
+                            <div className="grid grid-cols-3 gap-1">
+                                {takes.map(take => {
+                                    const isCurrent = take.url === currentUrl(scene, kind);
+                                    return (
+                                        <button
+                                            key={take.id}
+                                            onClick={() => !isCurrent && handleSelect(take)}
+                                            disabled={!!selectingId}
+                                            title={take.prompt || undefined}
+                                            className={`relative rounded overflow-hidden border ${isCurrent ? 'border-orange-500' : 'border-stone-800 hover:border-stone-600'} disabled:cursor-wait`}
+                                        >
+                                            <img src={take.url} alt={`${label} variant`} className="w-full aspect-video object-cover" />
+                                            {isCurrent && (
+                                                <span className="absolute top-0.5 right-0.5 bg-orange-600 text-white rounded p-0.5"><Check size={8} /></span>
+                                            )}
+                                            {selectingId === take.id && (
+                                                <span className="absolute inset-0 flex items-center justify-center bg-black/60"><Loader2 size={12} className="animate-spin" /></span>
+                                            )}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
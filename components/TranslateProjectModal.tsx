@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { ProjectSettings } from '@/types';
+import { translateProject } from '@/actions/translateProject';
+import { languageLabel, LANGUAGE_OPTIONS, VOICE_OPTIONS } from '@/lib/constants';
+
+interface TranslateProjectModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    projectId: string;
+    settings: ProjectSettings;
+    onTranslated: (projectId: string) => void;
+}
+
+const selectClass = "w-full bg-stone-950 border border-stone-800 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-orange-500/50 transition-colors";
+const labelClass = "text-xs font-semibold uppercase tracking-wider text-stone-500";
+
+export default function TranslateProjectModal({ isOpen, onClose, projectId, settings, onTranslated }: TranslateProjectModalProps) {
+    const sourceLanguage = settings.language || 'en';
+    const targets = LANGUAGE_OPTIONS.filter(l => l.value !== sourceLanguage && VOICE_OPTIONS.some(v => v.languages.includes(l.value)));
+
+    const [language, setLanguage] = useState(targets[0]?.value || '');
+    const [voice, setVoice] = useState('');
+    const [translating, setTranslating] = useState(false);
+
+    if (!isOpen) return null;
+
+    const voices = VOICE_OPTIONS.filter(v => v.languages.includes(language));
+    const selectedVoice = voices.find(v => v.value === voice) || voices.find(v => v.value === settings.audioVoice) || voices[0];
+
+    const handleTranslate = async () => {
+        setTranslating(true);
+        const result = await translateProject(projectId, language, selectedVoice?.value);
+        setTranslating(false);
+        if (!result.success || !result.projectId) {
+            toast.error(result.error || 'Translation failed');
+            return;
+        }
+
+        toast.success(`${languageLabel(language)} copy created - narration is being recorded`);
+        onTranslated(result.projectId);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div className="bg-stone-900 border border-white/10 rounded-2xl w-full max-w-md p-6 shadow-2xl relative">
+                <button onClick={onClose} disabled={translating} className="absolute top-4 right-4 text-stone-500 hover:text-white transition-colors">
+                    <X className="w-5 h-5" />
+                </button>
+
+                <h2 className="text-lg font-bold text-white mb-1">Translate Project</h2>
+                <p className="text-sm text-stone-500 mb-6">
+                    Creates a copy of this {languageLabel(sourceLanguage)} project in another language. Scene text is translated and re-narrated; images are reused.
+                </p>
+
+                <div className="space-y-4">
+                    <div className="space-y-1">
+                        <label className={labelClass}>Language</label>
+                        <select
+                            value={language}
+                            onChange={(e) => setLanguage(e.target.value)}
+                            disabled={translating}
+                            className={selectClass}
+                        >
+                            {targets.map(l => (
+                                <option key={l.value} value={l.value}>{l.label}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="space-y-1">
+                        <label className={labelClass}>Voice</label>
+                        <select
+                            value={selectedVoice?.value || ''}
+                            onChange={(e) => setVoice(e.target.value)}
+                            disabled={translating}
+                            className={selectClass}
+                        >
+                            {voices.map(v => (
+                                <option key={v.value} value={v.value}>{v.label}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <button
+                    onClick={handleTranslate}
+                    disabled={translating || !language || !selectedVoice}
+                    className="mt-6 w-full px-4 py-2 rounded-lg bg-orange-600 hover:bg-orange-500 disabled:opacity-50 text-white text-sm font-semibold transition-colors flex items-center justify-center gap-2"
+                >
+                    {translating && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {translating ? 'Translating...' : 'Translate'}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -44,11 +44,14 @@ export async function uploadToStorage(buffer: ArrayBuffer | Buffer, projectId: s
 
 import { parseBuffer } from 'music-metadata';
 
-import keyRotation from './keyRotation';
+import keyRotation, { classifyProviderError } from './keyRotation';
+import { getRunwareReferenceUUID, invalidateRunwareReference } from './runwareReferences';
+import { minimaxSubtitleTimings } from './wordTimings';
+import type { WordTiming } from '../types';
 
-export async function generateMinimaxAudio(text: string, voiceId: string = "male-qn-qingse", projectId: string, sceneIndex: number): Promise<{ url: string, duration: number }> {
+export async function generateMinimaxAudio(text: string, voiceId: string = "male-qn-qingse", projectId: string, sceneIndex: number, options: { speed?: number, pitch?: number } = {}): Promise<{ url: string, duration: number, wordTimings: WordTiming[] | null }> {
     // Use retry wrapper with key rotation
-    return await keyRotation.withRetry(
+    return await keyRotation.pool('minimax').withRetry(
         async (apiKey) => {
             // Get GroupID from keyRotation (extracted once from primary key during initialization)
             let groupId = keyRotation.getMinimaxGroupId();
@@ -65,16 +68,17 @@ export async function generateMinimaxAudio(text: string, voiceId: string = "male
                 "stream": false,
                 "voice_setting": {
                     "voice_id": voiceId,
-                    "speed": 1.0,
+                    "speed": options.speed ?? 1.0,
                     "vol": 1.0,
-                    "pitch": 0
+                    "pitch": options.pitch ?? 0
                 },
                 "audio_setting": {
                     "sample_rate": 32000,
                     "bitrate": 128000,
                     "format": "mp3",
                     "channel": 1
-                }
+                },
+                "subtitle_enable": true // Sentence timestamps for captions (lib/wordTimings)
             };
 
             const response = await fetch(url, {
@@ -97,6 +101,7 @@ export async function generateMinimaxAudio(text: string, voiceId: string = "male
 
             // Minimax returns hex string of audio data
             let hexAudio = data.data?.audio || data.audio;
+            const wordTimings = await minimaxSubtitleTimings(text, data.data?.subtitle_file);
 
             // If it returns a URL (rare for this endpoint but possible)
             if (!hexAudio && (data.data?.audio_url || data.audio_url)) {
@@ -114,7 +119,7 @@ export async function generateMinimaxAudio(text: string, voiceId: string = "male
                     `audio/scene_${sceneIndex}_${Date.now()}.mp3`,
                     'audio/mpeg'
                 );
-                return { url: publicUrl, duration };
+                return { url: publicUrl, duration, wordTimings };
             }
 
             if (!hexAudio) {
@@ -136,9 +141,8 @@ export async function generateMinimaxAudio(text: string, voiceId: string = "male
                 `audio/scene_${sceneIndex}_${Date.now()}.mp3`,
                 'audio/mpeg'
             );
-            return { url: publicUrl, duration };
-        },
-        () => keyRotation.getNextMinimaxKey()
+            return { url: publicUrl, duration, wordTimings };
+        }
     );
 }
 
@@ -236,25 +240,30 @@ export async function generateFalImage(prompt: string, projectId: string, sceneI
     // Python used: "fal-ai/flux-pro/v1.1-ultra" or similar.
     const url = "https://queue.fal.run/fal-ai/flux-pro/v1.1-ultra";
 
-    const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-            'Authorization': `Key ${process.env.FAL_KEY}`,
-            'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-            prompt: prompt,
-            aspect_ratio: aspectRatio === '9:16' ? '9:16' : '16:9',
-            safety_tolerance: "2"
-        })
-    });
+    // Submit with key rotation; polling must reuse the key that owns the queued request
+    const { falKey, requestId } = await keyRotation.pool('fal').withRetry(
+        async (apiKey) => {
+            const response = await fetch(url, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Key ${apiKey}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    prompt: prompt,
+                    aspect_ratio: aspectRatio === '9:16' ? '9:16' : '16:9',
+                    safety_tolerance: "2"
+                })
+            });
 
-    if (!response.ok) {
-        throw new Error(`Fal Queue Error: ${response.status}`);
-    }
+            if (!response.ok) {
+                throw new Error(`Fal Queue Error: ${response.status}`);
+            }
 
-    const queueData = await response.json();
-    const requestId = queueData.request_id;
+            const queueData = await response.json();
+            return { falKey: apiKey, requestId: queueData.request_id };
+        }
+    );
 
     // Poll for result
     let finalUrl = null;
@@ -267,7 +276,7 @@ export async function generateFalImage(prompt: string, projectId: string, sceneI
         const pollUrl = `https://queue.fal.run/fal-ai/flux-pro/v1.1-ultra/requests/${requestId}`;
 
         const statusDetails = await fetch(pollUrl, {
-            headers: { 'Authorization': `Key ${process.env.FAL_KEY}` }
+            headers: { 'Authorization': `Key ${falKey}` }
         });
 
         if (!statusDetails.ok) {
@@ -286,7 +295,7 @@ export async function generateFalImage(prompt: string, projectId: string, sceneI
                 // Sometimes result is in a separate field or response_url
                 const responseUrl = statusJson.response_url;
                 if (responseUrl) {
-                    const finalData = await (await fetch(responseUrl, { headers: { 'Authorization': `Key ${process.env.FAL_KEY}` } })).json();
+                    const finalData = await (await fetch(responseUrl, { headers: { 'Authorization': `Key ${falKey}` } })).json();
                     finalUrl = finalData.images[0].url;
                 }
             }
@@ -312,7 +321,7 @@ export async function generateFalImage(prompt: string, projectId: string, sceneI
 
 export async function generateRunwareImage(prompt: string, projectId: string, sceneIndex: number, aspectRatio: string = '16:9', modelId?: string, referenceImageId?: string): Promise<string> {
     // Use retry wrapper with key rotation
-    return await keyRotation.withRetry(
+    return await keyRotation.pool('runware').withRetry(
         async (apiKey) => {
             const runware = new Runware({ apiKey });
 
@@ -333,38 +342,21 @@ export async function generateRunwareImage(prompt: string, projectId: string, sc
             if (referenceImageId) console.log(`Using Reference Image: ${referenceImageId}`);
 
             let effectiveReferenceImageId = referenceImageId;
+            let referenceUrl: string | null = null;
 
-            // Handle local file paths (starting with /)
-            if (referenceImageId && referenceImageId.startsWith('/')) {
-                try {
-                    // Build full URL for HTTP fetch
-                    const baseUrl = process.env.NEXT_PUBLIC_APP_URL ||
-                        (process.env.VERCEL_URL && `https://${process.env.VERCEL_URL}`) ||
-                        'http://localhost:3000';
+            // Public paths (/characters/...) and URLs are uploaded once per Runware account, then reused
+            if (referenceImageId && (referenceImageId.startsWith('/') || /^https?:\/\//.test(referenceImageId))) {
+                const baseUrl = process.env.NEXT_PUBLIC_APP_URL ||
+                    (process.env.VERCEL_URL && `https://${process.env.VERCEL_URL}`) ||
+                    'http://localhost:3000';
 
-                    const imageUrl = `${baseUrl}${referenceImageId}`;
-                    console.log(`Fetching reference image via HTTP: ${imageUrl}`);
-
-                    const imageResponse = await fetch(imageUrl);
-                    if (!imageResponse.ok) {
-                        throw new Error(`Failed to fetch image: ${imageResponse.status}`);
-                    }
-
-                    const imageBuffer = await imageResponse.arrayBuffer();
-                    const base64Image = Buffer.from(imageBuffer).toString('base64');
-                    const contentType = imageResponse.headers.get('content-type') || 'image/png';
-                    const dataUri = `data:${contentType};base64,${base64Image}`;
-
-                    const uploadResult = await runware.imageUpload({ image: dataUri });
-
-                    if (uploadResult && uploadResult.imageUUID) {
-                        console.log(`Uploaded Reference Image UUID: ${uploadResult.imageUUID}`);
-                        effectiveReferenceImageId = String(uploadResult.imageUUID);
-                    } else {
-                        console.warn("Runware Upload Failed or returned no UUID", uploadResult);
-                    }
+                referenceUrl = referenceImageId.startsWith('/') ? `${baseUrl}${referenceImageId}` : referenceImageId;
+                try {
+                    effectiveReferenceImageId = await getRunwareReferenceUUID(runware, apiKey, referenceUrl);
                 } catch (uploadError) {
-                    console.error("Failed to upload reference image via HTTP:", uploadError);
+                    // Runware can also fetch the URL itself, just slower
+                    console.error("Failed to upload reference image:", uploadError);
+                    effectiveReferenceImageId = referenceUrl;
                 }
             }
 
@@ -404,17 +396,26 @@ export async function generateRunwareImage(prompt: string, projectId: string, sc
                 targetModel = baseModel;
             }
 
-            const results = await runware.imageInference({
-                positivePrompt: prompt,
-                model: targetModel,
-                width,
-                height,
-                numberResults: 1,
-                ...(loraConfig.length > 0 ? { lora: loraConfig } : {}),
-                ...(effectiveReferenceImageId ? {
-                    referenceImages: [effectiveReferenceImageId]
-                } : {})
-            });
+            let results;
+            try {
+                results = await runware.imageInference({
+                    positivePrompt: prompt,
+                    model: targetModel,
+                    width,
+                    height,
+                    numberResults: 1,
+                    ...(loraConfig.length > 0 ? { lora: loraConfig } : {}),
+                    ...(effectiveReferenceImageId ? {
+                        referenceImages: [effectiveReferenceImageId]
+                    } : {})
+                });
+            } catch (e) {
+                // A rejected request may mean the cached upload expired on Runware's side
+                if (referenceUrl && effectiveReferenceImageId !== referenceUrl && classifyProviderError(e) === 'fatal') {
+                    await invalidateRunwareReference(apiKey, referenceUrl);
+                }
+                throw e;
+            }
 
             if (results && results.length > 0 && results[0].imageURL) {
                 const finalUrl = results[0].imageURL;
@@ -428,57 +429,58 @@ export async function generateRunwareImage(prompt: string, projectId: string, sc
                 );
             }
             throw new Error("No image returned from Runware");
-        },
-        () => keyRotation.getNextRunwareKey()
+        }
     );
 }
 
 
 export async function generateGeminiImage(prompt: string, projectId: string, sceneIndex: number, aspectRatio: string = '16:9'): Promise<string> {
     // Using Google Generative AI Node SDK for gemini-2.5-flash-image (Experimental/Multimodal)
-    const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY!);
-    const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash-image" });
-
-    try {
-        const result = await model.generateContent({
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
-            generationConfig: {
-                responseModalities: ["IMAGE"],
-                imageConfig: {
-                    aspectRatio: aspectRatio === '9:16' ? '9:16' : '16:9'
-                }
-            } as any // Type assertion for experimental responseModalities API
-        });
+    return await keyRotation.pool('gemini').withRetry(async (apiKey) => {
+        const genAI = new GoogleGenerativeAI(apiKey);
+        const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash-image" });
+
+        try {
+            const result = await model.generateContent({
+                contents: [{ role: 'user', parts: [{ text: prompt }] }],
+                generationConfig: {
+                    responseModalities: ["IMAGE"],
+                    imageConfig: {
+                        aspectRatio: aspectRatio === '9:16' ? '9:16' : '16:9'
+                    }
+                } as any // Type assertion for experimental responseModalities API
+            });
 
-        const response = result.response;
+            const response = result.response;
 
-        // Try multiple ways to access parts (SDK structure varies)
-        // @ts-ignore
-        const parts = response.parts || response.candidates?.[0]?.content?.parts;
+            // Try multiple ways to access parts (SDK structure varies)
+            // @ts-ignore
+            const parts = response.parts || response.candidates?.[0]?.content?.parts;
 
-        if (parts && parts.length > 0) {
-            for (const part of parts) {
-                // @ts-ignore
-                if (part.inlineData && part.inlineData.data) {
+            if (parts && parts.length > 0) {
+                for (const part of parts) {
                     // @ts-ignore
-                    const base64Image = part.inlineData.data;
-                    const buffer = Buffer.from(base64Image, 'base64');
-
-                    return await uploadToStorage(
-                        buffer,
-                        projectId,
-                        `images/scene_${sceneIndex}_${Date.now()}.jpg`,
-                        'image/jpeg'
-                    );
+                    if (part.inlineData && part.inlineData.data) {
+                        // @ts-ignore
+                        const base64Image = part.inlineData.data;
+                        const buffer = Buffer.from(base64Image, 'base64');
+
+                        return await uploadToStorage(
+                            buffer,
+                            projectId,
+                            `images/scene_${sceneIndex}_${Date.now()}.jpg`,
+                            'image/jpeg'
+                        );
+                    }
                 }
             }
+        } catch (e: any) {
+            console.error("Gemini 2.5 Flash Image Error:", e);
+            throw new Error(`Gemini 2.5 Flash Gen Failed: ${e.message}`);
         }
-    } catch (e: any) {
-        console.error("Gemini 2.5 Flash Image Error:", e);
-        throw new Error(`Gemini 2.5 Flash Gen Failed: ${e.message}`);
-    }
 
-    throw new Error("No image data returned from Gemini 2.5 Flash");
+        throw new Error("No image data returned from Gemini 2.5 Flash");
+    });
 }
 
 export async function generateReplicateImage(
@@ -495,7 +497,7 @@ export async function generateReplicateImage(
     else if (aspectRatio === '1:1') replicateAspectRatio = '1:1';
 
     // Use key rotation for Replicate API
-    const output = await keyRotation.withRetry(
+    const output = await keyRotation.pool('replicate').withRetry(
         async (apiToken) => {
             const replicate = new Replicate({
                 auth: apiToken,
@@ -522,7 +524,6 @@ export async function generateReplicateImage(
                 }
             ) as any;
         },
-        () => keyRotation.getNextReplicateKey(),
         1 // maxRetries
     );
 
@@ -0,0 +1,125 @@
+/**
+ * Caption Emphasis
+ * Optional LLM pass that picks the words worth emphasizing in each scene's caption (and an emoji for
+ * them), many scenes per call. Tags are stored on the scene (scenes.caption_emphasis) with the text
+ * they were made for, so a scene whose text is edited drops them and is tagged again on the next pass.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { CaptionEmphasis, SceneApi } from '../types';
+import { generateStructured } from './llm';
+import { splitCaptionWords } from '../remotion/captions/utils';
+
+const EMPHASIS_CHUNK_SIZE = 40; // Scenes per call
+const EMPHASIS_CONCURRENCY = 3;
+const MAX_EMPHASIS_WORDS = 3; // Per scene
+
+const EMPHASIS_INSTRUCTIONS = `You pick the words to emphasize in short-form video captions.
+
+For each numbered scene, choose up to ${MAX_EMPHASIS_WORDS} words that carry the punch of the sentence: key nouns, numbers, strong verbs, emotional or surprising words. Never pick filler words (the, a, and, is, to, of...). A scene may have no emphasis words.
+
+For every chosen word give one fitting emoji, or null if no emoji fits well.
+
+Return ONLY a JSON object with this shape:
+{ "scenes": [{ "scene": 0, "words": [{ "word": "...", "emoji": "🔥" }] }] }
+
+Copy each word exactly as it appears in the scene text.`;
+
+const EmphasisSchema = z.object({
+    scenes: z.array(z.object({
+        scene: z.number().int(),
+        words: z.array(z.object({
+            word: z.string(),
+            emoji: z.string().nullable(),
+        })),
+    })),
+});
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+/**
+ * Word positions for the words the model returned, matched in order against the scene's words
+ * (a word that appears twice is matched once per mention). Unmatched words are dropped.
+ */
+export function matchEmphasisWords(text: string, picked: { word: string; emoji: string | null }[]): CaptionEmphasis['words'] {
+    const words = splitCaptionWords(text).map(normalizeWord);
+    const used = new Set<number>();
+    const matched: CaptionEmphasis['words'] = [];
+
+    for (const { word, emoji } of picked.slice(0, MAX_EMPHASIS_WORDS)) {
+        const target = normalizeWord(word);
+        if (!target) continue;
+        const index = words.findIndex((w, i) => w === target && !used.has(i));
+        if (index === -1) continue;
+        used.add(index);
+        matched.push({ index, emoji: emoji?.trim() || null });
+    }
+
+    return matched.sort((a, b) => a.index - b.index);
+}
+
+async function tagChunk(scenes: Pick<SceneApi, 'id' | 'text'>[]): Promise<Map<string, CaptionEmphasis>> {
+    const response = await generateStructured({
+        label: 'caption_emphasis',
+        model: 'gpt-4o-mini',
+        system: EMPHASIS_INSTRUCTIONS,
+        user: `Scenes:\n${scenes.map((scene, i) => `[${i}] ${scene.text}`).join('\n')}`,
+        schema: EmphasisSchema,
+        temperature: 0.3,
+    });
+
+    const tags = new Map<string, CaptionEmphasis>();
+    for (const entry of response.scenes) {
+        const scene = scenes[entry.scene];
+        if (!scene || tags.has(scene.id)) continue;
+        tags.set(scene.id, { text: scene.text, words: matchEmphasisWords(scene.text, entry.words) });
+    }
+    return tags;
+}
+
+/**
+ * Tags the given scenes that have no tags for their current text (hand-edited tags for the current
+ * text are kept). A chunk that fails leaves its scenes untagged. Returns the number of scenes tagged.
+ */
+export async function tagCaptionEmphasis(
+    supabase: SupabaseClient,
+    scenes: Pick<SceneApi, 'id' | 'text' | 'caption_emphasis'>[]
+): Promise<number> {
+    const pending = scenes.filter(scene =>
+        scene.text?.trim() && scene.caption_emphasis?.text !== scene.text
+    );
+    if (pending.length === 0) return 0;
+
+    const chunks: (typeof pending)[] = [];
+    for (let i = 0; i < pending.length; i += EMPHASIS_CHUNK_SIZE) {
+        chunks.push(pending.slice(i, i + EMPHASIS_CHUNK_SIZE));
+    }
+
+    console.log(`[CaptionEmphasis] Tagging ${pending.length} scenes in ${chunks.length} chunks`);
+    let tagged = 0;
+
+    const worker = async () => {
+        for (let chunk = chunks.shift(); chunk; chunk = chunks.shift()) {
+            let tags: Map<string, CaptionEmphasis>;
+            try {
+                tags = await tagChunk(chunk);
+            } catch (e: any) {
+                console.error('[CaptionEmphasis] Chunk failed:', e.message);
+                continue;
+            }
+
+            for (const [sceneId, emphasis] of tags) {
+                const { error } = await supabase.from('scenes').update({ caption_emphasis: emphasis }).eq('id', sceneId);
+                if (error) {
+                    console.warn(`[CaptionEmphasis] Failed to store tags for scene ${sceneId}:`, error.message);
+                } else {
+                    tagged++;
+                }
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(EMPHASIS_CONCURRENCY, chunks.length) }, worker));
+    return tagged;
+}
@@ -1,3 +1,6 @@
+import type { VoiceOption } from './ttsProviders/types';
+import type { JobApi } from '../types';
+
 export const VOICE_ID_MAP: Record<string, string> = {
     "English_ManWithDeepVoice": "English_ManWithDeepVoice",
     "English_Trustworth_Man": "English_Trustworth_Man",
@@ -9,31 +12,103 @@ export const VOICE_ID_MAP: Record<string, string> = {
     "moss_audio_d84269fa-fac5-11f0-b1d3-3ae1917fa355": "moss_audio_d84269fa-fac5-11f0-b1d3-3ae1917fa355"
 };
 
-export const VOICE_OPTIONS = [
+// Shared capability metadata per engine (speed/pitch ranges are what the provider API accepts)
+const MINIMAX_VOICE = {
+    provider: 'minimax',
+    languages: ['en'],
+    speedRange: { min: 0.5, max: 2.0, default: 1.0 },
+    pitchRange: { min: -12, max: 12, default: 0 },
+    format: 'mp3'
+} as const;
+
+const GENAIPRO_VOICE = {
+    provider: 'genaipro',
+    // eleven_multilingual_v2
+    languages: ['en', 'es', 'fr', 'de', 'it', 'pt', 'pl', 'hi', 'ar', 'zh', 'ja', 'ko', 'nl', 'tr', 'sv', 'id', 'fil', 'uk', 'el', 'cs', 'fi', 'ro', 'ru', 'da', 'bg', 'ms', 'sk', 'hr', 'ta'],
+    speedRange: { min: 0.7, max: 1.2, default: 1.0 },
+    pitchRange: null,
+    format: 'mp3'
+} as const;
+
+const QWEN_VOICE = {
+    provider: 'qwen',
+    languages: ['en'],
+    speedRange: null,
+    pitchRange: null,
+    format: 'wav'
+} as const;
+
+export const VOICE_OPTIONS: VoiceOption[] = [
     // Existing Minimax voices
-    { label: "Man With Deep Voice", value: "English_ManWithDeepVoice", id: "English_ManWithDeepVoice" },
-    { label: "Trustworthy Man", value: "English_Trustworth_Man", id: "English_Trustworth_Man" },
-    { label: "Sharp Commentator", value: "English_Sharp_Commentator", id: "English_Sharp_Commentator" },
-    { label: "Soft Spoken Woman", value: "English_Woman_Soft", id: "English_Woman_Soft" },
-    { label: "Barbara O'Neill", value: "moss_audio_5d9ff99c-0b4a-11f1-a643-ae99d2661622", id: "moss_audio_5d9ff99c-0b4a-11f1-a643-ae99d2661622" },
-    { label: "James", value: "moss_audio_221ef11d-fac6-11f0-8725-da4a7a598c40", id: "moss_audio_221ef11d-fac6-11f0-8725-da4a7a598c40" },
-    { label: "Grandpa", value: "moss_audio_0048f511-fac6-11f0-bc3d-ee2c9c493651", id: "moss_audio_0048f511-fac6-11f0-bc3d-ee2c9c493651" },
-    { label: "Grandma", value: "moss_audio_d84269fa-fac5-11f0-b1d3-3ae1917fa355", id: "moss_audio_d84269fa-fac5-11f0-b1d3-3ae1917fa355" },
-
-    // GenAIPro voices (ElevenLabs)
-    { label: "Michael (Middle Age M)", value: "genaipro_QngvLQR8bsLR5bzoa6Vv", id: "genaipro_QngvLQR8bsLR5bzoa6Vv" },
-    { label: "Regan (Middle Age W)", value: "genaipro_CRugt7r6KLDJbifthghJ", id: "genaipro_CRugt7r6KLDJbifthghJ" },
-    { label: "Jim (Young M)", value: "genaipro_JjqNMa6BEYmyQYRCdHCa", id: "genaipro_JjqNMa6BEYmyQYRCdHCa" },
-    { label: "David Boles (Old M)", value: "genaipro_y1adqrqs4jNaANXsIZnD", id: "genaipro_y1adqrqs4jNaANXsIZnD" },
-    { label: "Tiffany (Middle Age W)", value: "genaipro_x9leqCOAXOcmC5jtkq65", id: "genaipro_x9leqCOAXOcmC5jtkq65" },
+    { label: "Man With Deep Voice", value: "English_ManWithDeepVoice", id: "English_ManWithDeepVoice", ...MINIMAX_VOICE },
+    { label: "Trustworthy Man", value: "English_Trustworth_Man", id: "English_Trustworth_Man", ...MINIMAX_VOICE },
+    { label: "Sharp Commentator", value: "English_Sharp_Commentator", id: "English_Sharp_Commentator", ...MINIMAX_VOICE },
+    { label: "Soft Spoken Woman", value: "English_Woman_Soft", id: "English_Woman_Soft", ...MINIMAX_VOICE },
+    { label: "Barbara O'Neill", value: "moss_audio_5d9ff99c-0b4a-11f1-a643-ae99d2661622", id: "moss_audio_5d9ff99c-0b4a-11f1-a643-ae99d2661622", ...MINIMAX_VOICE },
+    { label: "James", value: "moss_audio_221ef11d-fac6-11f0-8725-da4a7a598c40", id: "moss_audio_221ef11d-fac6-11f0-8725-da4a7a598c40", ...MINIMAX_VOICE },
+    { label: "Grandpa", value: "moss_audio_0048f511-fac6-11f0-bc3d-ee2c9c493651", id: "moss_audio_0048f511-fac6-11f0-bc3d-ee2c9c493651", ...MINIMAX_VOICE },
+    { label: "Grandma", value: "moss_audio_d84269fa-fac5-11f0-b1d3-3ae1917fa355", id: "moss_audio_d84269fa-fac5-11f0-b1d3-3ae1917fa355", ...MINIMAX_VOICE },
+
+    // GenAIPro voices (ElevenLabs) - id is the raw GenAIPro voice id
+    { label: "Michael (Middle Age M)", value: "genaipro_QngvLQR8bsLR5bzoa6Vv", id: "QngvLQR8bsLR5bzoa6Vv", ...GENAIPRO_VOICE },
+    { label: "Regan (Middle Age W)", value: "genaipro_CRugt7r6KLDJbifthghJ", id: "CRugt7r6KLDJbifthghJ", ...GENAIPRO_VOICE },
+    { label: "Jim (Young M)", value: "genaipro_JjqNMa6BEYmyQYRCdHCa", id: "JjqNMa6BEYmyQYRCdHCa", ...GENAIPRO_VOICE },
+    { label: "David Boles (Old M)", value: "genaipro_y1adqrqs4jNaANXsIZnD", id: "y1adqrqs4jNaANXsIZnD", ...GENAIPRO_VOICE },
+    { label: "Tiffany (Middle Age W)", value: "genaipro_x9leqCOAXOcmC5jtkq65", id: "x9leqCOAXOcmC5jtkq65", ...GENAIPRO_VOICE },
 
     // Qwen Self-Hosted Voices
-    { label: "Grandma (Qwen)", value: "qwen_grandma", id: "qwen_grandma" },
-    { label: "Grandpa (Qwen)", value: "qwen_grandpa", id: "qwen_grandpa" },
-    { label: "Barbara (Qwen)", value: "qwen_barbara", id: "qwen_barbara" },
-    { label: "James (Qwen)", value: "qwen_james", id: "qwen_james" }
+    { label: "Grandma (Qwen)", value: "qwen_grandma", id: "qwen_grandma", ...QWEN_VOICE },
+    { label: "Grandpa (Qwen)", value: "qwen_grandpa", id: "qwen_grandpa", ...QWEN_VOICE },
+    { label: "Barbara (Qwen)", value: "qwen_barbara", id: "qwen_barbara", ...QWEN_VOICE },
+    { label: "James (Qwen)", value: "qwen_james", id: "qwen_james", ...QWEN_VOICE }
+];
+
+// Project languages (ProjectSettings.language); a project can be translated into any language one of its voices speaks
+export const LANGUAGE_OPTIONS = [
+    { label: "English", value: "en" },
+    { label: "Spanish", value: "es" },
+    { label: "French", value: "fr" },
+    { label: "German", value: "de" },
+    { label: "Italian", value: "it" },
+    { label: "Portuguese", value: "pt" },
+    { label: "Polish", value: "pl" },
+    { label: "Hindi", value: "hi" },
+    { label: "Arabic", value: "ar" },
+    { label: "Chinese", value: "zh" },
+    { label: "Japanese", value: "ja" },
+    { label: "Korean", value: "ko" },
+    { label: "Dutch", value: "nl" },
+    { label: "Turkish", value: "tr" },
+    { label: "Swedish", value: "sv" },
+    { label: "Indonesian", value: "id" },
+    { label: "Filipino", value: "fil" },
+    { label: "Ukrainian", value: "uk" },
+    { label: "Greek", value: "el" },
+    { label: "Czech", value: "cs" },
+    { label: "Finnish", value: "fi" },
+    { label: "Romanian", value: "ro" },
+    { label: "Russian", value: "ru" },
+    { label: "Danish", value: "da" },
+    { label: "Bulgarian", value: "bg" },
+    { label: "Malay", value: "ms" },
+    { label: "Slovak", value: "sk" },
+    { label: "Croatian", value: "hr" },
+    { label: "Tamil", value: "ta" }
 ];
 
+export function languageLabel(language: string | undefined): string {
+    return LANGUAGE_OPTIONS.find(l => l.value === (language || 'en'))?.label || language!;
+}
+
+// Client-safe mirror of the image provider registry (lib/imageProviders)
+export const IMAGE_PROVIDER_OPTIONS = [
+    { label: "Fal", value: "fal" },
+    { label: "Runware", value: "runware" },
+    { label: "Gemini", value: "gemini" },
+    { label: "Imagen", value: "imagen" },
+    { label: "Replicate", value: "replicate" }
+] as const;
+
 export const CAPTION_POSITIONS = [
     { label: "Bottom", value: "bottom" },
     { label: "Center", value: "center" },
@@ -53,3 +128,20 @@ export const CHARACTER_REFERENCE_MAP: Record<string, string> = {
     'james': '/characters/james.webp',
     'dr_sticky': '/characters/dr_sticky.webp'
 };
+
+// A running generation job with no runner heartbeat for this long is considered stalled and can be resumed
+export const JOB_STALE_AFTER_MS = 2 * 60 * 1000;
+
+// Last sign of progress of a job (ms): the runner's heartbeat while running, else when it was (re)queued
+export function jobLastSeen(job: Pick<JobApi, 'status' | 'heartbeat_at' | 'updated_at'>): number {
+    return new Date(job.status === 'running' ? job.heartbeat_at || job.updated_at : job.updated_at).getTime();
+}
+
+/**
+ * Whether a queued or running job has stopped making progress: a running job whose runner stopped
+ * heartbeating, or a queued job no runner picked up (e.g. the runner could not be reached).
+ */
+export function isJobStalled(job: Pick<JobApi, 'status' | 'heartbeat_at' | 'updated_at'>): boolean {
+    if (job.status !== 'queued' && job.status !== 'running') return false;
+    return Date.now() - jobLastSeen(job) >= JOB_STALE_AFTER_MS;
+}
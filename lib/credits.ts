@@ -0,0 +1,32 @@
+/**
+ * Credits
+ * Scenes reserve their credits before generating and get back what they didn't use, so parallel
+ * generations (the job runner's workers) can never spend more than the balance. Both RPCs are
+ * service-role only.
+ */
+
+import { createClient as createAdminClient } from '@supabase/supabase-js';
+
+const supabaseAdmin = createAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+/**
+ * Takes `amount` credits from the user if the balance covers them. Returns false (and takes nothing) if it doesn't.
+ */
+export async function reserveCredits(userId: string, amount: number): Promise<boolean> {
+    const { data, error } = await supabaseAdmin.rpc('reserve_credits', { p_user_id: userId, p_amount: amount });
+    if (error) throw error;
+    return data === true;
+}
+
+/**
+ * Gives back reserved credits that were not spent. Never throws: the scene's outcome doesn't depend on it.
+ */
+export async function refundCredits(userId: string, amount: number): Promise<void> {
+    if (amount <= 0) return;
+
+    const { error } = await supabaseAdmin.rpc('refund_credits', { p_user_id: userId, p_amount: amount });
+    if (error) console.error(`[Credits] Failed to refund ${amount} credit(s) to ${userId}:`, error.message);
+}
@@ -1,6 +1,10 @@
 // GenAIPro TTS API Client
 // Docs: https://genaipro.vn/api/v1
 
+import keyRotation from './keyRotation';
+import { srtSubtitleTimings } from './wordTimings';
+import type { WordTiming } from '../types';
+
 interface GenAIProTaskResponse {
     task_id: string;
 }
@@ -26,15 +30,11 @@ const MAX_RETRIES = 150; // 150 * 2s = 5 minutes max wait
 const POLL_INTERVAL = 2000; // 2 seconds
 
 async function makeGenAIProRequest(
+    apiKey: string,
     endpoint: string,
     method: 'GET' | 'POST' | 'DELETE' = 'GET',
     body?: any
 ) {
-    const apiKey = process.env.GENAIPRO_API_KEY;
-    if (!apiKey) {
-        throw new Error('GENAIPRO_API_KEY not configured');
-    }
-
     const url = `${GENAIPRO_API_BASE}${endpoint}`;
     const headers: HeadersInit = {
         'Authorization': `Bearer ${apiKey}`,
@@ -61,33 +61,44 @@ async function makeGenAIProRequest(
  * @param voiceId - GenAIPro voice ID
  * @param projectId - Project ID for file naming
  * @param sceneIndex - Scene index for file naming
- * @returns Audio URL and duration
+ * @param options - Optional speed override (0.7 - 1.2) and language (ISO 639-1) to enforce
+ * @returns Audio URL, duration and word timings from the task's SRT subtitles
  */
 export async function generateGenAIProAudio(
     text: string,
     voiceId: string,
     projectId: string,
-    sceneIndex: number
-): Promise<{ url: string; duration: number }> {
+    sceneIndex: number,
+    options: { speed?: number; language?: string } = {}
+): Promise<{ url: string; duration: number; wordTimings: WordTiming[] | null }> {
+    // eleven_multilingual_v2 can't be told the language; other languages go through a model that enforces it
+    const enforceLanguage = !!options.language && options.language !== 'en';
+
     console.log(`[GenAIPro] Generating audio with voice ${voiceId}...`);
 
-    // Step 1: Create TTS task
-    const createResponse: GenAIProTaskResponse = await makeGenAIProRequest(
-        '/labs/task',
-        'POST',
-        {
-            input: text,
-            voice_id: voiceId,
-            model_id: 'eleven_multilingual_v2', // Good quality, multilingual
-            style: 0.0,
-            speed: 1.0,
-            use_speaker_boost: true,
-            similarity: 0.75,
-            stability: 0.5
+    // Step 1: Create TTS task (with key rotation; polling must reuse the key that owns the task)
+    const { apiKey, taskId } = await keyRotation.pool('genaipro').withRetry(
+        async (key) => {
+            const createResponse: GenAIProTaskResponse = await makeGenAIProRequest(
+                key,
+                '/labs/task',
+                'POST',
+                {
+                    input: text,
+                    voice_id: voiceId,
+                    model_id: enforceLanguage ? 'eleven_turbo_v2_5' : 'eleven_multilingual_v2', // Good quality, multilingual
+                    ...(enforceLanguage && { language_code: options.language }),
+                    style: 0.0,
+                    speed: options.speed ?? 1.0,
+                    use_speaker_boost: true,
+                    similarity: 0.75,
+                    stability: 0.5
+                }
+            );
+            return { apiKey: key, taskId: createResponse.task_id };
         }
     );
 
-    const taskId = createResponse.task_id;
     console.log(`[GenAIPro] Task created: ${taskId}`);
 
     // Step 2: Poll for completion
@@ -97,7 +108,7 @@ export async function generateGenAIProAudio(
     while (retries < MAX_RETRIES) {
         await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
 
-        taskStatus = await makeGenAIProRequest(`/labs/task/${taskId}`, 'GET');
+        taskStatus = await makeGenAIProRequest(apiKey, `/labs/task/${taskId}`, 'GET');
 
         console.log(`[GenAIPro] Task status: ${taskStatus.status}`);
 
@@ -121,7 +132,8 @@ export async function generateGenAIProAudio(
 
             return {
                 url: taskStatus.result,
-                duration
+                duration,
+                wordTimings: await srtSubtitleTimings(text, taskStatus.subtitle)
             };
         }
 
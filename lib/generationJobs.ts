@@ -0,0 +1,298 @@
+/**
+ * Server-side batch scene generation.
+ * A job row in `jobs` tracks progress; the runner (app/api/jobs/[jobId]/run) processes scenes with
+ * bounded concurrency in time-boxed chunks and re-triggers itself, so generation survives tab closes.
+ * Progress reaches the studio through Supabase Realtime on the jobs table.
+ */
+
+import { randomUUID } from 'crypto';
+import { createClient as createAdminClient } from '@supabase/supabase-js';
+import { JobApi, ProjectApi, SceneApi } from '../types';
+import { generateSceneForUser, narrateSceneForUser } from './sceneGeneration';
+import { JOB_STALE_AFTER_MS } from './constants';
+import keyRotation from './keyRotation';
+import { getProjectSegments } from './segmentation';
+import { planScenePrompts } from './promptPlanning';
+
+const supabaseAdmin = createAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Scenes generated in parallel. Every scene makes an OpenAI call, so the default scales with OpenAI keys;
+// per-provider limiters in KeyRotation keep the parallel calls under each provider's rate limit.
+const JOB_CONCURRENCY = Number(process.env.JOB_CONCURRENCY) || Math.min(10, Math.max(3, keyRotation.pool('openai').size));
+const JOB_TIME_BUDGET_MS = 240 * 1000; // Stop picking up scenes after this, then hand off to a fresh invocation
+const JOB_HEARTBEAT_MS = JOB_STALE_AFTER_MS / 4; // Written on a timer, so a slow scene never makes a live job look stalled
+
+export type JobRunOutcome = 'completed' | 'requeued' | 'stopped' | 'failed' | 'skipped';
+
+// narrate: the scene has its visuals and only needs audio, which is recorded without regenerating it
+type WorkItem = { index: number; text: string; narrate?: boolean };
+
+/**
+ * Scenes that still need generating: missing, failed, left pending by an interrupted run,
+ * or missing their audio / visual. Scenes missing only their audio are narrated instead.
+ */
+export function findPendingWork(project: Pick<ProjectApi, 'script' | 'segments'>, scenes: SceneApi[], exclude: number[] = []): WorkItem[] {
+    const segments = getProjectSegments(project);
+    const maxIter = Math.max(segments.length, scenes.length);
+    const work: WorkItem[] = [];
+
+    for (let i = 0; i < maxIter; i++) {
+        if (exclude.includes(i)) continue;
+
+        const existingScene = scenes.find(s => s.order_index === i);
+        const text = existingScene?.text || segments[i] || "";
+        if (!text) continue;
+
+        const needsWork = !existingScene
+            || existingScene.status !== 'ready'
+            || !existingScene.audio_url
+            || !existingScene.image_url;
+
+        if (!needsWork) continue;
+        const narrate = !!existingScene?.image_url && !existingScene.audio_url;
+        work.push({ index: i, text, narrate });
+    }
+
+    return work;
+}
+
+/**
+ * Scenes of a narrate_scenes job: every scene still missing its audio. Their visuals are kept.
+ */
+export function findPendingNarration(scenes: SceneApi[], exclude: number[] = []): WorkItem[] {
+    return scenes
+        .filter(scene => scene.text && !scene.audio_url && !exclude.includes(scene.order_index))
+        .map(scene => ({ index: scene.order_index, text: scene.text, narrate: true }));
+}
+
+/**
+ * Jobs are written with the service role only (users can read theirs), so callers must have checked
+ * that the project belongs to the user.
+ */
+export async function queueJob(projectId: string, userId: string, type: JobApi['type'], total: number, message: string): Promise<JobApi> {
+    const { data, error } = await supabaseAdmin
+        .from('jobs')
+        .insert({ project_id: projectId, user_id: userId, type, status: 'queued', total, current_message: message })
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data as JobApi;
+}
+
+/**
+ * Cancels the user's job if it is still queued or running. Returns null if it wasn't.
+ * Workers notice on their next progress write and stop after their in-flight scene.
+ */
+export async function cancelJob(jobId: string, userId: string): Promise<JobApi | null> {
+    const { data, error } = await supabaseAdmin
+        .from('jobs')
+        .update({ status: 'cancelled', current_message: null, updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .in('status', ['queued', 'running'])
+        .select()
+        .maybeSingle();
+
+    if (error) throw error;
+    return data as JobApi | null;
+}
+
+/**
+ * Puts the user's job back in the queue; the caller triggers the runner.
+ */
+export async function requeueJob(jobId: string, userId: string): Promise<JobApi> {
+    const { data, error } = await supabaseAdmin
+        .from('jobs')
+        .update({ status: 'queued', error: null, current_message: 'Resuming...', updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('user_id', userId)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data as JobApi;
+}
+
+/**
+ * Asks the runner route to process a job. Returns once the route has accepted it;
+ * the work itself continues server-side after the response.
+ * If the runner can't be reached the queued job is marked failed (it can be resumed) and the error rethrown.
+ */
+export async function triggerJobRunner(jobId: string): Promise<void> {
+    try {
+        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://facelessflowai.vercel.app';
+        const secret = process.env.JOB_RUNNER_SECRET;
+        if (!secret) {
+            throw new Error('JOB_RUNNER_SECRET is not configured');
+        }
+
+        const response = await fetch(`${baseUrl}/api/jobs/${jobId}/run`, {
+            method: 'POST',
+            headers: { 'x-job-secret': secret },
+        });
+
+        if (!response.ok) {
+            throw new Error(`Job runner rejected job ${jobId}: ${response.status}`);
+        }
+    } catch (e: any) {
+        await supabaseAdmin
+            .from('jobs')
+            .update({ status: 'failed', error: e.message, current_message: null, updated_at: new Date().toISOString() })
+            .eq('id', jobId)
+            .eq('status', 'queued');
+        throw e;
+    }
+}
+
+// Takes ownership of a queued job, or of a running job whose runner stopped heartbeating.
+// The run token marks this run as the owner; a runner whose token was replaced stops.
+async function claimJob(jobId: string): Promise<JobApi | null> {
+    const staleBefore = new Date(Date.now() - JOB_STALE_AFTER_MS).toISOString();
+    const { data } = await supabaseAdmin
+        .from('jobs')
+        .update({ status: 'running', run_token: randomUUID(), heartbeat_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .or(`status.eq.queued,and(status.eq.running,heartbeat_at.lt.${staleBefore})`)
+        .select()
+        .maybeSingle();
+
+    return data as JobApi | null;
+}
+
+/**
+ * Writes progress while the job is still this run's. Returns false if the job was cancelled
+ * (or otherwise left the running state) or claimed by another run, so workers can stop.
+ */
+async function reportProgress(jobId: string, runToken: string, progress: Partial<JobApi>): Promise<boolean> {
+    const now = new Date().toISOString();
+    const { data } = await supabaseAdmin
+        .from('jobs')
+        .update({ ...progress, heartbeat_at: now, updated_at: now })
+        .eq('id', jobId)
+        .eq('status', 'running')
+        .eq('run_token', runToken)
+        .select('id');
+
+    return !!data && data.length > 0;
+}
+
+export async function runGenerationJob(jobId: string): Promise<JobRunOutcome> {
+    const job = await claimJob(jobId);
+    if (!job) {
+        console.log(`[Jobs] Job ${jobId} is not runnable, skipping`);
+        return 'skipped';
+    }
+
+    const run: JobRun = { token: job.run_token!, stopped: false };
+    const heartbeat = setInterval(async () => {
+        if (!await reportProgress(jobId, run.token, {})) run.stopped = true;
+    }, JOB_HEARTBEAT_MS);
+
+    try {
+        return await processJob(job, run);
+    } finally {
+        clearInterval(heartbeat);
+    }
+}
+
+// This invocation's claim on a job; stopped once the job is cancelled or claimed by another run
+interface JobRun {
+    token: string;
+    stopped: boolean;
+}
+
+async function processJob(job: JobApi, run: JobRun): Promise<JobRunOutcome> {
+    const jobId = job.id;
+
+    const { data: project } = await supabaseAdmin.from('projects').select('*').eq('id', job.project_id).single();
+    const { data: scenes } = await supabaseAdmin.from('scenes').select('*').eq('project_id', job.project_id).order('order_index');
+
+    if (!project) {
+        await reportProgress(jobId, run.token, { status: 'failed', error: 'Project not found' });
+        return 'failed';
+    }
+
+    const { settings } = project as ProjectApi;
+    const failedIndices = [...(job.failed_indices || [])];
+    const queue = job.type === 'narrate_scenes'
+        ? findPendingNarration((scenes || []) as SceneApi[], failedIndices)
+        : findPendingWork(project as ProjectApi, (scenes || []) as SceneApi[], failedIndices);
+    const startedAt = Date.now();
+
+    let completed = job.completed;
+    let fatalError: string | null = null;
+
+    const toGenerate = queue.filter(item => !item.narrate);
+    console.log(`[Jobs] Job ${jobId}: ${toGenerate.length} scenes to generate, ${queue.length - toGenerate.length} to narrate (concurrency ${JOB_CONCURRENCY})`);
+
+    // Plan this run's prompts in batches up front; scenes left unplanned write their own prompt
+    if (toGenerate.length > 0) {
+        await reportProgress(jobId, run.token, { current_message: 'Planning scene prompts...' });
+        try {
+            const planned = await planScenePrompts(supabaseAdmin, job.user_id, project as ProjectApi, (scenes || []) as SceneApi[], toGenerate.map(item => item.index));
+            console.log(`[Jobs] Job ${jobId}: planned prompts for ${planned} scenes`);
+        } catch (e: any) {
+            console.error(`[Jobs] Job ${jobId}: prompt planning failed, falling back to per-scene prompts:`, e.message);
+        }
+    }
+
+    const worker = async () => {
+        while (!run.stopped && !fatalError && Date.now() - startedAt < JOB_TIME_BUDGET_MS) {
+            const item = queue.shift();
+            if (!item) return;
+
+            try {
+                if (item.narrate) {
+                    const scene = (scenes as SceneApi[]).find(s => s.order_index === item.index)!;
+                    await narrateSceneForUser(supabaseAdmin, job.user_id, scene, settings);
+                } else {
+                    await generateSceneForUser(supabaseAdmin, job.user_id, job.project_id, item.index, item.text, settings);
+                }
+                completed++;
+            } catch (e: any) {
+                console.error(`[Jobs] Job ${jobId}: scene ${item.index + 1} failed:`, e.message);
+                if (e.message === 'Insufficient credits') {
+                    fatalError = e.message;
+                    return;
+                }
+                failedIndices.push(item.index);
+            }
+
+            const stillRunning = await reportProgress(jobId, run.token, {
+                completed,
+                failed: failedIndices.length,
+                failed_indices: failedIndices,
+                current_message: `${item.narrate ? 'Narrated' : 'Generated'} scene ${item.index + 1}`,
+            });
+            if (!stillRunning) run.stopped = true;
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(JOB_CONCURRENCY, Math.max(queue.length, 1)) }, worker));
+
+    if (run.stopped) {
+        console.log(`[Jobs] Job ${jobId} was cancelled or taken over by another run`);
+        return 'stopped';
+    }
+
+    if (fatalError) {
+        await reportProgress(jobId, run.token, { status: 'failed', error: fatalError, current_message: null });
+        return 'failed';
+    }
+
+    if (queue.length > 0) {
+        // Out of time for this invocation; hand the rest to a fresh one
+        await reportProgress(jobId, run.token, { status: 'queued', current_message: `Continuing (${queue.length} scenes left)...` });
+        return 'requeued';
+    }
+
+    await reportProgress(jobId, run.token, {
+        status: 'completed',
+        current_message: failedIndices.length > 0 ? `${failedIndices.length} scenes failed` : null,
+    });
+    return 'completed';
+}
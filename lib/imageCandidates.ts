@@ -0,0 +1,126 @@
+/**
+ * Image Candidates
+ * Optional per-project mode that generates 2–4 images for a scene instead of one. The extra images
+ * are kept as variants (lib/sceneAssets); the scene shows either the best-scored candidate or, in
+ * manual mode, the first one until the user picks in the storyboard. Each extra image costs a credit.
+ */
+
+import { z } from 'zod';
+import { ProjectSettings } from '../types';
+import { generateImage, ImageRequest, ImageResult, ImageRoute } from './imageProviders';
+import { generateStructured } from './llm';
+
+export const MAX_IMAGE_CANDIDATES = 4;
+const EXTRA_CANDIDATE_CREDITS = 1;
+
+/**
+ * Scores candidates for how well they show the prompt (higher is better, one score per candidate).
+ * Scorers are picked with IMAGE_CANDIDATE_SCORER; add e.g. a CLIP similarity scorer to CANDIDATE_SCORERS.
+ */
+export type CandidateScorer = (prompt: string, candidates: ImageResult[]) => Promise<number[]>;
+
+const CandidateScoresSchema = z.object({
+    scores: z.array(z.object({
+        index: z.number().int(),
+        score: z.number(),
+    })),
+});
+
+// LLM vision rating: one call sees all candidates and rates each 0–10
+const visionScorer: CandidateScorer = async (prompt, candidates) => {
+    const { scores } = await generateStructured({
+        label: 'candidate_scores',
+        model: 'gpt-4o-mini',
+        system: 'You rate AI-generated storyboard images. For each numbered image, give a score from 0 to 10 for how well it depicts the description: subject and action match, composition, and no visual defects (extra limbs, garbled text, distorted faces). Return a JSON object {"scores": [{"index": 0, "score": 7}, ...]} with one entry per image.',
+        user: [
+            { type: 'text', text: `Description: ${prompt}` },
+            ...candidates.flatMap((candidate, index) => [
+                { type: 'text' as const, text: `Image ${index}:` },
+                { type: 'image_url' as const, image_url: { url: candidate.url, detail: 'low' as const } },
+            ]),
+        ],
+        schema: CandidateScoresSchema,
+        temperature: 0,
+    });
+
+    return candidates.map((_, index) => scores.find(entry => entry.index === index)?.score ?? 0);
+};
+
+const CANDIDATE_SCORERS: Record<string, CandidateScorer> = {
+    vision: visionScorer,
+};
+
+/**
+ * Images to generate per scene for the project (1 when candidates mode is off).
+ */
+export function imageCandidateCount(settings: Pick<ProjectSettings, 'imageCandidates'>): number {
+    const count = settings.imageCandidates?.count ?? 1;
+    return Math.min(MAX_IMAGE_CANDIDATES, Math.max(1, Math.floor(count)));
+}
+
+/**
+ * Credits a scene costs: one for the scene, plus one per extra candidate image.
+ */
+export function sceneCreditCost(candidateImages: number): number {
+    return 1 + Math.max(0, candidateImages - 1) * EXTRA_CANDIDATE_CREDITS;
+}
+
+/**
+ * Generates `count` images for one prompt in parallel. Candidates that fail are dropped;
+ * throws only if none succeeded.
+ */
+export async function generateImageCandidates(
+    route: ImageRoute,
+    request: Omit<ImageRequest, 'model' | 'referenceImageId'>,
+    count: number
+): Promise<ImageResult[]> {
+    const results = await Promise.allSettled(
+        Array.from({ length: count }, (_, i) => generateImage(route, {
+            ...request,
+            // Distinct storage filenames for parallel uploads (the second image of a scene uses +0.5)
+            sceneIndex: request.sceneIndex + i / 10,
+        }))
+    );
+
+    const candidates = results
+        .filter((result): result is PromiseFulfilledResult<ImageResult> => result.status === 'fulfilled')
+        .map(result => result.value);
+
+    if (candidates.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+    }
+    if (candidates.length < count) {
+        console.warn(`[ImageCandidates] ${count - candidates.length} of ${count} candidates failed`);
+    }
+    return candidates;
+}
+
+/**
+ * Index of the candidate the scene should show, and whether the user still has to pick
+ * (manual mode). In auto mode a scorer failure falls back to the first candidate.
+ */
+export async function chooseImageCandidate(
+    prompt: string,
+    candidates: ImageResult[],
+    settings: Pick<ProjectSettings, 'imageCandidates'>
+): Promise<{ index: number; needsPick: boolean }> {
+    if (candidates.length < 2) return { index: 0, needsPick: false };
+    if (settings.imageCandidates?.selection !== 'auto') return { index: 0, needsPick: true };
+
+    const scorerId = process.env.IMAGE_CANDIDATE_SCORER || 'vision';
+    const scorer = CANDIDATE_SCORERS[scorerId];
+    if (!scorer) {
+        console.warn(`[ImageCandidates] Unknown scorer "${scorerId}", using the first candidate`);
+        return { index: 0, needsPick: false };
+    }
+
+    try {
+        const scores = await scorer(prompt, candidates);
+        const best = scores.reduce((bestIndex, score, index) => score > scores[bestIndex] ? index : bestIndex, 0);
+        console.log(`[ImageCandidates] Scores ${scores.join(', ')} - picked candidate ${best}`);
+        return { index: best, needsPick: false };
+    } catch (e: any) {
+        console.error('[ImageCandidates] Scoring failed, using the first candidate:', e.message);
+        return { index: 0, needsPick: false };
+    }
+}
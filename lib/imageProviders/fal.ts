@@ -0,0 +1,12 @@
+import { generateFalImage } from '../ai';
+import { ImageProvider } from './types';
+
+export const falProvider: ImageProvider = {
+    id: 'fal',
+    label: 'Fal.ai (Flux Pro)',
+    aspectRatios: ['16:9', '9:16'],
+    supportsReferenceImage: false,
+    fallbacks: [],
+    generate: ({ prompt, projectId, sceneIndex, aspectRatio }) =>
+        generateFalImage(prompt, projectId, sceneIndex, aspectRatio),
+};
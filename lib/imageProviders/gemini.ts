@@ -0,0 +1,12 @@
+import { generateGeminiImage } from '../ai';
+import { ImageProvider } from './types';
+
+export const geminiProvider: ImageProvider = {
+    id: 'gemini',
+    label: 'Google Gemini 2.5',
+    aspectRatios: ['16:9', '9:16'],
+    supportsReferenceImage: false,
+    fallbacks: [],
+    generate: ({ prompt, projectId, sceneIndex, aspectRatio }) =>
+        generateGeminiImage(prompt, projectId, sceneIndex, aspectRatio),
+};
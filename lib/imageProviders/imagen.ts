@@ -0,0 +1,12 @@
+import { generateImagenImage } from '../imagen';
+import { ImageProvider } from './types';
+
+export const imagenProvider: ImageProvider = {
+    id: 'imagen',
+    label: 'Google Imagen 4.0 Fast',
+    aspectRatios: ['16:9', '9:16', '1:1', '3:4', '4:3'],
+    supportsReferenceImage: false,
+    fallbacks: ['gemini'],
+    generate: ({ prompt, projectId, sceneIndex, aspectRatio }) =>
+        generateImagenImage(prompt, projectId, sceneIndex, aspectRatio),
+};
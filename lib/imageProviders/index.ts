@@ -0,0 +1,156 @@
+/**
+ * Image Provider Registry
+ * Single dispatch point for scene image generation (generateScene + regenerateImage)
+ */
+
+import type { VisualStylePreset } from '../visualStyles';
+import { ImageProvider, ImageProviderId, ImageRequest, ImageResult, ImageRoute } from './types';
+import { falProvider } from './fal';
+import { runwareProvider } from './runware';
+import { geminiProvider } from './gemini';
+import { imagenProvider } from './imagen';
+import { replicateProvider } from './replicate';
+
+export type { ImageProvider, ImageProviderId, ImageRequest, ImageResult, ImageRoute } from './types';
+
+const IMAGE_PROVIDERS: Record<ImageProviderId, ImageProvider> = {
+    fal: falProvider,
+    runware: runwareProvider,
+    gemini: geminiProvider,
+    imagen: imagenProvider,
+    replicate: replicateProvider,
+};
+
+// Global fallback order, e.g. IMAGE_PROVIDER_FALLBACKS="runware,fal,gemini"
+const GLOBAL_FALLBACKS: ImageProviderId[] | undefined = process.env.IMAGE_PROVIDER_FALLBACKS
+    ? parseProviderList(process.env.IMAGE_PROVIDER_FALLBACKS)
+    : undefined;
+
+function parseProviderList(value: string): ImageProviderId[] {
+    return value
+        .split(',')
+        .map(id => id.trim())
+        .filter((id): id is ImageProviderId => {
+            if (id in IMAGE_PROVIDERS) return true;
+            if (id) console.warn(`[ImageProviders] Ignoring unknown fallback provider: ${id}`);
+            return false;
+        });
+}
+
+export function getImageProvider(id: ImageProviderId): ImageProvider {
+    const provider = IMAGE_PROVIDERS[id];
+    if (!provider) {
+        throw new Error(`Unknown image provider: ${id}`);
+    }
+    return provider;
+}
+
+export function listImageProviders(): ImageProvider[] {
+    return Object.values(IMAGE_PROVIDERS);
+}
+
+/**
+ * Maps project settings (imageModel + the visual style's preset) to a provider route.
+ * referenceImage is the project's resolved reference character (see lib/referenceCharacters),
+ * fallbacks the project's own fallback order, if it has one.
+ */
+export function resolveImageRoute(
+    imageModel: string | undefined,
+    preset: VisualStylePreset,
+    referenceImage?: string,
+    fallbacks?: ImageProviderId[]
+): ImageRoute {
+    return { ...resolvePrimaryRoute(imageModel, preset, referenceImage), fallbacks };
+}
+
+function resolvePrimaryRoute(imageModel: string | undefined, preset: VisualStylePreset, referenceImage?: string): ImageRoute {
+    if (imageModel === 'imagen' || imageModel === 'gemini') {
+        return { providerId: imageModel };
+    }
+
+    // Styles pinned to a provider (reference_image -> Runware, the only provider with reference support)
+    if (preset.route) {
+        const referenceImageId = preset.referenceImageUrl ?? (preset.usesReferenceImage ? referenceImage : undefined);
+        return { ...preset.route, referenceImageId };
+    }
+
+    if (imageModel === 'runware') {
+        return { providerId: 'runware', model: 'runware:100@1' };
+    }
+
+    // James / Grandma finetuned LoRAs run on Runware
+    if (imageModel && imageModel.startsWith('jamestok:')) {
+        return { providerId: 'runware', model: imageModel };
+    }
+
+    if (imageModel === 'replicate') {
+        return { providerId: 'replicate' };
+    }
+
+    return { providerId: 'fal' };
+}
+
+/**
+ * Ordered list of providers to try for a route: the routed provider first, then the
+ * project's fallbacks, else IMAGE_PROVIDER_FALLBACKS, else the provider's own fallbacks.
+ * Fallbacks that cannot honour a reference image are skipped.
+ */
+export function resolveProviderChain(route: ImageRoute): ImageProvider[] {
+    const primary = getImageProvider(route.providerId);
+    const fallbackIds = route.fallbacks ?? GLOBAL_FALLBACKS ?? primary.fallbacks;
+
+    const chain = [primary];
+    for (const id of fallbackIds) {
+        const provider = IMAGE_PROVIDERS[id];
+        if (!provider || chain.includes(provider)) continue;
+        if (route.referenceImageId && !provider.supportsReferenceImage) continue;
+        chain.push(provider);
+    }
+    return chain;
+}
+
+/**
+ * Generates an image through the routed provider, walking its fallback chain on failure.
+ * The result records which provider actually produced the image.
+ */
+export async function generateImage(
+    route: ImageRoute,
+    request: Omit<ImageRequest, 'model' | 'referenceImageId'>
+): Promise<ImageResult> {
+    const chain = resolveProviderChain(route);
+    const primary = chain[0];
+
+    let lastError: Error | null = null;
+
+    for (let i = 0; i < chain.length; i++) {
+        const provider = chain[i];
+        const aspectRatio = provider.aspectRatios.includes(request.aspectRatio)
+            ? request.aspectRatio
+            : provider.aspectRatios[0];
+
+        if (aspectRatio !== request.aspectRatio) {
+            console.warn(`[ImageProviders] ${provider.label} does not support ${request.aspectRatio}, using ${aspectRatio}`);
+        }
+
+        try {
+            const url = await provider.generate({
+                ...request,
+                aspectRatio,
+                // Model ids are provider-specific, so only the routed provider receives one
+                model: provider === primary ? route.model : undefined,
+                referenceImageId: provider.supportsReferenceImage ? route.referenceImageId : undefined,
+            });
+            return { url, providerId: provider.id };
+        } catch (error) {
+            lastError = error as Error;
+            const next = chain[i + 1];
+            if (next) {
+                console.warn(`[ImageProviders] ${provider.label} failed, falling back to ${next.label}:`, lastError.message);
+            } else {
+                console.error(`[ImageProviders] ${provider.label} failed:`, lastError.message);
+            }
+        }
+    }
+
+    throw lastError || new Error('Image generation failed');
+}
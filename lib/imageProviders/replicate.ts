@@ -0,0 +1,13 @@
+import { generateReplicateImage } from '../ai';
+import { ImageProvider } from './types';
+
+// James Finetuned model via Replicate
+export const replicateProvider: ImageProvider = {
+    id: 'replicate',
+    label: 'Replicate (James)',
+    aspectRatios: ['16:9', '9:16', '1:1'],
+    supportsReferenceImage: false,
+    fallbacks: [],
+    generate: ({ prompt, projectId, sceneIndex, aspectRatio }) =>
+        generateReplicateImage(prompt, aspectRatio, projectId, sceneIndex),
+};
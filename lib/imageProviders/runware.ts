@@ -0,0 +1,13 @@
+import { generateRunwareImage } from '../ai';
+import { ImageProvider } from './types';
+
+export const runwareProvider: ImageProvider = {
+    id: 'runware',
+    label: 'Runware',
+    aspectRatios: ['16:9', '9:16', '1:1'],
+    supportsReferenceImage: true,
+    fallbacks: [],
+    // model covers both base models (runware:100@1) and LoRAs (jamestok:*)
+    generate: ({ prompt, projectId, sceneIndex, aspectRatio, model, referenceImageId }) =>
+        generateRunwareImage(prompt, projectId, sceneIndex, aspectRatio, model, referenceImageId),
+};
@@ -0,0 +1,32 @@
+export type ImageProviderId = 'fal' | 'gemini' | 'runware' | 'imagen' | 'replicate';
+
+export type ImageRequest = {
+    prompt: string;
+    projectId: string;
+    sceneIndex: number;
+    aspectRatio: string;
+    model?: string; // Provider-specific model id (e.g. runware:400@1, jamestok:224@4455)
+    referenceImageId?: string; // Public path or provider image id of a reference character
+};
+
+export interface ImageProvider {
+    id: ImageProviderId;
+    label: string;
+    aspectRatios: string[]; // First entry is used when the requested ratio is unsupported
+    supportsReferenceImage: boolean;
+    fallbacks: ImageProviderId[]; // Tried in order when this provider fails
+    generate(request: ImageRequest): Promise<string>;
+}
+
+// Which provider (and provider-specific options) a scene should be generated with
+export type ImageRoute = {
+    providerId: ImageProviderId;
+    model?: string;
+    referenceImageId?: string;
+    fallbacks?: ImageProviderId[]; // Overrides the global / provider-declared fallback order
+};
+
+export type ImageResult = {
+    url: string;
+    providerId: ImageProviderId;
+};
@@ -1,159 +1,288 @@
 /**
  * API Key Rotation and Load Balancing Utility
- * Provides round-robin key selection with retry support
+ * Provides a round-robin key pool per provider (keyRotation.pool('openai')) with retry support.
+ * Keys that hit quota / auth errors are put on cooldown and skipped until it expires.
  */
 
-class KeyRotation {
-    private static instance: KeyRotation;
+import { TokenBucket } from './rateLimiter';
 
-    private openaiKeys: string[] = [];
-    private minimaxKeys: string[] = [];
-    private runwareKeys: string[] = [];
-    private replicateKeys: string[] = [];
-    private minimaxGroupId: string | null = null; // Store GroupID once
+// retryable: transient (5xx, network, timeout) - try another key
+// quota: 429 / out of credits - cool the key down, try another
+// auth: 401 / 403 / revoked key - cool the key down for longer, try another
+// fatal: the request itself is bad (validation, content policy) - another key won't help
+export type ProviderErrorKind = 'retryable' | 'quota' | 'auth' | 'fatal';
 
-    private openaiIndex = 0;
-    private minimaxIndex = 0;
-    private runwareIndex = 0;
-    private replicateIndex = 0;
+type KeyHealth = {
+    consecutiveFailures: number;
+    lastErrorKind: ProviderErrorKind | null;
+    lastError: string | null;
+    lastQuotaErrorAt: number | null;
+    lastAuthErrorAt: number | null;
+    cooldownUntil: number | null;
+    successCount: number;
+    failureCount: number;
+};
 
-    private constructor() {
-        this.loadKeys();
-    }
+export type KeyHealthSnapshot = {
+    key: string; // Masked, never the full key
+    healthy: boolean;
+    cooldownRemainingMs: number;
+    consecutiveFailures: number;
+    lastErrorKind: ProviderErrorKind | null;
+    lastError: string | null;
+    lastQuotaErrorAt: string | null;
+    lastAuthErrorAt: string | null;
+    successCount: number;
+    failureCount: number;
+};
 
-    private loadKeys() {
-        // Load OpenAI keys
-        const openaiPrimary = process.env.OPENAI_API_KEY;
-        if (openaiPrimary) this.openaiKeys.push(openaiPrimary);
+const QUOTA_COOLDOWN_MS = 60 * 1000; // Doubles per consecutive quota error
+const MAX_QUOTA_COOLDOWN_MS = 15 * 60 * 1000;
+const AUTH_COOLDOWN_MS = 30 * 60 * 1000;
+const RETRYABLE_COOLDOWN_MS = 30 * 1000;
+const RETRYABLE_FAILURE_THRESHOLD = 3; // Transient errors only cool a key down once they repeat
 
-        for (let i = 1; i <= 10; i++) {
-            const key = process.env[`OPENAI_API_KEY${i}`];
-            if (key) this.openaiKeys.push(key);
-        }
+const QUOTA_PATTERN = /rate.?limit|too many requests|quota|insufficient|balance|credits? (exhausted|exceeded)|billing/i;
+const AUTH_PATTERN = /unauthori[sz]ed|forbidden|invalid.{0,10}(api.?key|token)|incorrect api key|authentication|revoked|expired.{0,10}(key|token)/i;
+const FATAL_PATTERN = /content.?policy|safety|moderation|invalid.{0,10}(prompt|request|parameter|voice)|validation/i;
 
-        // Load Minimax keys
-        const minimaxPrimary = process.env.MINIMAX_API_KEY;
-        if (minimaxPrimary) {
-            this.minimaxKeys.push(minimaxPrimary);
-            // Extract GroupID from primary key if not in env
-            if (!process.env.MINIMAX_GROUP_ID) {
-                this.minimaxGroupId = this.extractMinimaxGroupId(minimaxPrimary);
-            }
-        }
+// Our provider wrappers put the HTTP status right after their prefix: "Minimax API Error: 429 ...",
+// "Fal Queue Error: 401", "Pexels API Error: 429 Too Many Requests", "GenAIPro API Error (402): ..."
+const STATUS_MESSAGE_PATTERN = /^(?:Minimax API|Fal Queue|Pexels API|GenAIPro API) Error(?::\s*|\s*\()([45]\d\d)\b/;
 
-        for (let i = 1; i <= 10; i++) {
-            const key = process.env[`MINIMAX_API_KEY${i}`];
-            if (key) this.minimaxKeys.push(key);
-        }
+// HTTP status from structured fields or a known wrapper prefix; numbers elsewhere in a message ("500 characters") are ignored
+function getErrorStatus(error: unknown): number | null {
+    const err = error as { status?: unknown; statusCode?: unknown; response?: { status?: unknown } } | null;
+    const status = err?.status ?? err?.statusCode ?? err?.response?.status;
+    if (typeof status === 'number') return status;
 
-        // Use env GroupID if available, otherwise use extracted one
-        if (process.env.MINIMAX_GROUP_ID) {
-            this.minimaxGroupId = process.env.MINIMAX_GROUP_ID;
-        }
+    const match = error instanceof Error ? error.message.match(STATUS_MESSAGE_PATTERN) : null;
+    return match ? Number(match[1]) : null;
+}
 
-        // Load Runware keys
-        const runwarePrimary = process.env.RUNWARE_API_KEY;
-        if (runwarePrimary) this.runwareKeys.push(runwarePrimary);
+/**
+ * Classifies a provider error so callers know whether retrying with another key can help.
+ * Unrecognised errors are treated as retryable to preserve the old retry-on-anything behaviour.
+ */
+export function classifyProviderError(error: unknown): ProviderErrorKind {
+    const message = error instanceof Error ? error.message : String(error);
+    const status = getErrorStatus(error);
 
-        for (let i = 1; i <= 10; i++) {
-            const key = process.env[`RUNWARE_API_KEY${i}`];
-            if (key) this.runwareKeys.push(key);
-        }
+    if (status === 429 || status === 402 || QUOTA_PATTERN.test(message)) return 'quota';
+    if (status === 401 || status === 403 || AUTH_PATTERN.test(message)) return 'auth';
+    if (FATAL_PATTERN.test(message)) return 'fatal';
+    if (status !== null && status >= 400 && status < 500 && status !== 408) return 'fatal';
+    return 'retryable';
+}
 
-        // Load Replicate keys
-        const replicatePrimary = process.env.REPLICATE_API_TOKEN;
-        if (replicatePrimary) this.replicateKeys.push(replicatePrimary);
+function maskKey(key: string): string {
+    return key.length <= 8 ? '****' : `${key.slice(0, 4)}…${key.slice(-4)}`;
+}
 
-        for (let i = 1; i <= 10; i++) {
-            const key = process.env[`REPLICATE_API_TOKEN${i}`];
-            if (key) this.replicateKeys.push(key);
-        }
+// Env var each pool loads from. Keys can be comma-separated in the base var and/or
+// spread over any number of numbered vars (OPENAI_API_KEY1, OPENAI_API_KEY2, ...).
+const POOL_ENV_VARS: Record<string, string> = {
+    openai: 'OPENAI_API_KEY',
+    minimax: 'MINIMAX_API_KEY',
+    runware: 'RUNWARE_API_KEY',
+    replicate: 'REPLICATE_API_TOKEN',
+    fal: 'FAL_KEY',
+    gemini: 'GEMINI_API_KEY',
+    genaipro: 'GENAIPRO_API_KEY',
+    pexels: 'PEXELS_API_KEY',
+};
 
-        console.log(`[KeyRotation] Loaded ${this.openaiKeys.length} OpenAI keys, ${this.minimaxKeys.length} Minimax keys, ${this.runwareKeys.length} Runware keys, ${this.replicateKeys.length} Replicate keys`);
-        if (this.minimaxGroupId) {
-            console.log(`[KeyRotation] Minimax GroupID: ${this.minimaxGroupId}`);
-        }
+// Requests per minute each key of a pool may make; the pool's limiter scales this by its key count.
+// Override with <NAME>_RPM_PER_KEY (e.g. RUNWARE_RPM_PER_KEY=60).
+const POOL_RPM_PER_KEY: Record<string, number> = {
+    openai: 60,
+    minimax: 20,
+    runware: 30,
+    replicate: 10,
+    fal: 10,
+    gemini: 10,
+    genaipro: 10,
+    pexels: 3, // 200 requests / hour
+};
+const DEFAULT_RPM_PER_KEY = 20;
+const BURST_SECONDS = 10; // Bucket holds this many seconds of throughput
+
+function createLimiter(name: string, keyCount: number): TokenBucket {
+    const rpmPerKey = Number(process.env[`${name.toUpperCase()}_RPM_PER_KEY`]) || POOL_RPM_PER_KEY[name] || DEFAULT_RPM_PER_KEY;
+    const perSecond = (rpmPerKey * Math.max(keyCount, 1)) / 60;
+    return new TokenBucket(Math.max(1, Math.ceil(perSecond * BURST_SECONDS)), perSecond);
+}
+
+function loadKeysFromEnv(envVar: string): string[] {
+    const numbered = Object.keys(process.env)
+        .map(name => ({ name, match: name.match(new RegExp(`^${envVar}_?(\\d+)$`)) }))
+        .filter(entry => entry.match)
+        .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+        .map(entry => entry.name);
+
+    const keys = [envVar, ...numbered]
+        .flatMap(name => (process.env[name] || '').split(','))
+        .map(key => key.trim())
+        .filter(Boolean);
+
+    return Array.from(new Set(keys));
+}
+
+/**
+ * Round-robin pool of keys for one provider, with per-key health tracking and a
+ * token-bucket limiter sized from the number of keys.
+ */
+export class KeyPool {
+    private index = 0;
+    private health = new Map<string, KeyHealth>(); // Keyed by the API key itself
+    private limiter: TokenBucket;
+
+    constructor(
+        public readonly name: string,
+        public readonly envVar: string,
+        private readonly keys: string[]
+    ) {
+        this.limiter = createLimiter(name, keys.length);
     }
 
-    private extractMinimaxGroupId(apiKey: string): string | null {
-        try {
-            const parts = apiKey.split('.');
-            if (parts.length === 3) {
-                const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-                return payload.GroupID || null;
-            }
-        } catch (e) {
-            console.warn("[KeyRotation] Failed to extract GroupID from Minimax API Key", e);
-        }
-        return null;
+    public get size(): number {
+        return this.keys.length;
     }
 
-    public static getInstance(): KeyRotation {
-        if (!KeyRotation.instance) {
-            KeyRotation.instance = new KeyRotation();
-        }
-        return KeyRotation.instance;
+    // First key in the pool, for callers that derive config from it (e.g. Minimax GroupID)
+    public get primaryKey(): string | null {
+        return this.keys[0] || null;
     }
 
-    public getNextOpenAIKey(): string {
-        if (this.openaiKeys.length === 0) {
-            throw new Error('No OpenAI API keys available');
+    public next(): string {
+        if (this.keys.length === 0) {
+            throw new Error(`No ${this.name} API keys available (set ${this.envVar})`);
         }
-        const key = this.openaiKeys[this.openaiIndex % this.openaiKeys.length];
-        console.log(`[KeyRotation] Using OpenAI key #${(this.openaiIndex % this.openaiKeys.length) + 1}`);
-        this.openaiIndex++;
-        return key;
+        const position = this.pickHealthyKey();
+        console.log(`[KeyRotation] Using ${this.name} key #${position + 1}`);
+        this.index = position + 1;
+        return this.keys[position];
     }
 
-    public getNextMinimaxKey(): string {
-        if (this.minimaxKeys.length === 0) {
-            throw new Error('No Minimax API keys available');
+    /**
+     * Returns the index of the next key (round-robin) that is not cooling down.
+     * If every key is cooling down, the one whose cooldown ends soonest is used rather than failing outright.
+     */
+    private pickHealthyKey(): number {
+        const now = Date.now();
+        let soonest = this.index % this.keys.length;
+        let soonestUntil = Infinity;
+
+        for (let i = 0; i < this.keys.length; i++) {
+            const position = (this.index + i) % this.keys.length;
+            const cooldownUntil = this.health.get(this.keys[position])?.cooldownUntil;
+            if (!cooldownUntil || cooldownUntil <= now) return position;
+            if (cooldownUntil < soonestUntil) {
+                soonest = position;
+                soonestUntil = cooldownUntil;
+            }
         }
-        const key = this.minimaxKeys[this.minimaxIndex % this.minimaxKeys.length];
-        console.log(`[KeyRotation] Using Minimax key #${(this.minimaxIndex % this.minimaxKeys.length) + 1}`);
-        this.minimaxIndex++;
-        return key;
+
+        console.warn(`[KeyRotation] All ${this.name} keys are cooling down, using key #${soonest + 1}`);
+        return soonest;
     }
 
-    public getNextRunwareKey(): string {
-        if (this.runwareKeys.length === 0) {
-            throw new Error('No Runware API keys available');
+    private getHealth(key: string): KeyHealth {
+        let entry = this.health.get(key);
+        if (!entry) {
+            entry = {
+                consecutiveFailures: 0,
+                lastErrorKind: null,
+                lastError: null,
+                lastQuotaErrorAt: null,
+                lastAuthErrorAt: null,
+                cooldownUntil: null,
+                successCount: 0,
+                failureCount: 0,
+            };
+            this.health.set(key, entry);
         }
-        const key = this.runwareKeys[this.runwareIndex % this.runwareKeys.length];
-        console.log(`[KeyRotation] Using Runware key #${(this.runwareIndex % this.runwareKeys.length) + 1}`);
-        this.runwareIndex++;
-        return key;
+        return entry;
     }
 
-    public getNextReplicateKey(): string {
-        if (this.replicateKeys.length === 0) {
-            throw new Error('No Replicate API keys available');
+    public recordSuccess(key: string) {
+        const entry = this.getHealth(key);
+        entry.consecutiveFailures = 0;
+        entry.cooldownUntil = null;
+        entry.successCount++;
+    }
+
+    public recordFailure(key: string, kind: ProviderErrorKind, message: string) {
+        // A bad request says nothing about the key's health
+        if (kind === 'fatal') return;
+
+        const now = Date.now();
+        const entry = this.getHealth(key);
+        entry.consecutiveFailures++;
+        entry.failureCount++;
+        entry.lastErrorKind = kind;
+        entry.lastError = message.slice(0, 200);
+
+        if (kind === 'quota') {
+            entry.lastQuotaErrorAt = now;
+            const backoff = QUOTA_COOLDOWN_MS * 2 ** Math.min(entry.consecutiveFailures - 1, 10);
+            entry.cooldownUntil = now + Math.min(backoff, MAX_QUOTA_COOLDOWN_MS);
+        } else if (kind === 'auth') {
+            entry.lastAuthErrorAt = now;
+            entry.cooldownUntil = now + AUTH_COOLDOWN_MS;
+        } else if (entry.consecutiveFailures >= RETRYABLE_FAILURE_THRESHOLD) {
+            entry.cooldownUntil = now + RETRYABLE_COOLDOWN_MS;
+        }
+
+        if (entry.cooldownUntil && entry.cooldownUntil > now) {
+            console.warn(`[KeyRotation] ${this.name} key ${maskKey(key)} cooling down for ${Math.round((entry.cooldownUntil - now) / 1000)}s (${kind})`);
         }
-        const key = this.replicateKeys[this.replicateIndex % this.replicateKeys.length];
-        console.log(`[KeyRotation] Using Replicate key #${(this.replicateIndex % this.replicateKeys.length) + 1}`);
-        this.replicateIndex++;
-        return key;
     }
 
-    public getMinimaxGroupId(): string | null {
-        return this.minimaxGroupId;
+    public getHealthSnapshot(): KeyHealthSnapshot[] {
+        const now = Date.now();
+        return this.keys.map((key): KeyHealthSnapshot => {
+            const entry = this.getHealth(key);
+            const cooldownRemainingMs = entry.cooldownUntil ? Math.max(0, entry.cooldownUntil - now) : 0;
+            return {
+                key: maskKey(key),
+                healthy: cooldownRemainingMs === 0,
+                cooldownRemainingMs,
+                consecutiveFailures: entry.consecutiveFailures,
+                lastErrorKind: entry.lastErrorKind,
+                lastError: entry.lastError,
+                lastQuotaErrorAt: entry.lastQuotaErrorAt ? new Date(entry.lastQuotaErrorAt).toISOString() : null,
+                lastAuthErrorAt: entry.lastAuthErrorAt ? new Date(entry.lastAuthErrorAt).toISOString() : null,
+                successCount: entry.successCount,
+                failureCount: entry.failureCount,
+            };
+        });
     }
 
-    // Generic retry wrapper
+    // Retry wrapper - waits for the pool's rate limit, records key health and stops early on errors another key can't fix
     public async withRetry<T>(
         operation: (apiKey: string) => Promise<T>,
-        getNextKey: () => string,
         maxRetries: number = 1
     ): Promise<T> {
         let lastError: Error | null = null;
 
         for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+            await this.limiter.take();
+            const apiKey = this.next();
             try {
-                const apiKey = getNextKey();
-                return await operation(apiKey);
+                const result = await operation(apiKey);
+                this.recordSuccess(apiKey);
+                return result;
             } catch (error) {
                 lastError = error as Error;
-                console.error(`[KeyRotation] Attempt ${attempt} failed:`, lastError.message);
+                const kind = classifyProviderError(error);
+                this.recordFailure(apiKey, kind, lastError.message);
+                console.error(`[KeyRotation] ${this.name} attempt ${attempt} failed (${kind}):`, lastError.message);
+
+                if (kind === 'fatal') {
+                    console.error(`[KeyRotation] Non-retryable error, not retrying`);
+                    break;
+                }
 
                 if (attempt <= maxRetries) {
                     console.log(`[KeyRotation] Retrying with different key...`);
@@ -167,5 +296,83 @@ class KeyRotation {
     }
 }
 
+class KeyRotation {
+    private static instance: KeyRotation;
+
+    private pools = new Map<string, KeyPool>();
+    private minimaxGroupId: string | null = null; // Store GroupID once
+
+    private constructor() {
+        this.loadKeys();
+    }
+
+    private loadKeys() {
+        for (const name of Object.keys(POOL_ENV_VARS)) {
+            this.pool(name);
+        }
+
+        // Use env GroupID if available, otherwise extract it from the primary Minimax key
+        const minimaxPrimary = this.pool('minimax').primaryKey;
+        if (process.env.MINIMAX_GROUP_ID) {
+            this.minimaxGroupId = process.env.MINIMAX_GROUP_ID;
+        } else if (minimaxPrimary) {
+            this.minimaxGroupId = this.extractMinimaxGroupId(minimaxPrimary);
+        }
+
+        const summary = Array.from(this.pools.values()).map(pool => `${pool.size} ${pool.name}`).join(', ');
+        console.log(`[KeyRotation] Loaded keys: ${summary}`);
+        if (this.minimaxGroupId) {
+            console.log(`[KeyRotation] Minimax GroupID: ${this.minimaxGroupId}`);
+        }
+    }
+
+    private extractMinimaxGroupId(apiKey: string): string | null {
+        try {
+            const parts = apiKey.split('.');
+            if (parts.length === 3) {
+                const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
+                return payload.GroupID || null;
+            }
+        } catch (e) {
+            console.warn("[KeyRotation] Failed to extract GroupID from Minimax API Key", e);
+        }
+        return null;
+    }
+
+    public static getInstance(): KeyRotation {
+        if (!KeyRotation.instance) {
+            KeyRotation.instance = new KeyRotation();
+        }
+        return KeyRotation.instance;
+    }
+
+    /**
+     * Returns the key pool for a provider, loading it on first use.
+     * Unlisted providers load from `<NAME>_API_KEY`.
+     */
+    public pool(name: string): KeyPool {
+        let pool = this.pools.get(name);
+        if (!pool) {
+            const envVar = POOL_ENV_VARS[name] || `${name.toUpperCase()}_API_KEY`;
+            pool = new KeyPool(name, envVar, loadKeysFromEnv(envVar));
+            this.pools.set(name, pool);
+        }
+        return pool;
+    }
+
+    public getMinimaxGroupId(): string | null {
+        return this.minimaxGroupId;
+    }
+
+    /**
+     * Per-key health for every pool, with keys masked. Used by the admin key-health endpoint.
+     */
+    public getHealthSnapshot(): Record<string, KeyHealthSnapshot[]> {
+        return Object.fromEntries(
+            Array.from(this.pools.values()).map(pool => [pool.name, pool.getHealthSnapshot()])
+        );
+    }
+}
+
 const keyRotation = KeyRotation.getInstance();
 export default keyRotation;
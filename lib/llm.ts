@@ -0,0 +1,124 @@
+/**
+ * Structured LLM Output
+ * Every OpenAI call that expects JSON goes through generateStructured(): the zod schema is sent as a
+ * strict response format, the reply is validated against it, and an invalid reply gets a repair
+ * round with the validation error. Calls that still fail are recorded in llm_failures.
+ */
+
+import { createClient as createAdminClient } from '@supabase/supabase-js';
+import OpenAI from 'openai';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { z } from 'zod';
+import keyRotation from './keyRotation';
+
+const supabaseAdmin = createAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+function getOpenAIClient(apiKey: string) {
+    return new OpenAI({ apiKey });
+}
+
+export class LLMOutputError extends Error {
+    constructor(public label: string, public reason: string) {
+        super(`${label}: ${reason}`);
+        this.name = 'LLMOutputError';
+    }
+}
+
+export type StructuredRequest<T extends z.ZodType> = {
+    label: string; // Names the call in logs and llm_failures, e.g. 'scene_prompt'
+    model: string;
+    system: string;
+    user: string | OpenAI.Chat.Completions.ChatCompletionContentPart[]; // Content parts for vision input
+    schema: T; // Top-level object; the name given to OpenAI is derived from label
+    temperature?: number;
+    repairAttempts?: number; // Extra rounds after an invalid reply (default 1)
+};
+
+// Validation error text short enough to send back to the model
+function describeIssues(error: z.ZodError): string {
+    return error.issues
+        .slice(0, 5)
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+}
+
+async function recordFailure(label: string, model: string, reason: string, rawOutput: string | null) {
+    const { error } = await supabaseAdmin
+        .from('llm_failures')
+        .insert({ label, model, reason, raw_output: rawOutput?.slice(0, 10000) ?? null });
+    if (error) console.warn('[LLM] Failed to record failure:', error.message);
+}
+
+/**
+ * Runs a chat completion constrained to the schema and returns the validated value.
+ * Throws LLMOutputError once the repair attempts are used up.
+ */
+export async function generateStructured<T extends z.ZodType>(request: StructuredRequest<T>): Promise<z.infer<T>> {
+    const { label, model, system, user, schema, temperature, repairAttempts = 1 } = request;
+    const responseFormat = zodResponseFormat(schema, label.replace(/[^a-zA-Z0-9_-]/g, '_'));
+
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+    ];
+
+    let reason = 'no response';
+    let rawOutput: string | null = null;
+
+    for (let attempt = 0; attempt <= repairAttempts; attempt++) {
+        const response = await keyRotation.pool('openai').withRetry(
+            async (apiKey) => {
+                const openai = getOpenAIClient(apiKey);
+                return await openai.chat.completions.create({
+                    model,
+                    messages,
+                    response_format: responseFormat,
+                    ...(temperature !== undefined ? { temperature } : {}),
+                });
+            }
+        );
+
+        const choice = response.choices[0];
+        rawOutput = choice?.message.content ?? null;
+
+        if (choice?.message.refusal) {
+            // A refusal won't change on repair
+            reason = `refused: ${choice.message.refusal}`;
+            break;
+        }
+
+        if (choice?.finish_reason === 'length') {
+            reason = 'response truncated (length limit)';
+        } else if (!rawOutput) {
+            reason = 'empty response';
+        } else {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(rawOutput);
+            } catch {
+                parsed = undefined;
+                reason = 'response is not valid JSON';
+            }
+
+            if (parsed !== undefined) {
+                const result = schema.safeParse(parsed);
+                if (result.success) return result.data;
+                reason = `schema validation failed: ${describeIssues(result.error)}`;
+            }
+        }
+
+        console.warn(`[LLM] ${label} attempt ${attempt + 1} invalid: ${reason}`);
+        if (attempt < repairAttempts) {
+            messages.push(
+                { role: 'assistant', content: rawOutput || '' },
+                { role: 'user', content: `Your previous response was invalid (${reason}). Reply again with a corrected response that follows the instructions and the JSON schema exactly.` }
+            );
+        }
+    }
+
+    await recordFailure(label, model, reason, rawOutput);
+    throw new LLMOutputError(label, reason);
+}
@@ -1,5 +1,4 @@
-
-const PEXELS_API_KEY = process.env.PEXELS_API_KEY;
+import keyRotation from './keyRotation';
 
 export type PexelsVideoResult = {
     url: string;
@@ -9,7 +8,7 @@ export type PexelsVideoResult = {
 };
 
 export async function searchPexelsVideo(query: string, orientation: 'landscape' | 'portrait'): Promise<PexelsVideoResult | null> {
-    if (!PEXELS_API_KEY) {
+    if (keyRotation.pool('pexels').size === 0) {
         console.error("Missing PEXELS_API_KEY");
         return null;
     }
@@ -17,17 +16,19 @@ export async function searchPexelsVideo(query: string, orientation: 'landscape'
     try {
         const url = `https://api.pexels.com/videos/search?query=${encodeURIComponent(query)}&orientation=${orientation}&per_page=5&size=medium`;
 
-        const response = await fetch(url, {
-            headers: {
-                Authorization: PEXELS_API_KEY
+        const response = await keyRotation.pool('pexels').withRetry(async (apiKey) => {
+            const res = await fetch(url, {
+                headers: {
+                    Authorization: apiKey
+                }
+            });
+
+            if (!res.ok) {
+                throw new Error(`Pexels API Error: ${res.status} ${res.statusText}`);
             }
+            return res;
         });
 
-        if (!response.ok) {
-            console.error(`Pexels API Error: ${response.status} ${response.statusText}`);
-            return null;
-        }
-
         const data = await response.json();
 
         if (!data.videos || data.videos.length === 0) {
@@ -0,0 +1,159 @@
+/**
+ * Batch Prompt Planning
+ * Writes scene descriptions for many sentences per LLM call instead of one call per scene (plus a
+ * second for long-sentence images). Plans are stored on the scene rows (scenes.prompt_plan) up front;
+ * generateSceneForUser uses a plan as long as the scene text still matches it.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { ProjectApi, ProjectSettings, PromptPlan, SceneApi } from '../types';
+import { generateStructured } from './llm';
+import { getProjectSegments } from './segmentation';
+import { CONTEXT_WINDOW, formatStoryBible, getStoryBible } from './storyContext';
+import { batchPromptInstructions, resolveVisualStylePreset } from './visualStyles';
+
+const PLAN_CHUNK_SIZE = 30; // Sentences per call; large enough to save calls, small enough to stay accurate
+const PLAN_CONCURRENCY = 3;
+const LONG_SENTENCE_WORDS = 20;
+
+/**
+ * Whether a scene gets a second image (Long Sentence Break).
+ */
+export function needsSecondImage(text: string, settings: Pick<ProjectSettings, 'longSentenceBreak'>): boolean {
+    return !!settings.longSentenceBreak && text.trim().split(/\s+/).length > LONG_SENTENCE_WORDS;
+}
+
+/**
+ * Plan stored on a scene, if it was made for the scene's current text.
+ */
+export function getPromptPlan(scene: Pick<SceneApi, 'text' | 'prompt_plan'> | null | undefined): PromptPlan | null {
+    if (!scene?.prompt_plan || scene.prompt_plan.text !== scene.text) return null;
+    return scene.prompt_plan.prompts.length > 0 ? scene.prompt_plan : null;
+}
+
+type PlanItem = { index: number; text: string; twoPrompts: boolean };
+
+const PromptPlanSchema = z.object({
+    scenes: z.array(z.object({
+        index: z.number().int(),
+        prompts: z.array(z.string()).min(1).max(2),
+    })),
+});
+
+// Keeps entries for requested sentences with at least one non-empty prompt (two only where asked for)
+function collectPlans(response: z.infer<typeof PromptPlanSchema>, items: PlanItem[]): Map<number, string[]> {
+    const requested = new Map(items.map(item => [item.index, item]));
+    const plans = new Map<number, string[]>();
+
+    for (const entry of response.scenes) {
+        const item = requested.get(entry.index);
+        if (!item) continue;
+
+        const prompts = entry.prompts
+            .map(prompt => prompt.trim())
+            .filter(Boolean)
+            .slice(0, item.twoPrompts ? 2 : 1);
+        if (prompts.length > 0) plans.set(item.index, prompts);
+    }
+
+    return plans;
+}
+
+async function planChunk(instructions: string, bible: string, segments: string[], items: PlanItem[]): Promise<Map<number, string[]>> {
+    const first = items[0].index;
+    const last = items[items.length - 1].index;
+    const before = segments.slice(Math.max(0, first - CONTEXT_WINDOW), first);
+    const after = segments.slice(last + 1, last + 1 + CONTEXT_WINDOW);
+
+    const sections: string[] = [];
+    if (bible) sections.push(`Story bible:\n${bible}`);
+    if (before.length > 0) sections.push(`Previous sentences: ${before.join(' ')}`);
+    sections.push(`Sentences:\n${items.map(item => `[${item.index}]${item.twoPrompts ? ' (two prompts)' : ''} ${item.text}`).join('\n')}`);
+    if (after.length > 0) sections.push(`Following sentences: ${after.join(' ')}`);
+
+    const response = await generateStructured({
+        label: 'prompt_plan',
+        model: 'gpt-4o',
+        system: instructions,
+        user: sections.join('\n\n'),
+        schema: PromptPlanSchema,
+    });
+
+    return collectPlans(response, items);
+}
+
+/**
+ * Plans prompts for the given scene indices that don't have a current plan or a locked prompt, creating pending scene
+ * rows where needed. A chunk that fails or comes back incomplete leaves those scenes unplanned; they
+ * fall back to a per-scene prompt call at generation time. Returns the number of scenes planned.
+ */
+export async function planScenePrompts(
+    supabase: SupabaseClient,
+    userId: string,
+    project: Pick<ProjectApi, 'id' | 'script' | 'segments' | 'story_bible' | 'settings'>,
+    scenes: SceneApi[],
+    indices: number[]
+): Promise<number> {
+    const segments = getProjectSegments(project);
+    const items: PlanItem[] = [];
+
+    for (const index of indices) {
+        const existing = scenes.find(s => s.order_index === index);
+        const text = existing?.text || segments[index];
+        if (!text || getPromptPlan(existing) || existing?.prompt_locked) continue;
+        items.push({ index, text, twoPrompts: needsSecondImage(text, project.settings) });
+    }
+    if (items.length === 0) return 0;
+
+    const preset = await resolveVisualStylePreset(supabase, userId, project.settings.visualStyle);
+    const instructions = batchPromptInstructions(preset);
+    const storyBible = await getStoryBible(supabase, project.id, project);
+    const bible = storyBible ? formatStoryBible(storyBible) : '';
+
+    const chunks: PlanItem[][] = [];
+    for (let i = 0; i < items.length; i += PLAN_CHUNK_SIZE) {
+        chunks.push(items.slice(i, i + PLAN_CHUNK_SIZE));
+    }
+
+    console.log(`[PromptPlanning] Planning ${items.length} scenes in ${chunks.length} chunks for project ${project.id}`);
+    let planned = 0;
+
+    const worker = async () => {
+        for (let chunk = chunks.shift(); chunk; chunk = chunks.shift()) {
+            let plans: Map<number, string[]>;
+            try {
+                plans = await planChunk(instructions, bible, segments, chunk);
+            } catch (e: any) {
+                console.error(`[PromptPlanning] Chunk starting at scene ${chunk[0].index + 1} failed:`, e.message);
+                continue;
+            }
+
+            for (const item of chunk) {
+                const prompts = plans.get(item.index);
+                if (!prompts) continue;
+
+                const promptPlan: PromptPlan = { text: item.text, prompts };
+                const existing = scenes.find(s => s.order_index === item.index);
+                const { error } = existing
+                    ? await supabase.from('scenes').update({ prompt_plan: promptPlan }).eq('id', existing.id)
+                    : await supabase.from('scenes').insert({
+                        project_id: project.id,
+                        order_index: item.index,
+                        text: item.text,
+                        status: 'pending',
+                        prompt_plan: promptPlan,
+                    });
+
+                if (error) {
+                    console.warn(`[PromptPlanning] Failed to store plan for scene ${item.index + 1}:`, error.message);
+                } else {
+                    planned++;
+                }
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(PLAN_CONCURRENCY, chunks.length) }, worker));
+    return planned;
+}
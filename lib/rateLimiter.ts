@@ -0,0 +1,39 @@
+/**
+ * Token bucket rate limiter.
+ * take() resolves once a token is available, so callers queue instead of tripping provider 429s.
+ * State is per server instance.
+ */
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+
+    constructor(
+        private readonly capacity: number,
+        private readonly refillPerSecond: number
+    ) {
+        this.tokens = capacity;
+    }
+
+    private refill() {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+        this.lastRefill = now;
+    }
+
+    public async take(): Promise<void> {
+        for (;;) {
+            this.refill();
+            if (this.tokens >= 1) {
+                this.tokens -= 1;
+                return;
+            }
+            const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+            await new Promise(resolve => setTimeout(resolve, waitMs));
+        }
+    }
+
+    public get available(): number {
+        this.refill();
+        return Math.floor(this.tokens);
+    }
+}
@@ -0,0 +1,49 @@
+/**
+ * Reference Characters
+ * Resolves a project's referenceCharacter to the image the provider receives: the public path of a
+ * built-in character, or the storage URL of a user-uploaded one. Runware uploads of either are
+ * cached in lib/runwareReferences. Uploaded images are fetched server-side, so their URL is always
+ * built from the validated image_path, never read from the row.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { ReferenceCharacterApi } from '../types';
+import { CHARACTER_REFERENCE_MAP } from './constants';
+
+export const CUSTOM_CHARACTER_PREFIX = 'custom:';
+
+/**
+ * Whether a character image path is one of the user's uploads (assets/characters/<userId>/).
+ */
+export function isReferenceCharacterImagePath(path: string, userId: string): boolean {
+    return path.startsWith(`characters/${userId}/`) && !path.split('/').includes('..');
+}
+
+export async function resolveReferenceImage(
+    supabase: SupabaseClient,
+    userId: string,
+    referenceCharacter: string | undefined
+): Promise<string | undefined> {
+    if (!referenceCharacter) return undefined;
+    if (!referenceCharacter.startsWith(CUSTOM_CHARACTER_PREFIX)) {
+        return CHARACTER_REFERENCE_MAP[referenceCharacter];
+    }
+
+    // userId scopes the lookup, since the job runner reads with the service role
+    const { data: character } = await supabase
+        .from('reference_characters')
+        .select('*')
+        .eq('id', referenceCharacter.slice(CUSTOM_CHARACTER_PREFIX.length))
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (!character) {
+        throw new Error('Reference character not found, it may have been deleted');
+    }
+
+    const { image_path: imagePath } = character as ReferenceCharacterApi;
+    if (!isReferenceCharacterImagePath(imagePath, userId)) {
+        throw new Error('Reference character image is invalid');
+    }
+    return supabase.storage.from('assets').getPublicUrl(imagePath).data.publicUrl;
+}
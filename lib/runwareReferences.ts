@@ -0,0 +1,109 @@
+/**
+ * Runware Reference Upload Cache
+ * Reference images must be uploaded to Runware before inference can use them. Uploads are cached by
+ * image content hash + Runware account key (hashed) in runware_reference_uploads, so each reference
+ * is uploaded once per account and reused across scenes and projects until it expires.
+ */
+
+import { createHash } from 'crypto';
+import { createClient as createAdminClient } from '@supabase/supabase-js';
+import { Runware } from '@runware/sdk-js';
+
+const supabaseAdmin = createAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+// Uploaded images are not kept by Runware forever; re-upload after this
+const REFERENCE_TTL_MS = (Number(process.env.RUNWARE_REFERENCE_TTL_DAYS) || 7) * 24 * 60 * 60 * 1000;
+
+type CachedReference = { imageUUID: string; contentHash: string; expiresAt: number };
+
+// Per-process layer keyed by account + URL, so warm scenes skip the image download entirely
+const memoryCache = new Map<string, CachedReference>();
+const pendingUploads = new Map<string, Promise<CachedReference>>();
+
+function sha256(data: string | Buffer): string {
+    return createHash('sha256').update(data).digest('hex');
+}
+
+async function uploadReference(runware: InstanceType<typeof Runware>, keyHash: string, imageUrl: string): Promise<CachedReference> {
+    console.log(`Fetching reference image via HTTP: ${imageUrl}`);
+    const imageResponse = await fetch(imageUrl);
+    if (!imageResponse.ok) {
+        throw new Error(`Failed to fetch image: ${imageResponse.status}`);
+    }
+
+    const imageBuffer = Buffer.from(await imageResponse.arrayBuffer());
+    const contentHash = sha256(imageBuffer);
+
+    const { data: cached } = await supabaseAdmin
+        .from('runware_reference_uploads')
+        .select('image_uuid, expires_at')
+        .eq('content_hash', contentHash)
+        .eq('key_hash', keyHash)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+    if (cached) {
+        return { imageUUID: cached.image_uuid, contentHash, expiresAt: new Date(cached.expires_at).getTime() };
+    }
+
+    const contentType = imageResponse.headers.get('content-type') || 'image/png';
+    const dataUri = `data:${contentType};base64,${imageBuffer.toString('base64')}`;
+    const uploadResult = await runware.imageUpload({ image: dataUri });
+    if (!uploadResult || !uploadResult.imageUUID) {
+        throw new Error("Runware upload returned no imageUUID");
+    }
+
+    const imageUUID = String(uploadResult.imageUUID);
+    const expiresAt = Date.now() + REFERENCE_TTL_MS;
+    console.log(`Uploaded Reference Image UUID: ${imageUUID}`);
+
+    const { error } = await supabaseAdmin
+        .from('runware_reference_uploads')
+        .upsert({ content_hash: contentHash, key_hash: keyHash, image_uuid: imageUUID, expires_at: new Date(expiresAt).toISOString() });
+    if (error) console.warn('[RunwareReferences] Failed to persist upload:', error.message);
+
+    return { imageUUID, contentHash, expiresAt };
+}
+
+/**
+ * Runware imageUUID for a reference image URL, uploading it only when this account has no live upload
+ * of the same image. Concurrent scenes share one upload.
+ */
+export async function getRunwareReferenceUUID(runware: InstanceType<typeof Runware>, apiKey: string, imageUrl: string): Promise<string> {
+    const keyHash = sha256(apiKey);
+    const cacheKey = `${keyHash}:${imageUrl}`;
+
+    const remembered = memoryCache.get(cacheKey);
+    if (remembered && remembered.expiresAt > Date.now()) return remembered.imageUUID;
+
+    let pending = pendingUploads.get(cacheKey);
+    if (!pending) {
+        pending = uploadReference(runware, keyHash, imageUrl).finally(() => pendingUploads.delete(cacheKey));
+        pendingUploads.set(cacheKey, pending);
+    }
+
+    const reference = await pending;
+    memoryCache.set(cacheKey, reference);
+    return reference.imageUUID;
+}
+
+/**
+ * Drops a cached upload that Runware no longer accepts, so the next scene uploads it again.
+ */
+export async function invalidateRunwareReference(apiKey: string, imageUrl: string): Promise<void> {
+    const keyHash = sha256(apiKey);
+    const cacheKey = `${keyHash}:${imageUrl}`;
+    const remembered = memoryCache.get(cacheKey);
+    memoryCache.delete(cacheKey);
+
+    if (remembered) {
+        await supabaseAdmin
+            .from('runware_reference_uploads')
+            .delete()
+            .eq('content_hash', remembered.contentHash)
+            .eq('key_hash', keyHash);
+    }
+}
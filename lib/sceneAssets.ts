@@ -0,0 +1,200 @@
+/**
+ * Scene Asset History
+ * Every generated image and audio take is recorded in scene_assets, so regenerating never loses the
+ * previous result: the scene panel lists the takes and can switch the scene back to any of them.
+ * Takes that are not on their scene are removed (row + storage file) after a retention period.
+ * Only server code writes the history (service role): callers verify the scene is the user's first.
+ */
+
+import { createClient as createAdminClient } from '@supabase/supabase-js';
+import { SceneApi, SceneAssetApi, SceneAssetKind } from '../types';
+
+const supabaseAdmin = createAdminClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
+
+const RETENTION_MS = (Number(process.env.SCENE_ASSET_RETENTION_DAYS) || 30) * 24 * 60 * 60 * 1000;
+const GC_BATCH_SIZE = 500;
+const GC_TIME_BUDGET_MS = 240 * 1000; // Stays inside the maintenance route's maxDuration; the next run carries on
+const PUBLIC_ASSETS_PATH = '/storage/v1/object/public/assets/';
+
+// Scene columns each kind of take is shown from
+export const SCENE_ASSET_SLOTS: Record<SceneAssetKind, 'image_url' | 'image_url_2' | 'audio_url'> = {
+    image: 'image_url',
+    image_2: 'image_url_2',
+    audio: 'audio_url',
+};
+
+export type SceneAssetTake = Pick<SceneAssetApi, 'url'> & Partial<Pick<SceneAssetApi, 'prompt' | 'provider' | 'duration' | 'word_timings'>>;
+
+// The take a scene row currently shows for a slot, as it would have been recorded
+function currentTake(scene: SceneApi, kind: SceneAssetKind): SceneAssetTake | null {
+    if (kind === 'audio') {
+        return scene.audio_url ? { url: scene.audio_url, duration: scene.duration, word_timings: scene.word_timings } : null;
+    }
+    if (kind === 'image_2') {
+        return scene.image_url_2 ? { url: scene.image_url_2, provider: scene.image_provider_2 } : null;
+    }
+    return scene.image_url && scene.media_type !== 'video'
+        ? { url: scene.image_url, prompt: scene.prompt, provider: scene.image_provider }
+        : null;
+}
+
+/**
+ * Records a new take for a scene. `scene` is the row as it was before the take replaced its slot;
+ * if that slot's take predates the history (older scenes) it is recorded first so it can be restored.
+ * The scene must already be verified as the user's. Never throws: a history problem must not fail generation.
+ */
+export async function recordSceneAsset(
+    userId: string,
+    scene: SceneApi,
+    kind: SceneAssetKind,
+    take: SceneAssetTake
+): Promise<void> {
+    try {
+        const rows: SceneAssetTake[] = [];
+
+        const previous = currentTake(scene, kind);
+        if (previous && previous.url !== take.url) {
+            const { count } = await supabaseAdmin
+                .from('scene_assets')
+                .select('id', { count: 'exact', head: true })
+                .eq('scene_id', scene.id)
+                .eq('url', previous.url);
+            if (!count) rows.push(previous);
+        }
+        rows.push(take);
+
+        const { error } = await supabaseAdmin.from('scene_assets').insert(rows.map(row => ({
+            scene_id: scene.id,
+            project_id: scene.project_id,
+            user_id: userId,
+            kind,
+            url: row.url,
+            prompt: row.prompt ?? null,
+            provider: row.provider ?? null,
+            duration: row.duration ?? null,
+            word_timings: row.word_timings ?? null,
+        })));
+        if (error) throw error;
+    } catch (e: any) {
+        console.warn(`[SceneAssets] Failed to record ${kind} take for scene ${scene.id}:`, e.message);
+    }
+}
+
+// Storage path of a file in the public assets bucket, or null for external URLs (stock video, provider CDNs)
+function storagePathFromUrl(url: string): string | null {
+    const start = url.indexOf(PUBLIC_ASSETS_PATH);
+    if (start === -1) return null;
+    return decodeURIComponent(url.slice(start + PUBLIC_ASSETS_PATH.length).split('?')[0]);
+}
+
+/**
+ * Copies a file of the assets bucket into another project's folder and returns the copy's public URL,
+ * so the copy survives the source project's deletion and garbage collection. External URLs (stock
+ * video, provider CDNs) are returned as they are.
+ */
+export async function copyAssetToProject(url: string, projectId: string): Promise<string> {
+    const path = storagePathFromUrl(url);
+    if (!path) return url;
+
+    const target = `${projectId}/${path.split('/').slice(1).join('/') || path}`;
+    const { error } = await supabaseAdmin.storage.from('assets').copy(path, target);
+    if (error) throw new Error(`Failed to copy ${path}: ${error.message}`);
+
+    return supabaseAdmin.storage.from('assets').getPublicUrl(target).data.publicUrl;
+}
+
+// Storage path of a take's file if it lies in its own project's folder; anything else is never deleted
+function ownStoragePath(url: string, projectId: string): string | null {
+    const path = storagePathFromUrl(url);
+    if (!path || !path.startsWith(`${projectId}/`) || path.split('/').some(part => part === '..' || part === '.')) return null;
+    return path;
+}
+
+// URLs of the given takes that some scene still shows. Splitting and merging move files between scenes
+// while their takes stay with the original scene, so a take off its own scene may still be on screen.
+async function urlsStillShown(urls: string[]): Promise<Set<string>> {
+    const shown = new Set<string>();
+    const batchSize = 50; // Keeps the filter inside the request URL limit
+
+    for (let i = 0; i < urls.length; i += batchSize) {
+        const batch = urls.slice(i, i + batchSize);
+        for (const slot of Object.values(SCENE_ASSET_SLOTS)) {
+            const { data, error } = await supabaseAdmin.from('scenes').select(slot).in(slot, batch);
+            if (error) throw error;
+            for (const scene of data || []) shown.add((scene as Record<string, string>)[slot]);
+        }
+    }
+
+    return shown;
+}
+
+/**
+ * Deletes takes older than the retention period that are not on their scene, with their storage
+ * files. Pages through the old takes oldest first (takes still on their scene are skipped, never
+ * deleted) until a short page or the time budget; returns how many were removed. Files another
+ * scene still shows are kept.
+ */
+export async function collectUnselectedSceneAssets(): Promise<number> {
+    const cutoff = new Date(Date.now() - RETENTION_MS).toISOString();
+    const startedAt = Date.now();
+    let cursor: { created_at: string; id: string } | null = null;
+    let removed = 0;
+
+    while (Date.now() - startedAt < GC_TIME_BUDGET_MS) {
+        let query = supabaseAdmin
+            .from('scene_assets')
+            .select('id, project_id, kind, url, created_at, scenes!inner(image_url, image_url_2, audio_url)')
+            .lt('created_at', cutoff);
+        if (cursor) {
+            query = query.or(`created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`);
+        }
+
+        const { data: assets, error } = await query
+            .order('created_at')
+            .order('id')
+            .limit(GC_BATCH_SIZE);
+
+        if (error) throw error;
+        if (!assets || assets.length === 0) break;
+
+        const last = assets[assets.length - 1];
+        cursor = { created_at: last.created_at, id: last.id };
+
+        const unselected = assets.filter(asset => {
+            const scene = asset.scenes as unknown as Pick<SceneApi, 'image_url' | 'image_url_2' | 'audio_url'>;
+            return scene[SCENE_ASSET_SLOTS[asset.kind as SceneAssetKind]] !== asset.url;
+        });
+
+        if (unselected.length > 0) {
+            const shown = await urlsStillShown(Array.from(new Set(unselected.map(asset => asset.url))));
+            const paths = unselected
+                .filter(asset => !shown.has(asset.url))
+                .map(asset => ownStoragePath(asset.url, asset.project_id))
+                .filter((path): path is string => !!path);
+
+            // Delete files in batches (Supabase has a limit)
+            const batchSize = 100;
+            for (let i = 0; i < paths.length; i += batchSize) {
+                const { error: removeError } = await supabaseAdmin.storage.from('assets').remove(paths.slice(i, i + batchSize));
+                if (removeError) console.error('[SceneAssets] Failed to remove files:', removeError.message);
+            }
+
+            const { error: deleteError } = await supabaseAdmin
+                .from('scene_assets')
+                .delete()
+                .in('id', unselected.map(asset => asset.id));
+
+            if (deleteError) throw deleteError;
+
+            console.log(`[SceneAssets] Removed ${unselected.length} unselected takes (${paths.length} files)`);
+            removed += unselected.length;
+        }
+
+        if (assets.length < GC_BATCH_SIZE) break;
+    }
+
+    return removed;
+}
@@ -0,0 +1,338 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { SceneApi, ProjectSettings } from '../types';
+import { generateImage, ImageResult, resolveImageRoute } from './imageProviders';
+import { chooseImageCandidate, generateImageCandidates, imageCandidateCount, sceneCreditCost } from './imageCandidates';
+import { synthesize } from './ttsProviders';
+import { resolveReferenceImage } from './referenceCharacters';
+import { buildPromptWriterInput, loadSceneContext } from './storyContext';
+import { getPromptPlan, needsSecondImage } from './promptPlanning';
+import { buildStyledPrompt, resolveVisualStylePreset, ScenePromptSchema } from './visualStyles';
+import { generateStructured } from './llm';
+import { recordSceneAsset } from './sceneAssets';
+import { refundCredits, reserveCredits } from './credits';
+
+/**
+ * Generates one scene (prompt, image or stock video, narration) and charges its credits (more in candidates mode),
+ * reserved before generating and refunded if it fails.
+ * Shared by the generateScene action (session client) and the batch job runner (service-role client).
+ * Throws on failure after marking the scene row as 'error'.
+ */
+export async function generateSceneForUser(
+    supabase: SupabaseClient,
+    userId: string,
+    projectId: string,
+    sceneIndex: number,
+    text: string,
+    settings: ProjectSettings,
+): Promise<SceneApi> {
+    console.log(`Generating Scene ${sceneIndex} for Project ${projectId}`);
+
+    // 2. Reserve Credits (more in candidates mode); what goes unused is refunded
+    const candidateCount = imageCandidateCount(settings);
+    const reservedCredits = sceneCreditCost(candidateCount);
+    if (!await reserveCredits(userId, reservedCredits)) {
+        throw new Error("Insufficient credits");
+    }
+
+    let newScene: SceneApi | undefined;
+
+    try {
+        // 3. Check for Existing Scene by order_index (for Continue/Fix scenarios)
+        const { data: existingScenes } = await supabase
+            .from('scenes')
+            .select()
+            .eq('project_id', projectId)
+            .eq('order_index', sceneIndex);
+
+        if (existingScenes && existingScenes.length > 0) {
+            // Update existing scene
+            console.log(`Updating existing scene at index ${sceneIndex} `);
+            const { data: updatedScene, error: updateError } = await supabase
+                .from('scenes')
+                .update({
+                    text,
+                    status: 'pending'
+                })
+                .eq('id', existingScenes[0].id)
+                .select()
+                .single();
+
+            if (updateError) throw updateError;
+            newScene = updatedScene as SceneApi;
+        } else {
+            // Insert new scene
+            console.log(`Creating new scene at index ${sceneIndex}`);
+            const { data: insertedScene, error: initError } = await supabase
+                .from('scenes')
+                .insert({
+                    project_id: projectId,
+                    order_index: sceneIndex,
+                    text,
+                    status: 'pending'
+                })
+                .select()
+                .single();
+
+            if (initError) throw initError;
+            newScene = insertedScene as SceneApi;
+        }
+
+        // 4. Simple Scene Description: a locked user prompt as is, else planned ahead (lib/promptPlanning), else one OpenAI call
+        const preset = await resolveVisualStylePreset(supabase, userId, settings.visualStyle);
+        const lockedPrompt = newScene.prompt_locked ? newScene.prompt : null;
+        const plan = lockedPrompt ? null : getPromptPlan(newScene);
+        let simplePrompt: string;
+
+        if (lockedPrompt) {
+            console.log(`Using locked prompt for scene ${sceneIndex}`);
+            simplePrompt = lockedPrompt;
+        } else if (plan) {
+            console.log(`Using planned prompt for scene ${sceneIndex}`);
+            simplePrompt = plan.prompts[0];
+        } else {
+            const context = await loadSceneContext(supabase, projectId, sceneIndex);
+            const { prompt } = await generateStructured({
+                label: 'scene_prompt',
+                model: "gpt-4o",
+                system: preset.promptInstructions,
+                user: buildPromptWriterInput(text, context),
+                schema: ScenePromptSchema,
+            });
+            simplePrompt = prompt;
+        }
+
+        // 5. Build Full Styled Prompt (a locked prompt is already the full prompt)
+        const fullPrompt = lockedPrompt || buildStyledPrompt(preset, simplePrompt);
+
+        // 6. Generate Audio (provider resolved from the voice)
+        let audioUrl = newScene?.audio_url || "";
+        let audioDuration = newScene?.duration || 5;
+        let wordTimings = newScene?.word_timings ?? null;
+
+        if (!audioUrl) {
+            console.log(`Generating Audio with Voice: ${settings.audioVoice}`);
+            try {
+                const audioResult = await synthesize(text, settings.audioVoice, projectId, sceneIndex, { language: settings.language });
+                audioUrl = audioResult.url;
+                audioDuration = audioResult.duration;
+                wordTimings = audioResult.wordTimings ?? null;
+            } catch (e: any) {
+                console.error("Audio Generation Failed:", e);
+                throw new Error(`Audio Gen Failed: ${e.message}`);
+            }
+        } else {
+            console.log(`Skipping TTS, preserving existing audio URL for scene ${sceneIndex}`);
+        }
+
+        // 7. Check for Stock Video (Stock+AI_Natural Mode)
+        let mediaType: 'image' | 'video' = 'image';
+        let attribution: string | null = null;
+        let stockVideoUrl: string | null = null;
+        let imageUrl = "";
+
+        if ((settings.visualStyle === 'stock_natural' || settings.visualStyle === 'stock_vector' || settings.visualStyle === 'stock_art') && (sceneIndex % 2 === 0)) {
+            // Check usage limit (200 stock videos per project)
+            const { count } = await supabase
+                .from('scenes')
+                .select('*', { count: 'exact', head: true })
+                .eq('project_id', projectId)
+                .eq('media_type', 'video');
+
+            if ((count || 0) < 200) {
+                // Try to fetch stock video
+                console.log(`Attempting to fetch Pexels video for: "${simplePrompt}"`);
+                const { searchPexelsVideo } = await import('./pexels');
+                const orientation = settings.aspectRatio === '9:16' ? 'portrait' : 'landscape';
+                const pexelsResult = await searchPexelsVideo(simplePrompt, orientation);
+
+                if (pexelsResult) {
+                    console.log(`Found Pexels video: ${pexelsResult.url}`);
+                    stockVideoUrl = pexelsResult.url;
+                    mediaType = 'video';
+                    attribution = pexelsResult.attribution;
+                } else {
+                    console.log("No Pexels video found, falling back to AI image.");
+                }
+            }
+        }
+
+        // 8. Generate Image or Use Stock
+        const referenceImage = preset.usesReferenceImage
+            ? await resolveReferenceImage(supabase, userId, settings.referenceCharacter)
+            : undefined;
+        const imageRoute = resolveImageRoute(settings.imageModel, preset, referenceImage, settings.imageFallbacks);
+        let imageProvider: string | null = null;
+        let imageCandidates: ImageResult[] = [];
+        let candidatesPending = false;
+
+        if (mediaType === 'image') {
+            console.log(`Generating Image with Model: ${settings.imageModel || 'fal'}${candidateCount > 1 ? ` (${candidateCount} candidates)` : ''}`);
+            try {
+                imageCandidates = await generateImageCandidates(imageRoute, {
+                    prompt: fullPrompt,
+                    projectId,
+                    sceneIndex,
+                    aspectRatio: settings.aspectRatio
+                }, candidateCount);
+
+                const choice = await chooseImageCandidate(simplePrompt, imageCandidates, settings);
+                imageUrl = imageCandidates[choice.index].url;
+                imageProvider = imageCandidates[choice.index].providerId;
+                candidatesPending = choice.needsPick;
+            } catch (e: any) {
+                console.error("Image Generation Failed:", e);
+                throw new Error(`Image Gen Failed: ${e.message}`);
+            }
+        } else {
+            // Use stock video as the "image_url" (visual asset)
+            imageUrl = stockVideoUrl!;
+        }
+
+        // 8.5. Check if we need a second image (Long Sentence Break)
+        let imageUrl2: string | null = null;
+        let imageProvider2: string | null = null;
+        let imagePrompt2: string | null = null;
+        if (needsSecondImage(text, settings) && mediaType === 'image') {
+            console.log('Long scene - generating second image for variety');
+            try {
+                let simplePrompt2 = plan?.prompts[1];
+                if (!simplePrompt2) {
+                    // Generate a different prompt for the second image
+                    const { prompt } = await generateStructured({
+                        label: 'second_image_prompt',
+                        model: 'gpt-4o-mini',
+                        system: 'You are a prompt generator for visual scenes. Generate a visual scene description that is DIFFERENT from the first one but still related to the same topic. Return a JSON object of the form {"prompt": "..."} with a single sentence visual description.',
+                        user: `Create a second, different visual description for: ${text}. Make it complementary but different from: ${simplePrompt}`,
+                        schema: ScenePromptSchema,
+                        temperature: 0.9, // Higher temp for more variety
+                    });
+                    simplePrompt2 = prompt;
+                }
+
+                const fullPrompt2 = buildStyledPrompt(preset, simplePrompt2);
+
+                console.log('Generating second image with different prompt:', simplePrompt2);
+
+                // Generate second image through the same provider route
+                const result2 = await generateImage(imageRoute, {
+                    prompt: fullPrompt2,
+                    projectId,
+                    sceneIndex: sceneIndex + 0.5,
+                    aspectRatio: settings.aspectRatio
+                });
+                imageUrl2 = result2.url;
+                imageProvider2 = result2.providerId;
+                imagePrompt2 = fullPrompt2;
+
+                console.log('Second image generated successfully:', imageUrl2);
+            } catch (e: any) {
+                console.error('Failed to generate second image:', e);
+                // Continue with single image if second generation fails
+            }
+        }
+
+        // 9. Update Scene to Ready
+        const { error: updateError } = await supabase
+            .from('scenes')
+            .update({
+                prompt: fullPrompt,
+                image_url: imageUrl,
+                image_url_2: imageUrl2, // Second image for long sentences
+                image_provider: imageProvider,
+                image_provider_2: imageProvider2,
+                audio_url: audioUrl,
+                duration: audioDuration,
+                word_timings: wordTimings,
+                status: 'ready',
+                media_type: mediaType,
+                attribution: attribution,
+                stale_assets: [],
+                candidates_pending: candidatesPending
+            })
+            .eq('id', newScene.id);
+
+        if (updateError) throw updateError;
+
+        // 9.5. Keep the new takes in the scene's asset history (newScene still holds the replaced ones)
+        for (const candidate of imageCandidates) {
+            await recordSceneAsset(userId, newScene, 'image', { url: candidate.url, prompt: fullPrompt, provider: candidate.providerId });
+        }
+        if (imageUrl2) {
+            await recordSceneAsset(userId, newScene, 'image_2', { url: imageUrl2, prompt: imagePrompt2, provider: imageProvider2 });
+        }
+        if (audioUrl !== newScene.audio_url) {
+            await recordSceneAsset(userId, newScene, 'audio', { url: audioUrl, duration: audioDuration, word_timings: wordTimings });
+        }
+
+        // 10. Settle Credits (extra candidate images are charged only if they were generated)
+        const creditCost = sceneCreditCost(imageCandidates.length);
+        console.log(`Charged ${creditCost} credit(s) for ${userId}`);
+        await refundCredits(userId, reservedCredits - creditCost);
+
+        return {
+            ...newScene,
+            status: 'ready',
+            image_url: imageUrl,
+            image_url_2: imageUrl2,
+            image_provider: imageProvider,
+            image_provider_2: imageProvider2,
+            audio_url: audioUrl,
+            duration: audioDuration,
+            word_timings: wordTimings,
+            prompt: fullPrompt,
+            media_type: mediaType,
+            attribution,
+            stale_assets: [],
+            candidates_pending: candidatesPending
+        };
+
+    } catch (genError: any) {
+        console.error("Scene Generation Failed:", genError);
+        await refundCredits(userId, reservedCredits);
+        // Update the pending scene to show error status
+        if (newScene?.id) {
+            await supabase.from('scenes').update({ status: 'error' }).eq('id', newScene.id);
+        }
+        throw genError;
+    }
+}
+
+/**
+ * Synthesizes narration for a scene that already has its visuals (translated projects) and marks it ready.
+ * Like regenerating audio, this costs no credits. Throws on failure after marking the scene row as 'error'.
+ */
+export async function narrateSceneForUser(
+    supabase: SupabaseClient,
+    userId: string,
+    scene: SceneApi,
+    settings: ProjectSettings,
+): Promise<SceneApi> {
+    console.log(`Narrating Scene ${scene.order_index} for Project ${scene.project_id}`);
+
+    try {
+        const { url, duration, wordTimings } = await synthesize(scene.text, settings.audioVoice, scene.project_id, scene.order_index, { language: settings.language });
+
+        const { data: updatedScene, error: updateError } = await supabase
+            .from('scenes')
+            .update({
+                audio_url: url,
+                duration,
+                word_timings: wordTimings ?? null,
+                status: 'ready',
+                stale_assets: (scene.stale_assets || []).filter(asset => asset !== 'audio')
+            })
+            .eq('id', scene.id)
+            .select()
+            .single();
+
+        if (updateError) throw updateError;
+
+        await recordSceneAsset(userId, scene, 'audio', { url, duration, word_timings: wordTimings ?? null });
+
+        return updatedScene as SceneApi;
+    } catch (genError: any) {
+        console.error("Scene Narration Failed:", genError);
+        await supabase.from('scenes').update({ status: 'error' }).eq('id', scene.id);
+        throw genError;
+    }
+}
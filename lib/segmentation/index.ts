@@ -0,0 +1,157 @@
+/**
+ * Script Segmentation
+ * Turns a script into scene texts: abbreviation-aware sentence splitting, then run-on sentences are
+ * split and tiny fragments merged so every scene stays within a word range. Text written without spaces
+ * (Chinese, Japanese) is measured and split by characters instead.
+ * Segments are persisted on the project at creation (projects.segments) so scene boundaries are stable.
+ */
+
+import { splitSentences } from './sentences';
+
+export { splitSentences } from './sentences';
+
+export type SegmentationOptions = {
+    minWords: number; // Shorter fragments are merged into a neighbour
+    maxWords: number; // Longer sentences are split at clause boundaries
+};
+
+export const DEFAULT_SEGMENTATION: SegmentationOptions = {
+    minWords: 3,
+    maxWords: 40,
+};
+
+// Words a run-on sentence may be split before
+const CONJUNCTIONS = new Set(['and', 'but', 'so', 'because', 'while', 'which', 'who', 'when', 'although', 'though', 'yet', 'or', 'then']);
+
+// Chinese / Japanese characters (kana and CJK ideographs); such text is written without spaces
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+const CJK_CHARS_PER_WORD = 2; // Roughly the characters read aloud in the time of an English word
+// Clause punctuation an unspaced sentence may be split after
+const CJK_CLAUSE_MARKS = '，、；：,;:';
+
+function countWords(text: string): number {
+    const cjkChars = text.match(CJK_CHAR)?.length ?? 0;
+    if (cjkChars === 0) return text.split(/\s+/).filter(Boolean).length;
+    return text.replace(CJK_CHAR, ' ').split(/\s+/).filter(Boolean).length + Math.ceil(cjkChars / CJK_CHARS_PER_WORD);
+}
+
+// Joins two pieces of text, without a space between Chinese / Japanese text
+function joinText(first: string, second: string): string {
+    const unspaced = /[\u3000-\u303f\uff00-\uffef]$/.test(first) || new RegExp(`${CJK_CHAR.source}$`).test(first);
+    return unspaced && new RegExp(`^${CJK_CHAR.source}`).test(second) ? `${first}${second}` : `${first} ${second}`;
+}
+
+/**
+ * Splits an over-long sentence written without spaces into pieces within maxWords (in characters,
+ * see CJK_CHARS_PER_WORD), preferring clause punctuation closest to the middle; falls back to an even split.
+ */
+function splitUnspaced(sentence: string, options: SegmentationOptions): string[] {
+    const chars = Array.from(sentence);
+    const minChars = options.minWords * CJK_CHARS_PER_WORD;
+    const middle = chars.length / 2;
+    let best = -1;
+    let bestScore = Infinity;
+
+    for (let i = minChars; i <= chars.length - minChars; i++) {
+        if (!CJK_CLAUSE_MARKS.includes(chars[i - 1])) continue;
+        const score = Math.abs(i - middle);
+        if (score < bestScore) {
+            best = i;
+            bestScore = score;
+        }
+    }
+
+    const at = best > 0 ? best : Math.ceil(middle);
+    return [
+        ...splitRunOn(chars.slice(0, at).join(''), options),
+        ...splitRunOn(chars.slice(at).join(''), options),
+    ];
+}
+
+/**
+ * Splits an over-long sentence into pieces of at most maxWords, preferring clause punctuation,
+ * then conjunctions, closest to the middle; falls back to an even split.
+ */
+function splitRunOn(sentence: string, { minWords, maxWords }: SegmentationOptions): string[] {
+    if (!/\s/.test(sentence) && countWords(sentence) > maxWords) {
+        return splitUnspaced(sentence, { minWords, maxWords });
+    }
+
+    const words = sentence.split(/\s+/).filter(Boolean);
+    if (words.length <= maxWords) return [sentence];
+
+    const middle = words.length / 2;
+    let best = -1;
+    let bestScore = Infinity;
+
+    for (let i = minWords; i <= words.length - minWords; i++) {
+        const afterClause = /[,;:—–-]$/.test(words[i - 1]);
+        const beforeConjunction = CONJUNCTIONS.has(words[i].toLowerCase().replace(/[^a-z]/g, ''));
+        if (!afterClause && !beforeConjunction) continue;
+
+        // Punctuation is a stronger break than a bare conjunction
+        const score = Math.abs(i - middle) + (afterClause ? 0 : 2);
+        if (score < bestScore) {
+            best = i;
+            bestScore = score;
+        }
+    }
+
+    const at = best > 0 ? best : Math.ceil(middle);
+    return [
+        ...splitRunOn(words.slice(0, at).join(' '), { minWords, maxWords }),
+        ...splitRunOn(words.slice(at).join(' '), { minWords, maxWords }),
+    ];
+}
+
+// Merges fragments shorter than minWords into the following segment (or the previous one, at the end)
+function mergeFragments(sentences: string[], { minWords, maxWords }: SegmentationOptions): string[] {
+    const segments = [...sentences];
+    const merged: string[] = [];
+
+    for (let i = 0; i < segments.length; i++) {
+        const segment = segments[i];
+        const next = segments[i + 1];
+
+        if (countWords(segment) < minWords) {
+            if (next !== undefined && countWords(segment) + countWords(next) <= maxWords) {
+                segments[i + 1] = joinText(segment, next);
+                continue;
+            }
+            const previous = merged[merged.length - 1];
+            if (previous !== undefined && countWords(previous) + countWords(segment) <= maxWords) {
+                merged[merged.length - 1] = joinText(previous, segment);
+                continue;
+            }
+        }
+
+        merged.push(segment);
+    }
+
+    return merged;
+}
+
+/**
+ * Splits a script into scene texts.
+ */
+export function segmentScript(script: string, options: Partial<SegmentationOptions> = {}): string[] {
+    const resolved = { ...DEFAULT_SEGMENTATION, ...options };
+    const sentences = splitSentences(script).flatMap(sentence => splitRunOn(sentence, resolved));
+    return mergeFragments(sentences, resolved);
+}
+
+/**
+ * Scene texts for a project: the segments persisted at creation, or for projects created before
+ * segmentation existed, the original sentence regex so their existing scene boundaries don't shift.
+ */
+export function getProjectSegments(project: { script: string; segments?: string[] | null }): string[] {
+    if (project.segments && project.segments.length > 0) return project.segments;
+    return (project.script.match(/[^.!?]+[.!?]+/g) || [project.script]).map(sentence => sentence.trim());
+}
+
+/**
+ * The raw script for a project's scene texts in order (projects.script is rebuilt from them after edits).
+ */
+export function scriptFromSegments(segments: string[]): string {
+    return segments.filter(Boolean).join(' ');
+}
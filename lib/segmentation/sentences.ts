@@ -0,0 +1,113 @@
+// Abbreviations whose trailing period never ends a sentence (compared lowercase, without the period)
+const ABBREVIATIONS = new Set([
+    'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'ft', 'rev', 'gen', 'col', 'capt', 'lt', 'sgt',
+    'sen', 'rep', 'gov', 'pres', 'hon', 'vs', 'v', 'e.g', 'i.e', 'cf', 'approx', 'est', 'no', 'vol', 'fig',
+    'inc', 'ltd', 'co', 'corp', 'dept', 'univ', 'ave', 'blvd', 'rd',
+    'jan', 'feb', 'mar', 'apr', 'jun', 'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec',
+    'a.m', 'p.m', 'u.s', 'u.k', 'u.n', 'e.u', 'u.s.a', 'ph.d', 'b.c', 'a.d',
+]);
+
+// Abbreviations that end a sentence when the next word is capitalised ("... and so on, etc. Then ...")
+const SENTENCE_FINAL_ABBREVIATIONS = new Set(['etc']);
+
+// Full-width (Chinese / Japanese) terminators end a sentence without a space after them
+const CJK_TERMINATORS = '。！？';
+const TERMINATORS = `.!?…${CJK_TERMINATORS}`;
+const CLOSERS = '"\'”’)]}»」』）】';
+const OPENERS = '"\'“‘([{«¿¡「『（【';
+
+function previousToken(text: string, end: number): string {
+    let start = end;
+    while (start > 0 && !/\s/.test(text[start - 1])) start--;
+    // Strip leading quotes / brackets: ("Dr. -> Dr
+    let token = text.slice(start, end);
+    while (token && OPENERS.includes(token[0])) token = token.slice(1);
+    return token;
+}
+
+function startsSentence(text: string, from: number): boolean {
+    let i = from;
+    while (i < text.length && /\s/.test(text[i])) i++;
+    while (i < text.length && OPENERS.includes(text[i])) i++;
+    if (i >= text.length) return true;
+    const ch = text[i];
+    return /\d/.test(ch) || ch !== ch.toLowerCase();
+}
+
+// Whether the single period at periodIndex ends a sentence
+function isPeriodBoundary(text: string, periodIndex: number, after: number): boolean {
+    const token = previousToken(text, periodIndex).toLowerCase();
+
+    if (ABBREVIATIONS.has(token)) return false;
+    if (SENTENCE_FINAL_ABBREVIATIONS.has(token)) return startsSentence(text, after);
+
+    // Initials ("J. K. Rowling") and dotted acronyms ("U.S.A") read as abbreviations
+    if (/^[a-z]$/.test(token) || /^([a-z]\.)+[a-z]$/.test(token)) return false;
+
+    return true;
+}
+
+/**
+ * Splits text into sentences.
+ * Handles abbreviations (Dr., U.S., e.g.), initials, decimals (3.5), ellipses, trailing quotes /
+ * brackets after the terminator, and keeps trailing text that has no terminal punctuation.
+ * Chinese / Japanese full-width terminators (。！？) are handled too. Blank lines always end a sentence.
+ */
+export function splitSentences(text: string): string[] {
+    const sentences: string[] = [];
+
+    for (const paragraph of text.split(/\n\s*\n/)) {
+        const normalized = paragraph.replace(/\s+/g, ' ').trim();
+        let start = 0;
+        let i = 0;
+
+        while (i < normalized.length) {
+            const ch = normalized[i];
+            if (!TERMINATORS.includes(ch)) {
+                i++;
+                continue;
+            }
+
+            const terminatorStart = i;
+            while (i < normalized.length && TERMINATORS.includes(normalized[i])) i++;
+            const terminator = normalized.slice(terminatorStart, i);
+            const closersStart = i;
+            while (i < normalized.length && CLOSERS.includes(normalized[i])) i++;
+            const quoted = i > closersStart;
+
+            if ([...terminator].some(c => CJK_TERMINATORS.includes(c))) {
+                // 「…。」と言った - a quote runs on when text follows its closing bracket directly
+                if (quoted && i < normalized.length && normalized[i] !== ' ') continue;
+                const sentence = normalized.slice(start, i).trim();
+                if (sentence) sentences.push(sentence);
+                start = i;
+                continue;
+            }
+
+            // Decimals, version numbers, URLs: a boundary needs whitespace (or the end) after it
+            if (i < normalized.length && normalized[i] !== ' ') continue;
+
+            let boundary: boolean;
+            if (terminator === '.') {
+                boundary = isPeriodBoundary(normalized, terminatorStart, i);
+            } else if (terminator === '…' || /^\.{2,}$/.test(terminator)) {
+                // Ellipsis only ends a sentence when the next word starts a new one
+                boundary = startsSentence(normalized, i);
+            } else {
+                // "Really?" she asked. - a quoted question / exclamation continues into a lowercase tag
+                boundary = !quoted || startsSentence(normalized, i);
+            }
+
+            if (boundary) {
+                const sentence = normalized.slice(start, i).trim();
+                if (sentence) sentences.push(sentence);
+                start = i;
+            }
+        }
+
+        const rest = normalized.slice(start).trim();
+        if (rest) sentences.push(rest);
+    }
+
+    return sentences;
+}
@@ -0,0 +1,138 @@
+/**
+ * Story Context
+ * Keeps scene prompts visually consistent: each prompt-writer call gets the neighbouring scene texts
+ * plus the project's story bible (recurring characters, locations, era), extracted once from the
+ * script and stored in projects.story_bible.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { StoryBible } from '../types';
+import { generateStructured } from './llm';
+import { getProjectSegments } from './segmentation';
+
+// Scene texts on each side of the current one sent as context
+export const CONTEXT_WINDOW = 2;
+// Long scripts are cut for bible extraction; the opening establishes most characters and places
+const MAX_BIBLE_SCRIPT_CHARS = 60000;
+
+const STORY_BIBLE_INSTRUCTIONS = `You are a continuity supervisor preparing a video storyboard. Read the script and list what must look the same in every frame.
+
+Return ONLY a JSON object with this shape:
+{
+  "characters": [{ "name": "...", "description": "..." }],
+  "locations": [{ "name": "...", "description": "..." }],
+  "era": "..."
+}
+
+RULES:
+- characters: recurring people or animals, with a short fixed visual description (age, gender, build, hair, clothing)
+- locations: recurring places, with a short visual description
+- era: time period and setting of the story, e.g. "present day, suburban America"
+- Only include what the script states or clearly implies; leave arrays empty if there is nothing recurring
+- Keep every description under 25 words`;
+
+export type SceneContext = {
+    before: string[];
+    after: string[];
+    bible: StoryBible | null;
+};
+
+const StoryBibleSchema = z.object({
+    characters: z.array(z.object({ name: z.string(), description: z.string() })),
+    locations: z.array(z.object({ name: z.string(), description: z.string() })),
+    era: z.string(),
+});
+
+async function extractStoryBible(script: string): Promise<StoryBible> {
+    return await generateStructured({
+        label: 'story_bible',
+        model: 'gpt-4o-mini',
+        system: STORY_BIBLE_INSTRUCTIONS,
+        user: `Script:\n\n${script.slice(0, MAX_BIBLE_SCRIPT_CHARS)}`,
+        schema: StoryBibleSchema,
+        temperature: 0.2,
+    });
+}
+
+// Parallel scenes of one job share a single extraction per project
+const pendingBibles = new Map<string, Promise<StoryBible | null>>();
+
+/**
+ * The project's story bible, extracted and stored on first use. Returns null (prompts are written
+ * without it) if extraction fails, so a bible problem never blocks generation.
+ */
+export async function getStoryBible(supabase: SupabaseClient, projectId: string, project: { script: string; story_bible?: StoryBible | null }): Promise<StoryBible | null> {
+    if (project.story_bible) return project.story_bible;
+    if (!project.script?.trim()) return null;
+
+    let pending = pendingBibles.get(projectId);
+    if (!pending) {
+        pending = (async () => {
+            try {
+                console.log(`[StoryContext] Extracting story bible for project ${projectId}`);
+                const bible = await extractStoryBible(project.script);
+                const { error } = await supabase.from('projects').update({ story_bible: bible }).eq('id', projectId);
+                if (error) console.warn('[StoryContext] Failed to store story bible:', error.message);
+                return bible;
+            } catch (e: any) {
+                console.error('[StoryContext] Story bible extraction failed:', e.message);
+                return null;
+            }
+        })().finally(() => pendingBibles.delete(projectId));
+        pendingBibles.set(projectId, pending);
+    }
+    return await pending;
+}
+
+/**
+ * Neighbouring scene texts and story bible for the scene at sceneIndex.
+ */
+export async function loadSceneContext(supabase: SupabaseClient, projectId: string, sceneIndex: number): Promise<SceneContext> {
+    const { data: project } = await supabase
+        .from('projects')
+        .select('script, segments, story_bible')
+        .eq('id', projectId)
+        .single();
+
+    if (!project) {
+        return { before: [], after: [], bible: null };
+    }
+
+    const segments = getProjectSegments(project);
+    return {
+        before: segments.slice(Math.max(0, sceneIndex - CONTEXT_WINDOW), sceneIndex),
+        after: segments.slice(sceneIndex + 1, sceneIndex + 1 + CONTEXT_WINDOW),
+        bible: await getStoryBible(supabase, projectId, project),
+    };
+}
+
+export function formatStoryBible(bible: StoryBible): string {
+    const lines: string[] = [];
+    if (bible.characters.length > 0) {
+        lines.push('Characters:', ...bible.characters.map(c => `- ${c.name}: ${c.description}`));
+    }
+    if (bible.locations.length > 0) {
+        lines.push('Locations:', ...bible.locations.map(l => `- ${l.name}: ${l.description}`));
+    }
+    if (bible.era) lines.push(`Era: ${bible.era}`);
+    return lines.join('\n');
+}
+
+/**
+ * User message for the prompt writer: story bible and surrounding sentences for continuity,
+ * then the sentence to illustrate.
+ */
+export function buildPromptWriterInput(text: string, context?: SceneContext): string {
+    const sections: string[] = [];
+
+    const bible = context?.bible ? formatStoryBible(context.bible) : '';
+    if (bible) sections.push(`Story bible:\n${bible}`);
+    if (context && context.before.length > 0) sections.push(`Previous sentences: ${context.before.join(' ')}`);
+
+    sections.push(`Sentence: "${text}"`);
+
+    if (context && context.after.length > 0) sections.push(`Following sentences: ${context.after.join(' ')}`);
+
+    return sections.join('\n\n');
+}
@@ -0,0 +1,134 @@
+/**
+ * Subtitle Export
+ * Turns the ready scenes of a render into caption cues on the video's timeline (disclaimer and scene
+ * offsets from remotion/timeline), using the stored word timings where they match the text, and
+ * writes them as SRT, WebVTT or YouTube SBV files for uploading captions separately from the video.
+ */
+
+import { ProjectSettings, SceneApi } from '../types';
+import { captionSeparator, getWordTimings, WordTiming } from '../remotion/captions/utils';
+import { FPS, sceneTimeline } from '../remotion/timeline';
+
+// Broadcast-style limits: two lines of up to 42 characters per cue (16 for text without spaces, e.g. CJK)
+const MAX_LINE_CHARS = 42;
+const MAX_UNSPACED_LINE_CHARS = 16;
+const MAX_CUE_LINES = 2;
+// A pause this long in the narration starts a new cue
+const CUE_GAP_SECONDS = 0.6;
+
+export type SubtitleCue = {
+    start: number; // Seconds from the start of the rendered video
+    end: number;
+    lines: string[];
+};
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'sbv';
+
+// Greedy wrap; a single word longer than a line gets a line of its own
+function wrapWords(words: string[], separator: string): string[] {
+    const maxChars = separator ? MAX_LINE_CHARS : MAX_UNSPACED_LINE_CHARS;
+    const lines: string[] = [];
+    for (const word of words) {
+        const last = lines[lines.length - 1];
+        if (last !== undefined && (last + separator + word).trim().length <= maxChars) {
+            lines[lines.length - 1] = `${last}${separator}${word}`;
+        } else {
+            lines.push(word);
+        }
+    }
+    return lines.map(line => line.trim());
+}
+
+// Groups a scene's words into cues that fit the line limits, breaking at sentence ends and pauses
+function chunkWords(timings: WordTiming[], separator: string): WordTiming[][] {
+    const chunks: WordTiming[][] = [];
+    let current: WordTiming[] = [];
+
+    for (const timing of timings) {
+        const previous = current[current.length - 1];
+        const fits = wrapWords([...current, timing].map(t => t.word), separator).length <= MAX_CUE_LINES;
+        const paused = previous !== undefined && timing.startTime - previous.endTime >= CUE_GAP_SECONDS;
+        if (current.length > 0 && (!fits || paused)) {
+            chunks.push(current);
+            current = [];
+        }
+
+        current.push(timing);
+        if (/[.!?。！？؟]["')\]」』]*\s*$/.test(timing.word)) {
+            chunks.push(current);
+            current = [];
+        }
+    }
+    if (current.length > 0) chunks.push(current);
+
+    return chunks;
+}
+
+/**
+ * Caption cues for the scenes of one render (a full render, or one part with isFirstPart set the
+ * way the render route sets it), timed the same way the burned-in captions are.
+ */
+export function buildSubtitleCues(
+    scenes: Pick<SceneApi, 'text' | 'duration' | 'word_timings'>[],
+    settings: Pick<ProjectSettings, 'disclaimerEnabled'>,
+    isFirstPart?: boolean
+): SubtitleCue[] {
+    const timeline = sceneTimeline(scenes, settings, isFirstPart);
+    const cues: SubtitleCue[] = [];
+
+    scenes.forEach((scene, index) => {
+        const { startFrame, durationInFrames } = timeline[index];
+        const sceneStart = startFrame / FPS;
+        const sceneEnd = (startFrame + durationInFrames) / FPS;
+
+        // Same duration the scene's captions are animated against (remotion/Scene)
+        let d = scene.duration || 5;
+        if (d > 300) { d = d / 1000; }
+
+        const separator = captionSeparator(scene.text || '');
+        for (const chunk of chunkWords(getWordTimings(scene.text || '', d, scene.word_timings), separator)) {
+            const start = Math.min(sceneStart + chunk[0].startTime, sceneEnd);
+            const end = Math.min(sceneStart + chunk[chunk.length - 1].endTime, sceneEnd);
+            if (end <= start) continue;
+            cues.push({ start, end, lines: wrapWords(chunk.map(t => t.word), separator) });
+        }
+    });
+
+    return cues;
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.', padHours: boolean): string {
+    const totalMs = Math.round(seconds * 1000);
+    const hours = Math.floor(totalMs / 3600000);
+    const minutes = Math.floor(totalMs / 60000) % 60;
+    const secs = Math.floor(totalMs / 1000) % 60;
+    const ms = totalMs % 1000;
+    const pad = (value: number, width: number) => String(value).padStart(width, '0');
+    return `${padHours ? pad(hours, 2) : hours}:${pad(minutes, 2)}:${pad(secs, 2)}${separator}${pad(ms, 3)}`;
+}
+
+export function toSrt(cues: SubtitleCue[]): string {
+    return cues
+        .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',', true)} --> ${formatTimestamp(cue.end, ',', true)}\n${cue.lines.join('\n')}\n`)
+        .join('\n');
+}
+
+export function toVtt(cues: SubtitleCue[]): string {
+    const body = cues
+        .map(cue => `${formatTimestamp(cue.start, '.', true)} --> ${formatTimestamp(cue.end, '.', true)}\n${cue.lines.join('\n')}\n`)
+        .join('\n');
+    return `WEBVTT\n\n${body}`;
+}
+
+// YouTube's SubViewer format
+export function toSbv(cues: SubtitleCue[]): string {
+    return cues
+        .map(cue => `${formatTimestamp(cue.start, '.', false)},${formatTimestamp(cue.end, '.', false)}\n${cue.lines.join('\n')}\n`)
+        .join('\n');
+}
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, { extension: string; contentType: string; write: (cues: SubtitleCue[]) => string }> = {
+    srt: { extension: 'srt', contentType: 'application/x-subrip; charset=utf-8', write: toSrt },
+    vtt: { extension: 'vtt', contentType: 'text/vtt; charset=utf-8', write: toVtt },
+    sbv: { extension: 'sbv', contentType: 'text/plain; charset=utf-8', write: toSbv },
+};
@@ -0,0 +1,83 @@
+/**
+ * Translation
+ * Translates a project's scene texts for a translated copy of the project (actions/translateProject),
+ * many scenes per call so names and terms stay consistent across the story. Scene boundaries are kept:
+ * every scene comes back as exactly one translated scene, or the translation fails.
+ */
+
+import { z } from 'zod';
+import { languageLabel } from './constants';
+import { generateStructured } from './llm';
+
+const TRANSLATION_CHUNK_SIZE = 40; // Scenes per call
+const TRANSLATION_CONCURRENCY = 3;
+const TRANSLATION_ATTEMPTS = 2; // Per chunk, when the model drops scenes
+
+const TranslationSchema = z.object({
+    scenes: z.array(z.object({
+        scene: z.number().int(),
+        text: z.string(),
+    })),
+});
+
+function translationInstructions(from: string, to: string): string {
+    return `You translate the narration of short-form videos from ${from} to ${to}.
+
+Each numbered line is one scene of the narration, read aloud by a voice-over while its image is on screen. Translate every scene into natural spoken ${to}, keeping the meaning, tone and pacing. Keep each translation to its own scene: never merge, split, drop or reorder scenes. Write names, numbers and units the way a native ${to} speaker would read them.
+
+Return ONLY a JSON object with this shape:
+{ "scenes": [{ "scene": 0, "text": "..." }] }`;
+}
+
+async function translateChunk(texts: string[], from: string, to: string): Promise<string[]> {
+    for (let attempt = 1; ; attempt++) {
+        const response = await generateStructured({
+            label: 'translation',
+            model: 'gpt-4o',
+            system: translationInstructions(from, to),
+            user: `Scenes:\n${texts.map((text, i) => `[${i}] ${text.replace(/\s+/g, ' ').trim()}`).join('\n')}`,
+            schema: TranslationSchema,
+            temperature: 0.3,
+        });
+
+        const translated = texts.map((_, i) => response.scenes.find(s => s.scene === i)?.text.trim() || '');
+        const missing = translated.filter(text => !text).length;
+        if (missing === 0) return translated;
+
+        if (attempt >= TRANSLATION_ATTEMPTS) {
+            throw new Error(`Translation left ${missing} of ${texts.length} scenes untranslated`);
+        }
+        console.warn(`[Translation] ${missing} scenes missing from the response, retrying chunk`);
+    }
+}
+
+/**
+ * Translates texts (ISO 639-1 language codes), keeping their order. Throws if any chunk fails.
+ */
+export async function translateTexts(texts: string[], from: string, to: string): Promise<string[]> {
+    const chunks: { start: number; texts: string[] }[] = [];
+    for (let i = 0; i < texts.length; i += TRANSLATION_CHUNK_SIZE) {
+        chunks.push({ start: i, texts: texts.slice(i, i + TRANSLATION_CHUNK_SIZE) });
+    }
+
+    const fromLabel = languageLabel(from);
+    const toLabel = languageLabel(to);
+    console.log(`[Translation] Translating ${texts.length} texts from ${fromLabel} to ${toLabel} in ${chunks.length} chunks`);
+
+    const translated: string[] = new Array(texts.length);
+    const worker = async () => {
+        for (let chunk = chunks.shift(); chunk; chunk = chunks.shift()) {
+            let result: string[];
+            try {
+                result = await translateChunk(chunk.texts, fromLabel, toLabel);
+            } catch (e) {
+                chunks.length = 0; // The translation is useless without every chunk; stop the other workers
+                throw e;
+            }
+            result.forEach((text, i) => { translated[chunk!.start + i] = text; });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(TRANSLATION_CONCURRENCY, chunks.length) }, worker));
+    return translated;
+}
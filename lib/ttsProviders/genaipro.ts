@@ -0,0 +1,10 @@
+import { generateGenAIProAudio } from '../genaipro';
+import { TtsProvider } from './types';
+
+// ElevenLabs voices proxied through GenAIPro
+export const genaiproProvider: TtsProvider = {
+    id: 'genaipro',
+    label: 'GenAIPro (ElevenLabs)',
+    synthesize: ({ text, voice, projectId, sceneIndex, speed, language }) =>
+        generateGenAIProAudio(text, voice.id, projectId, sceneIndex, { speed, language }),
+};
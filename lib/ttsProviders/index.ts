@@ -0,0 +1,90 @@
+/**
+ * TTS Provider Registry
+ * Single synthesis entry point for scene narration (generateScene + regenerateAudio)
+ */
+
+import { VOICE_ID_MAP, VOICE_OPTIONS } from '../constants';
+import { TtsProvider, TtsProviderId, TtsRange, TtsResult, VoiceOption } from './types';
+import { minimaxProvider } from './minimax';
+import { genaiproProvider } from './genaipro';
+import { qwenProvider } from './qwen';
+import { alignWordTimings } from '../wordTimings';
+
+export type { TtsProvider, TtsProviderId, TtsRange, TtsRequest, TtsResult, VoiceOption } from './types';
+
+const TTS_PROVIDERS: Record<TtsProviderId, TtsProvider> = {
+    minimax: minimaxProvider,
+    genaipro: genaiproProvider,
+    qwen: qwenProvider,
+};
+
+export function getTtsProvider(id: TtsProviderId): TtsProvider {
+    const provider = TTS_PROVIDERS[id];
+    if (!provider) {
+        throw new Error(`Unknown TTS provider: ${id}`);
+    }
+    return provider;
+}
+
+/**
+ * Looks up a voice by its settings value.
+ * Voices saved on older projects that are no longer listed are routed by their id prefix.
+ */
+export function resolveVoice(audioVoice: string): VoiceOption {
+    const value = VOICE_ID_MAP[audioVoice] || audioVoice;
+    const listed = VOICE_OPTIONS.find(v => v.value === value);
+    if (listed) return listed;
+
+    const base = value.startsWith('genaipro_')
+        ? VOICE_OPTIONS.find(v => v.provider === 'genaipro')!
+        : value.startsWith('qwen_')
+            ? VOICE_OPTIONS.find(v => v.provider === 'qwen')!
+            : VOICE_OPTIONS.find(v => v.provider === 'minimax')!;
+
+    console.warn(`[TTS] Voice ${value} is not in VOICE_OPTIONS, routing to ${base.provider}`);
+    return {
+        ...base,
+        label: value,
+        value,
+        id: base.provider === 'genaipro' ? value.replace('genaipro_', '') : value
+    };
+}
+
+function clamp(value: number | undefined, range: TtsRange | null): number | undefined {
+    if (!range) return undefined;
+    if (value === undefined) return range.default;
+    return Math.min(range.max, Math.max(range.min, value));
+}
+
+/**
+ * Synthesizes narration for a scene with whichever engine backs the voice.
+ * Speed/pitch are clamped to the voice's supported range and dropped when unsupported.
+ * Word timings for captions come from the provider's subtitles, else forced alignment (may be null).
+ * language is the project's narration language (ISO 639-1, English when unset).
+ */
+export async function synthesize(
+    text: string,
+    audioVoice: string,
+    projectId: string,
+    sceneIndex: number,
+    options: { speed?: number; pitch?: number; language?: string } = {}
+): Promise<TtsResult & { provider: TtsProviderId }> {
+    const voice = resolveVoice(audioVoice);
+    const provider = getTtsProvider(voice.provider);
+
+    console.log(`[TTS] Using ${provider.label} with voice: ${voice.id}`);
+    const result = await provider.synthesize({
+        text,
+        voice,
+        projectId,
+        sceneIndex,
+        speed: clamp(options.speed, voice.speedRange),
+        pitch: clamp(options.pitch, voice.pitchRange),
+        language: options.language
+    });
+
+    // Providers without (usable) subtitle output are aligned from the audio itself
+    const wordTimings = result.wordTimings ?? await alignWordTimings(text, result.url, options.language);
+
+    return { ...result, wordTimings, provider: provider.id };
+}
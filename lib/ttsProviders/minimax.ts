@@ -0,0 +1,9 @@
+import { generateMinimaxAudio } from '../ai';
+import { TtsProvider } from './types';
+
+export const minimaxProvider: TtsProvider = {
+    id: 'minimax',
+    label: 'Minimax',
+    synthesize: ({ text, voice, projectId, sceneIndex, speed, pitch }) =>
+        generateMinimaxAudio(text, voice.id, projectId, sceneIndex, { speed, pitch }),
+};
@@ -0,0 +1,10 @@
+import { generateQwenAudio } from '../ai';
+import { TtsProvider } from './types';
+
+// Self-hosted Qwen TTS voice clones (no speed/pitch control)
+export const qwenProvider: TtsProvider = {
+    id: 'qwen',
+    label: 'Qwen TTS',
+    synthesize: ({ text, voice, projectId, sceneIndex }) =>
+        generateQwenAudio(text, voice.id, projectId, sceneIndex),
+};
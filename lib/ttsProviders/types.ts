@@ -0,0 +1,42 @@
+import type { WordTiming } from '../../types';
+
+export type TtsProviderId = 'minimax' | 'genaipro' | 'qwen';
+
+export type TtsRange = {
+    min: number;
+    max: number;
+    default: number;
+};
+
+export type VoiceOption = {
+    label: string;
+    value: string; // Stored in ProjectSettings.audioVoice
+    id: string; // Voice id as the provider API expects it
+    provider: TtsProviderId;
+    languages: readonly string[]; // ISO 639-1 codes
+    speedRange: TtsRange | null; // null = provider has no speed control
+    pitchRange: TtsRange | null; // null = provider has no pitch control
+    format: 'mp3' | 'wav';
+};
+
+export type TtsRequest = {
+    text: string;
+    voice: VoiceOption;
+    projectId: string;
+    sceneIndex: number;
+    speed?: number;
+    pitch?: number;
+    language?: string; // ISO 639-1 code of the text; providers that can't enforce it infer it from the text
+};
+
+export type TtsResult = {
+    url: string;
+    duration: number;
+    wordTimings?: WordTiming[] | null; // From the provider's subtitle output, when it has one
+};
+
+export interface TtsProvider {
+    id: TtsProviderId;
+    label: string;
+    synthesize(request: TtsRequest): Promise<TtsResult>;
+}
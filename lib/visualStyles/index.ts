@@ -0,0 +1,111 @@
+/**
+ * Visual Style Presets
+ * Single catalogue of style / subject / negative text, pinned provider and prompt-writer instructions
+ * per visual style, read by both scene generation and image regeneration.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { CustomStyleApi } from '../../types';
+import { OUTPUT_FORMAT, STORYBOARD_INSTRUCTIONS, VISUAL_STYLE_PRESETS } from './presets';
+import { VisualStylePreset } from './types';
+
+export type { VisualStyleId, VisualStylePreset } from './types';
+export { VISUAL_STYLE_PRESETS } from './presets';
+
+/**
+ * Preset for a project's visual style. Unknown styles fall back to zen, the original default.
+ */
+export function getVisualStylePreset(visualStyle: string | undefined): VisualStylePreset {
+    return VISUAL_STYLE_PRESETS[visualStyle as keyof typeof VISUAL_STYLE_PRESETS] || VISUAL_STYLE_PRESETS.zen;
+}
+
+export const CUSTOM_STYLE_PREFIX = 'custom:';
+
+/**
+ * Whether a reference image path is one of the user's uploads (assets/custom-styles/<userId>/).
+ */
+export function isCustomStyleImagePath(path: string, userId: string): boolean {
+    return path.startsWith(`custom-styles/${userId}/`) && !path.split('/').includes('..');
+}
+
+// Prompt-writer reply for one sentence (see OUTPUT_FORMAT in the preset instructions)
+export const ScenePromptSchema = z.object({
+    prompt: z.string().refine(prompt => prompt.trim().length > 0, 'prompt is empty'),
+});
+
+/**
+ * Preset for a user-defined style. A reference image pins it to Runware (the only provider with
+ * reference support), otherwise to the style's image provider if it has one.
+ */
+export function customStylePreset(custom: CustomStyleApi, referenceImageUrl?: string): VisualStylePreset {
+    const route = referenceImageUrl
+        ? { providerId: 'runware' as const, model: 'runware:400@1' }
+        : custom.image_provider ? { providerId: custom.image_provider } : undefined;
+
+    return {
+        id: `${CUSTOM_STYLE_PREFIX}${custom.id}`,
+        style: custom.style_text,
+        subject: custom.subject_text,
+        negative: custom.negative_prompt,
+        route,
+        referenceImageUrl,
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    };
+}
+
+/**
+ * Preset for a project's visual style, loading `custom:<id>` styles from custom_styles.
+ * userId scopes the lookup, since the job runner reads with the service role.
+ */
+export async function resolveVisualStylePreset(
+    supabase: SupabaseClient,
+    userId: string,
+    visualStyle: string | undefined
+): Promise<VisualStylePreset> {
+    if (!visualStyle?.startsWith(CUSTOM_STYLE_PREFIX)) {
+        return getVisualStylePreset(visualStyle);
+    }
+
+    const { data: custom } = await supabase
+        .from('custom_styles')
+        .select('*')
+        .eq('id', visualStyle.slice(CUSTOM_STYLE_PREFIX.length))
+        .eq('user_id', userId)
+        .maybeSingle();
+
+    if (!custom) {
+        throw new Error('Custom style not found, it may have been deleted');
+    }
+
+    // The reference image is fetched server-side, so its URL comes from the validated path, never the row
+    const { reference_image_path: imagePath } = custom as CustomStyleApi;
+    if (imagePath && !isCustomStyleImagePath(imagePath, userId)) {
+        throw new Error('Custom style reference image is invalid');
+    }
+    const referenceImageUrl = imagePath ? supabase.storage.from('assets').getPublicUrl(imagePath).data.publicUrl : undefined;
+
+    return customStylePreset(custom as CustomStyleApi, referenceImageUrl);
+}
+
+const BATCH_OUTPUT_FORMAT = `Output format: Return ONLY a JSON object of the form {"scenes": [{"index": <sentence number>, "prompts": ["..."]}]} with one entry per numbered sentence. Sentences marked (two prompts) get two different, complementary prompts; every other sentence gets exactly one.`;
+
+/**
+ * The preset's prompt-writer instructions for planning many numbered sentences in one call.
+ */
+export function batchPromptInstructions(preset: VisualStylePreset): string {
+    return `${preset.promptInstructions.replace(OUTPUT_FORMAT, '').trim()}\n\n${BATCH_OUTPUT_FORMAT}`;
+}
+
+/**
+ * Full image prompt for a scene description in the given style.
+ */
+export function buildStyledPrompt(preset: VisualStylePreset, scenePrompt: string): string {
+    // Finetuned LoRAs only need their trigger, extra style text fights the training
+    if (preset.triggerOnly) {
+        return `${preset.style} ${scenePrompt}`;
+    }
+    const parts = [scenePrompt, preset.style, preset.subject, 'NO TEXT IN THE IMAGE.'];
+    if (preset.negative) parts.push(`Negative: ${preset.negative}`);
+    return parts.filter(Boolean).join(' ');
+}
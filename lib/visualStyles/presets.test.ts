@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { batchPromptInstructions, buildStyledPrompt, VISUAL_STYLE_PRESETS } from './index';
+
+// Locks what each built-in style sends to the prompt writer and the image provider
+const SCENE_PROMPT = 'An old man feeds pigeons on a park bench at sunrise';
+
+describe('visual style presets', () => {
+    for (const preset of Object.values(VISUAL_STYLE_PRESETS)) {
+        it(preset.id, () => {
+            expect({
+                route: preset.route,
+                usesReferenceImage: preset.usesReferenceImage,
+                styledPrompt: buildStyledPrompt(preset, SCENE_PROMPT),
+                promptInstructions: preset.promptInstructions,
+                batchPromptInstructions: batchPromptInstructions(preset),
+            }).toMatchSnapshot();
+        });
+    }
+});
@@ -0,0 +1,167 @@
+import { VisualStyleId, VisualStylePreset } from './types';
+
+export const OUTPUT_FORMAT = 'Output format: Return ONLY a JSON object of the form {"prompt": "..."} containing the one image prompt for the sentence provided.';
+
+export const STORYBOARD_INSTRUCTIONS = `You are a visual storyteller creating storyboard frames. For each sentence below, keeping context of the previous sentences in mind, create ONE image prompt that visually represents the exact moment described.
+
+RULES:
+- Focus on the PRIMARY action happening in the sentence
+- Clearly show who is doing what, where, and why
+- Describe physical actions, posture, environment, and interactions
+- Use clear, concrete objects, people, and actions
+- Do NOT add ideas, symbolism, or events not stated in the sentence
+- Keep prompts focused
+- Use the story bible and surrounding sentences only to keep characters, places and era consistent
+- Do NOT include style instructions, camera terms, or negative prompts
+- Describe WHAT is visible in the frame, not HOW it is drawn
+
+${OUTPUT_FORMAT}`;
+
+// Finetuned character styles: every frame features the character
+function characterInstructions(name: string, description: string): string {
+    return `You are a visual storyteller creating storyboard frames featuring ${name} (${description}) as the central subject. For each sentence below, create ONE image prompt showing ${name} performing, explaining, or demonstrating the action described.
+
+RULES:
+- ${name} must be the main subject in EVERY scene
+- Focus on the PRIMARY action happening in the sentence
+- Show ${name} doing, telling, explaining, or demonstrating the concept
+- Clearly describe ${name}'s actions, posture, environment, and interactions
+- Also mention ${name}'s facial expressions
+- Use clear, concrete objects, people (with ${name} as the focus), and actions
+- Keep prompts focused on ${name} as the central character
+- Use the story bible and surrounding sentences only to keep places and era consistent
+- Do NOT include style instructions, camera terms, or negative prompts
+- Describe WHAT is visible in the frame, not HOW it is drawn
+- Do not give NSFW content
+
+${OUTPUT_FORMAT}`;
+}
+
+const CINEMATIC_STYLE = "Style: Cinematic, photorealistic, 8k, high-quality, beautiful, everyday life, humanistic, natural lighting.";
+
+const NATURAL: Omit<VisualStylePreset, 'id'> = {
+    style: CINEMATIC_STYLE,
+    subject: "Subject: Modern everyday life or general cinematic visuals and senior person.",
+    negative: "text, logos, writing, letters, words, watermarks, young person",
+    promptInstructions: STORYBOARD_INSTRUCTIONS,
+};
+
+const VECTOR: Omit<VisualStylePreset, 'id'> = {
+    style: "Style: Vector illustration, instructional vector illustration, thin clean line art, rounded shapes, pastel colors, no shading, simple indoor background.",
+    subject: "Subject: Friendly, simple vector senior characters in everyday situations.",
+    negative: "photo, realistic, 3d, photograph, photorealistic, realism, CGI, render, dramatic lighting, shadows, texture",
+    promptInstructions: STORYBOARD_INSTRUCTIONS,
+};
+
+const POP_ART: Omit<VisualStylePreset, 'id'> = {
+    style: "Style: 1950s pop art illustration, retro comic illustration, bold black outlines, flat saturated colors, halftone dots, yellow background.",
+    subject: "Subject: Vintage pop art.",
+    negative: "photo, realistic, 3d, modern, photograph, photorealistic, realism, CGI, render, soft shading, gradients",
+    promptInstructions: STORYBOARD_INSTRUCTIONS,
+};
+
+export const VISUAL_STYLE_PRESETS: Record<VisualStyleId, VisualStylePreset> = {
+    zen: {
+        id: 'zen',
+        style: CINEMATIC_STYLE,
+        subject: "Subject: Zen Buddhist monk in orange robes/clothes, performing, explaining or doing work in normal life.",
+        negative: "text, logos, writing, cluttered",
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    },
+    normal: { id: 'normal', ...NATURAL },
+    stock_natural: { id: 'stock_natural', ...NATURAL },
+    stick: {
+        id: 'stick',
+        style: "Style: Minimalist stick figure drawing, hand-drawn sketch style, black ink on white paper, simple lines.",
+        subject: "Subject: Simple stick figures, very abstract and funny/cute.",
+        negative: "text, realistic, detailed",
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    },
+    health: {
+        id: 'health',
+        style: "Style: Clean photorealistic medical visualization, clinical photography aesthetic, high-resolution anatomical detail, realistic human tissue and organ rendering, accurate biological structures, soft even studio lighting with no dramatic shadows, neutral clinical background, precise anatomical accuracy, realistic skin tone and texture, professional medical imaging aesthetic, scientifically accurate cellular and organ detail, muted clinical color palette with accurate biological coloring, sharp focus throughout, documentary medical photography style.",
+        subject: "Subject: Realistic human anatomy, body organs, biological structures, and health-related medical visuals rendered with clinical accuracy.",
+        negative: "cartoon, illustration, animated, flat design, vector art, sketch, drawing, painterly, oil painting, watercolor, concept art, stylized, semi-realistic, medical diagram, infographic, arrows, labels, text, letters, cinematic lighting, dramatic shadows, oversaturated colors, fantasy, sci-fi, abstract, 3D cartoon render, low detail, simplified anatomy, caricature, comic style",
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    },
+    cartoon: { id: 'cartoon', ...VECTOR },
+    stock_vector: { id: 'stock_vector', ...VECTOR },
+    art: { id: 'art', ...POP_ART },
+    stock_art: { id: 'stock_art', ...POP_ART },
+    clean_illustration: {
+        id: 'clean_illustration',
+        style: "Style: clean narrative illustration, modern editorial illustration style, realistic human proportions, adult characters only (ages 25–90), mature facial features, soft painted shading with gentle shadows, clean linework (not cartoon), natural adult anatomy, detailed but uncluttered environment, storytelling illustration look.",
+        subject: "Subject: Adult senior characters in modern narrative settings.",
+        negative: "child, children, kid, kids, toddler, baby, teen, teenager, cartoon, vector, flat, anime, chibi, 3d, cgi, text",
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    },
+    reference_image: {
+        id: 'reference_image',
+        style: `Role: You are an expert storyboard artist generating high-fidelity visual frames for a modern animated video series. Do NOT add any text to images.
+
+1. Character Identity Consistency:
+Reference Usage: Use the provided image strictly as a visual identity reference ONLY.
+Identity Lock: Preserve the same character identity — face shape, facial features, body style, proportions, line weight, and overall illustration language.
+Pose Freedom: The character’s posture, gesture, body orientation, and camera angle MUST change naturally to match the described scene and action.
+Emotion Mapping: Convey emotion through body language and minimal facial changes without adding realistic or detailed facial features.
+
+2. Scene Accuracy & World Building:
+Scene Priority: The visual scene must directly and literally represent the described action or moment.
+Environment: Always generate a fully realized environment relevant to the scene (interiors, streets, nature, objects, props). Never use blank, white, or abstract backgrounds.
+Interaction: The character should physically interact with the environment when applicable (sitting, walking, holding, reaching, observing).
+
+3. Composition & Framing:
+Aspect Ratio: Cinematic 16:9 framing.
+Camera Logic: Choose framing (wide, medium, close-up) that best communicates the scene’s emotion and action.
+Depth & Separation: Use lighting, contrast, and foreground/background elements to clearly separate the character from the environment.
+Style: Modern 2D vector illustration.
+Visual Language: Flat colors, clean smooth outlines, soft cel-shaded lighting, no textures or noise.
+Quality Target: Sharp, high-contrast visuals suitable for 4K animated video pipelines.
+No text in image.`,
+        subject: "", // Handled by reference image and prompt context
+        negative: "text, watermark, extra limbs, distorted face, noise, grainy",
+        // Runware is the only provider with reference support
+        route: { providerId: 'runware', model: 'runware:400@1' },
+        usesReferenceImage: true,
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    },
+    thick_stick_color: {
+        id: 'thick_stick_color',
+        style: "Style: simple senior human stick figure pictogram, head and limbs only, very simplified torso shape, arms and legs as thick solid rounded rods, rounded limb ends, solid filled shapes not outlines, minimal facial features, flat vector illustration, simple color fills, colored clothing blocks (shirt and pants as simple shapes), limited color palette, friendly abstract style, white background, no shading, no texture",
+        subject: "Subject: Thick senior stick figure pictograms in simple colors",
+        negative: "realistic anatomy, detailed body, thin limbs, single line drawing, sketch, ink, pencil, line art, outline only, comic style, cartoon character, childrens illustration, detailed clothing folds, textures text",
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    },
+    thick_stick_bw: {
+        id: 'thick_stick_bw',
+        style: "Style: simple senior human stick figure pictogram, head and limbs only, no detailed torso, arms and legs as thick solid rods, rounded limb ends, solid filled shapes not lines, minimal facial features or no face, instructional diagram style, ISO safety icon style, flat vector symbol, very minimal detail, no clothing, no anatomy, white background",
+        subject: "Subject: Black and white thick senior stick figure symbols",
+        negative: "cartoon character, childrens illustration, human anatomy, body proportions, clothing, shirt, pants, realistic, sketch, line drawing, outline only, thin lines, comic style text",
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    },
+    james_finetuned: {
+        id: 'james_finetuned',
+        // NEWJAMESTOK is the LoRA trigger word
+        style: "A clean flat cartoon character of NEWJAMESTOK, white hair, white short beard, adult , he is 30 years old: ",
+        subject: "",
+        negative: "",
+        triggerOnly: true,
+        promptInstructions: characterInstructions('James', 'a male character'),
+    },
+    grandma_finetuned: {
+        id: 'grandma_finetuned',
+        // GRANDMATOK is the LoRA trigger word
+        style: "A clean flat cartoon character of GRANDMATOK, adult , she is 30 years old: ",
+        subject: "",
+        negative: "",
+        triggerOnly: true,
+        promptInstructions: characterInstructions('Grandma', 'a female character'),
+    },
+    dark_animated: {
+        id: 'dark_animated',
+        style: "Style: Dark vintage animated background aesthetic, psychological thriller atmosphere, film noir lighting, grainy texture, muted dark colors (deep blacks, grays, dark reds), mysterious shadows, surreal and psychological symbolism, 1950s detective movie feel, high contrast, dramatic lighting.",
+        subject: "Subject: Shadowy figures, psychological concepts, abstract representations of the mind, vintage manipulation themes.",
+        negative: "bright, colorful, happy, cartoon, anime, 3d render, modern, glossy, cute, flat, vector, daylight",
+        promptInstructions: STORYBOARD_INSTRUCTIONS,
+    },
+};
@@ -0,0 +1,18 @@
+import type { BuiltInVisualStyle, ProjectSettings } from '../../types';
+import type { ImageProviderId } from '../imageProviders/types';
+
+export type VisualStyleId = BuiltInVisualStyle;
+
+export type VisualStylePreset = {
+    id: ProjectSettings['visualStyle'];
+    style: string; // Appended to every scene prompt (for finetuned styles: the LoRA trigger, prepended)
+    subject: string;
+    negative: string;
+    // Finetuned LoRA styles: the prompt is the trigger followed by the scene description, nothing else
+    triggerOnly?: boolean;
+    // Provider (and model) the style is pinned to, overriding the project's image model
+    route?: { providerId: ImageProviderId; model?: string };
+    usesReferenceImage?: boolean; // Sends the project's reference character to the provider
+    referenceImageUrl?: string; // Fixed reference image (custom styles), takes precedence over the character
+    promptInstructions: string; // System prompt for the LLM that turns a sentence into a scene description
+};
@@ -0,0 +1,224 @@
+/**
+ * Word Timings
+ * Real per-word timestamps for captions, captured when narration is synthesized: from the TTS
+ * provider's subtitle output where it has one (Minimax subtitle file, GenAIPro SRT), otherwise by
+ * aligning the audio with the bundled whisper-tiny.en model, or the multilingual whisper-tiny for other
+ * languages (WAV audio only, there is no MP3 decoder server-side). Stored in scenes.word_timings;
+ * captions fall back to an even estimate without them.
+ */
+
+import path from 'path';
+import { WordTiming } from '../types';
+import { splitCaptionWords } from '../remotion/captions/utils';
+
+// A stretch of narration with known start / end (subtitle cue, sentence or recognized word)
+export type TimedSegment = { text: string; start: number; end: number }; // seconds
+
+const WHISPER_MODEL = 'Xenova/whisper-tiny.en';
+// Not bundled in public/models: downloaded from the Hugging Face hub on first use
+const WHISPER_MULTILINGUAL_MODEL = 'Xenova/whisper-tiny';
+const WHISPER_SAMPLE_RATE = 16000;
+
+function normalizedLength(text: string): number {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '').length;
+}
+
+/**
+ * Spreads the script's words over timed segments by character position, so segments that don't
+ * line up one-to-one with the words (sentences, cues, recognized words with different spelling)
+ * still give each word the time where its characters are spoken.
+ */
+export function timingsFromSegments(text: string, segments: TimedSegment[]): WordTiming[] | null {
+    const words = splitCaptionWords(text);
+    const timed = segments
+        .filter(s => Number.isFinite(s.start) && Number.isFinite(s.end) && s.end >= s.start)
+        .map(s => ({ ...s, chars: Math.max(1, normalizedLength(s.text)) }));
+    if (words.length === 0 || timed.length === 0) return null;
+
+    const segmentChars = timed.reduce((sum, s) => sum + s.chars, 0);
+    const wordChars = words.map(w => Math.max(1, normalizedLength(w)));
+    const scriptChars = wordChars.reduce((sum, n) => sum + n, 0);
+
+    // Time at script character position `position`; on a segment boundary a word start belongs to
+    // the next segment and a word end to the previous one, so pauses between segments stay empty
+    const timeAt = (position: number, isEnd: boolean): number => {
+        let offset = position * segmentChars / scriptChars;
+        for (const segment of timed) {
+            if (isEnd ? offset <= segment.chars : offset < segment.chars) {
+                return segment.start + (offset / segment.chars) * (segment.end - segment.start);
+            }
+            offset -= segment.chars;
+        }
+        return timed[timed.length - 1].end;
+    };
+
+    let position = 0;
+    return words.map((word, i) => {
+        const startTime = timeAt(position, false);
+        position += wordChars[i];
+        return { word, startTime, endTime: Math.max(startTime, timeAt(position, true)) };
+    });
+}
+
+function parseSrtTime(value: string): number {
+    const [hms, ms = '0'] = value.trim().split(/[,.]/);
+    const [h, m, s] = hms.split(':').map(Number);
+    return h * 3600 + m * 60 + s + Number(ms) / 1000;
+}
+
+export function parseSrt(srt: string): TimedSegment[] {
+    const segments: TimedSegment[] = [];
+    for (const block of srt.replace(/\r/g, '').split(/\n\s*\n/)) {
+        const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+        const timeLine = lines.findIndex(l => l.includes('-->'));
+        if (timeLine === -1) continue;
+
+        const [start, end] = lines[timeLine].split('-->');
+        segments.push({
+            text: lines.slice(timeLine + 1).join(' '),
+            start: parseSrtTime(start),
+            end: parseSrtTime(end),
+        });
+    }
+    return segments;
+}
+
+/**
+ * Word timings from a Minimax subtitle file (JSON, sentence entries with times in milliseconds).
+ * Returns null when the file is missing or unreadable.
+ */
+export async function minimaxSubtitleTimings(text: string, subtitleUrl: string | undefined): Promise<WordTiming[] | null> {
+    if (!subtitleUrl) return null;
+    try {
+        const response = await fetch(subtitleUrl);
+        if (!response.ok) throw new Error(`Failed to fetch subtitles: ${response.status}`);
+
+        const entries: { text: string; time_begin: number; time_end: number }[] = await response.json();
+        return timingsFromSegments(text, entries.map(e => ({ text: e.text, start: e.time_begin / 1000, end: e.time_end / 1000 })));
+    } catch (e: any) {
+        console.warn('[WordTimings] Minimax subtitles unusable:', e.message);
+        return null;
+    }
+}
+
+/**
+ * Word timings from an SRT subtitle file (GenAIPro). Returns null when missing or unreadable.
+ */
+export async function srtSubtitleTimings(text: string, srtUrl: string | undefined): Promise<WordTiming[] | null> {
+    if (!srtUrl) return null;
+    try {
+        const response = await fetch(srtUrl);
+        if (!response.ok) throw new Error(`Failed to fetch subtitles: ${response.status}`);
+        return timingsFromSegments(text, parseSrt(await response.text()));
+    } catch (e: any) {
+        console.warn('[WordTimings] SRT subtitles unusable:', e.message);
+        return null;
+    }
+}
+
+// 16 kHz mono samples from a PCM / float WAV file, or null if it isn't one
+function decodeWav(buffer: Buffer): Float32Array | null {
+    if (buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') return null;
+
+    let format = 0, channels = 0, sampleRate = 0, bitsPerSample = 0;
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+        const chunkId = buffer.toString('ascii', offset, offset + 4);
+        const chunkSize = buffer.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (chunkId === 'fmt ') {
+            format = buffer.readUInt16LE(body);
+            channels = buffer.readUInt16LE(body + 2);
+            sampleRate = buffer.readUInt32LE(body + 4);
+            bitsPerSample = buffer.readUInt16LE(body + 14);
+        } else if (chunkId === 'data') {
+            const bytesPerSample = bitsPerSample / 8;
+            const isFloat = format === 3 && bitsPerSample === 32;
+            if (!channels || !sampleRate || (!isFloat && bitsPerSample !== 16)) return null;
+
+            const end = Math.min(buffer.length, body + chunkSize);
+            const frames = Math.floor((end - body) / (bytesPerSample * channels));
+            const mono = new Float32Array(frames);
+            for (let i = 0; i < frames; i++) {
+                let sum = 0;
+                for (let c = 0; c < channels; c++) {
+                    const at = body + (i * channels + c) * bytesPerSample;
+                    sum += isFloat ? buffer.readFloatLE(at) : buffer.readInt16LE(at) / 32768;
+                }
+                mono[i] = sum / channels;
+            }
+
+            if (sampleRate === WHISPER_SAMPLE_RATE) return mono;
+
+            // Linear resample to what whisper expects
+            const ratio = sampleRate / WHISPER_SAMPLE_RATE;
+            const resampled = new Float32Array(Math.floor(frames / ratio));
+            for (let i = 0; i < resampled.length; i++) {
+                const source = i * ratio;
+                const left = Math.floor(source);
+                const right = Math.min(frames - 1, left + 1);
+                resampled[i] = mono[left] + (mono[right] - mono[left]) * (source - left);
+            }
+            return resampled;
+        }
+
+        offset = body + chunkSize + (chunkSize % 2);
+    }
+    return null;
+}
+
+const transcriberPromises = new Map<string, Promise<any>>();
+
+function getTranscriber(model: string) {
+    let transcriberPromise = transcriberPromises.get(model);
+    if (!transcriberPromise) {
+        transcriberPromise = (async () => {
+            const { pipeline, env } = await import('@xenova/transformers');
+            // Same bundled model as the in-browser transcription (utils/whisperWorker.ts)
+            env.allowLocalModels = true;
+            env.localModelPath = path.join(process.cwd(), 'public', 'models');
+            return await pipeline('automatic-speech-recognition', model);
+        })().catch((e) => {
+            transcriberPromises.delete(model);
+            throw e;
+        });
+        transcriberPromises.set(model, transcriberPromise);
+    }
+    return transcriberPromise;
+}
+
+/**
+ * Forced alignment fallback: recognizes word timestamps in the narration and maps the script's
+ * words onto them. Returns null for audio it can't decode or when recognition fails.
+ * language is the narration's ISO 639-1 code (English when unset).
+ */
+export async function alignWordTimings(text: string, audioUrl: string, language?: string): Promise<WordTiming[] | null> {
+    try {
+        const response = await fetch(audioUrl);
+        if (!response.ok) throw new Error(`Failed to fetch audio: ${response.status}`);
+
+        const samples = decodeWav(Buffer.from(await response.arrayBuffer()));
+        if (!samples) return null;
+
+        const english = !language || language === 'en';
+        const transcriber = await getTranscriber(english ? WHISPER_MODEL : WHISPER_MULTILINGUAL_MODEL);
+        const result = await transcriber(samples, {
+            return_timestamps: 'word',
+            chunk_length_s: 30,
+            stride_length_s: 5,
+            ...(english ? {} : { language, task: 'transcribe' }),
+        });
+
+        const duration = samples.length / WHISPER_SAMPLE_RATE;
+        const chunks: { text: string; timestamp: [number, number | null] }[] = result.chunks || [];
+        return timingsFromSegments(text, chunks.map(chunk => ({
+            text: chunk.text,
+            start: chunk.timestamp[0],
+            end: chunk.timestamp[1] ?? duration,
+        })));
+    } catch (e: any) {
+        console.warn('[WordTimings] Alignment failed:', e.message);
+        return null;
+    }
+}
@@ -9,7 +9,8 @@ const nextConfig: NextConfig = {
     '@remotion/bundler',
     'esbuild',
     'prettier',
-    '@runware/sdk-js'
+    '@runware/sdk-js',
+    '@xenova/transformers' // Server-side word alignment (lib/wordTimings) loads onnxruntime-node
   ],
   experimental: {
     serverActions: {
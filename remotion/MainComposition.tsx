@@ -2,6 +2,7 @@ import { AbsoluteFill, Sequence, Series, Audio, Video, staticFile } from 'remoti
 import { z } from 'zod';
 import { Scene } from './Scene';
 import { ProjectSettings, SceneApi } from '../types';
+import { DISCLAIMER_FRAMES, sceneDurationInFrames, showsDisclaimer } from './timeline';
 import cameraFlashSound from '../public/camera_flash.mp3';
 import swooshSound from '../public/swoosh.mp3';
 
@@ -29,8 +30,8 @@ export const MainComposition: React.FC<Props> = ({ scenes, settings, isFirstPart
     return (
         <AbsoluteFill className="bg-black">
             <Series>
-                {settings.disclaimerEnabled && (isFirstPart === undefined || isFirstPart === true) && (
-                    <Series.Sequence durationInFrames={45}> {/* 1.5s duration */}
+                {showsDisclaimer(settings, isFirstPart) && (
+                    <Series.Sequence durationInFrames={DISCLAIMER_FRAMES}>
                         <AbsoluteFill className="bg-black flex items-center justify-center">
                             {/* Use staticFile for safe resolution of public assets in Remotion */}
                             <Video src={staticFile("Disclaimer.mp4")} />
@@ -38,16 +39,8 @@ export const MainComposition: React.FC<Props> = ({ scenes, settings, isFirstPart
                     </Series.Sequence>
                 )}
                 {scenes.map((scene, index) => {
-                    let durationInSeconds = scene.duration || 5;
-
-                    // Add buffer to last scene to ensure audio completes
-                    // Audio files from Minimax may be 1-2s longer than reported duration
-                    const isLastScene = index === scenes.length - 1;
-                    if (isLastScene) {
-                        durationInSeconds += 2.0; // Add 2.5s buffer for audio completion
-                    }
-
-                    const durationInFrames = Math.ceil(durationInSeconds * 30);
+                    // Last scene gets a buffer to ensure audio completes
+                    const durationInFrames = sceneDurationInFrames(scene, index === scenes.length - 1);
 
                     // Determine if we should play a transition sound at the END of this scene
                     // Logic: Play for all scenes EXCEPT the last one (index < scenes.length - 1)
@@ -2,6 +2,7 @@ import { AbsoluteFill, Img, OffthreadVideo, useCurrentFrame, useVideoConfig, int
 import { SceneApi, ProjectSettings } from '../types';
 import { AudioWave } from './AudioWave';
 import { Heading } from './Heading';
+import { captionDirection } from './captions/utils';
 
 type Props = {
     scene: SceneApi;
@@ -203,28 +204,29 @@ export const Scene: React.FC<Props> = ({ scene, settings }) => {
             {matchedHeading ? (
                 <Heading text={matchedHeading} />
             ) : (
-                settings.captions.enabled && (() => {
+                // Arabic / Hebrew captions run right to left (word order of the pair and chunk layouts too)
+                settings.captions.enabled && <AbsoluteFill style={{ direction: captionDirection(scene.text) }}>{(() => {
                     const captionStyle = settings.captions.style || 'classic';
 
                     // Import statements are at the top, so we check style here
                     if (captionStyle === 'word_pop') {
                         const { WordByWordPop } = require('./captions/WordByWordPop');
-                        return <WordByWordPop text={scene.text} durationInSeconds={d} />;
+                        return <WordByWordPop text={scene.text} durationInSeconds={d} wordTimings={scene.word_timings} emphasis={scene.caption_emphasis} settings={settings} />;
                     } else if (captionStyle === 'karaoke') {
                         const { KaraokeHighlight } = require('./captions/KaraokeHighlight');
-                        return <KaraokeHighlight text={scene.text} durationInSeconds={d} color={settings.captions.color} />;
+                        return <KaraokeHighlight text={scene.text} durationInSeconds={d} wordTimings={scene.word_timings} emphasis={scene.caption_emphasis} settings={settings} />;
                     } else if (captionStyle === 'mrbeast') {
                         const { MrBeastStyle } = require('./captions/MrBeastStyle');
-                        return <MrBeastStyle text={scene.text} durationInSeconds={d} />;
+                        return <MrBeastStyle text={scene.text} durationInSeconds={d} wordTimings={scene.word_timings} emphasis={scene.caption_emphasis} settings={settings} />;
                     } else if (captionStyle === 'dark_psychology') {
                         const { DarkPsyStyle } = require('./captions/DarkPsyStyle');
-                        return <DarkPsyStyle text={scene.text} durationInSeconds={d} />;
+                        return <DarkPsyStyle text={scene.text} durationInSeconds={d} wordTimings={scene.word_timings} emphasis={scene.caption_emphasis} settings={settings} />;
                     } else {
                         // Classic caption rendering with 2-line limit
                         const { ClassicCaptions } = require('./captions/ClassicCaptions');
-                        return <ClassicCaptions text={scene.text} durationInSeconds={d} settings={settings} />;
+                        return <ClassicCaptions text={scene.text} durationInSeconds={d} wordTimings={scene.word_timings} emphasis={scene.caption_emphasis} settings={settings} />;
                     }
-                })()
+                })()}</AbsoluteFill>
             )}
         </AbsoluteFill>
     );
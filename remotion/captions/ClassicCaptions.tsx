@@ -1,41 +1,63 @@
 import React from 'react';
 import { useCurrentFrame, useVideoConfig, interpolate, Easing, AbsoluteFill } from 'remotion';
-import type { ProjectSettings } from '../../types';
+import type { CaptionEmphasis, ProjectSettings } from '../../types';
+import { EmphasizedText } from './EmphasizedText';
+import { useCaptionTheme } from './theme';
+import { captionSeparator, getEmphasisMap, getWordTimings, splitCaptionWords, WordTiming } from './utils';
 
 interface ClassicCaptionsProps {
     text: string;
     durationInSeconds: number;
+    wordTimings?: WordTiming[] | null; // Real timings from the scene audio, estimated when missing
+    emphasis?: CaptionEmphasis | null;
     settings: ProjectSettings;
 }
 
-// Helper to chunk words into groups that fit 2 lines (~10-12 words per chunk)
-const chunkWords = (text: string, wordsPerChunk: number = 12): string[] => {
-    const words = text.trim().split(/\s+/);
-    const chunks: string[] = [];
+// Helper to chunk words into groups that fit 2 lines
+const chunkWords = (text: string, wordsPerChunk: number): string[][] => {
+    const words = splitCaptionWords(text);
+    const chunks: string[][] = [];
     
     for (let i = 0; i < words.length; i += wordsPerChunk) {
-        chunks.push(words.slice(i, i + wordsPerChunk).join(' '));
+        chunks.push(words.slice(i, i + wordsPerChunk));
     }
     
     return chunks;
 };
 
-export const ClassicCaptions: React.FC<ClassicCaptionsProps> = ({ text, durationInSeconds, settings }) => {
+export const ClassicCaptions: React.FC<ClassicCaptionsProps> = ({ text, durationInSeconds, wordTimings, emphasis, settings }) => {
     const frame = useCurrentFrame();
-    const { fps, width, height } = useVideoConfig();
+    const { fps } = useVideoConfig();
+    const theme = useCaptionTheme(settings.captions);
     const durationFrames = durationInSeconds * fps;
 
-    // Split text into chunks (each chunk = max 2 lines)
-    const chunks = chunkWords(text);
-    const framesPerChunk = Math.floor(durationFrames / chunks.length);
+    // Split text into chunks (each chunk = max 2 lines), each shown from when its first word is spoken
+    const wordsPerChunk = theme.maxWordsPerLine * 2;
+    const chunks = chunkWords(text, wordsPerChunk);
+    const timings = getWordTimings(text, durationInSeconds, wordTimings);
+    const chunkStarts = chunks.map((_, i) => i === 0 ? 0 : Math.round(timings[i * wordsPerChunk].startTime * fps));
 
-    // Find current chunk index
-    const currentChunkIndex = Math.min(Math.floor(frame / framesPerChunk), chunks.length - 1);
-    const currentChunk = chunks[currentChunkIndex];
+    // Find current chunk index (starts are in order)
+    const currentChunkIndex = Math.max(0, chunkStarts.filter(start => frame >= start).length - 1);
+    const currentChunk = chunks[currentChunkIndex] ?? [];
+    const emphasisMap = getEmphasisMap(text, emphasis);
+    const separator = captionSeparator(text);
+    const renderChunk = (visibleChars?: number) => (
+        <EmphasizedText
+            words={currentChunk}
+            firstIndex={currentChunkIndex * wordsPerChunk}
+            emphasis={emphasisMap}
+            mode={settings.captions.emphasis}
+            color={theme.highlightColor}
+            visibleChars={visibleChars}
+            separator={separator}
+        />
+    );
 
     // Calculate transition progress for smooth fade
-    const chunkStartFrame = currentChunkIndex * framesPerChunk;
-    const chunkEndFrame = chunkStartFrame + framesPerChunk;
+    const chunkStartFrame = chunkStarts[currentChunkIndex];
+    const chunkEndFrame = chunkStarts[currentChunkIndex + 1] ?? durationFrames;
+    const framesPerChunk = chunkEndFrame - chunkStartFrame;
     const fadeInDuration = Math.min(10, framesPerChunk * 0.15); // 15% of chunk or 10 frames
     const fadeOutDuration = Math.min(10, framesPerChunk * 0.15);
 
@@ -54,42 +76,20 @@ export const ClassicCaptions: React.FC<ClassicCaptionsProps> = ({ text, duration
     }
 
     return (
-        <AbsoluteFill
-            className={`flex items-center pointer-events-none px-8
-                ${settings.captions.position === 'top' ? 'justify-start pt-16' :
-                    settings.captions.position === 'center' ? 'justify-center' :
-                        settings.captions.position === 'mid-bottom' ? 'justify-end pb-32' :
-                            'justify-end pb-16'} // bottom is default
-            `}
-            style={{ flexDirection: 'column' }}
-        >
+        <AbsoluteFill style={theme.containerStyle}>
             <div
-                className={`
-                    text-white text-center max-w-[85%] leading-tight
-                    ${settings.captions.font === 'serif' ? 'font-serif' : 'font-sans'}
-                `}
+                className="text-center max-w-[85%] leading-tight"
                 style={{
-                    // Dynamic font size based on orientation, screen size, and user preference
-                    fontSize: (() => {
-                        const sizeMap = {
-                            small: height > width ? (width < 500 ? 24 : 36) : (width < 1000 ? 32 : 48),
-                            medium: height > width ? (width < 500 ? 32 : 48) : (width < 1000 ? 42 : 64),
-                            large: height > width ? (width < 500 ? 40 : 60) : (width < 1000 ? 52 : 80),
-                            xlarge: height > width ? (width < 500 ? 48 : 72) : (width < 1000 ? 64 : 96)
-                        };
-                        return sizeMap[settings.captions.fontSize || 'medium'];
-                    })(),
-                    fontFamily: settings.captions.font === 'brush' ? '"Permanent Marker", cursive' : undefined,
+                    fontSize: theme.fontSize,
+                    fontFamily: theme.fontFamily,
                     fontWeight: settings.captions.strokeWidth === 'bold' ? 'bold' : 'normal',
-                    textShadow: (() => {
-                        const strokeMap = {
-                            thin: '2px 2px 0 #000, -1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000',
-                            medium: '3px 3px 0 #000, -1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000',
-                            thick: '4px 4px 0 #000, -2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000, 2px 2px 0 #000',
-                            bold: '5px 5px 0 #000, -2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000, 2px 2px 0 #000, 0 0 10px #000'
-                        };
-                        return strokeMap[settings.captions.strokeWidth || 'medium'];
-                    })(),
+                    color: theme.textColor,
+                    textShadow: theme.textShadow,
+                    ...(theme.boxBackground ? {
+                        backgroundColor: theme.boxBackground,
+                        padding: '0.2em 0.6em',
+                        borderRadius: 12
+                    } : {}),
                     opacity,
                     // Max 2 lines with ellipsis overflow (backup)
                     display: '-webkit-box',
@@ -119,17 +119,17 @@ export const ClassicCaptions: React.FC<ClassicCaptionsProps> = ({ text, duration
 
                     // Typewriter Effect (only for current chunk)
                     if (animation === 'typewriter') {
-                        const chars = currentChunk.length;
+                        const chars = currentChunk.join(separator).length;
                         const typewriterDuration = framesPerChunk * 0.7;
                         const progress = interpolate(frame - chunkStartFrame, [0, typewriterDuration], [0, chars], {
                             extrapolateRight: 'clamp'
                         });
                         const visibleChars = Math.floor(Math.max(0, progress));
-                        return currentChunk.slice(0, visibleChars);
+                        return renderChunk(visibleChars);
                     }
 
                     // All other animations show full chunk
-                    return currentChunk;
+                    return renderChunk();
                 })()}
             </div>
         </AbsoluteFill>
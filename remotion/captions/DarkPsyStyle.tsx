@@ -1,23 +1,30 @@
 import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate, Easing } from 'remotion';
-import { estimateWordTimings } from './utils';
+import type { CaptionEmphasis, ProjectSettings } from '../../types';
+import { EmphasizedText } from './EmphasizedText';
+import { useCaptionTheme } from './theme';
+import { captionSeparator, getEmphasisMap, getWordTimings, WordTiming } from './utils';
 import { random } from 'remotion';
 
 interface DarkPsyStyleProps {
     text: string;
     durationInSeconds: number;
+    wordTimings?: WordTiming[] | null; // Real timings from the scene audio, estimated when missing
+    emphasis?: CaptionEmphasis | null;
+    settings: ProjectSettings;
 }
 
-export const DarkPsyStyle: React.FC<DarkPsyStyleProps> = ({ text, durationInSeconds }) => {
+export const DarkPsyStyle: React.FC<DarkPsyStyleProps> = ({ text, durationInSeconds, wordTimings, emphasis, settings }) => {
     const frame = useCurrentFrame();
     const { fps } = useVideoConfig();
+    const theme = useCaptionTheme(settings.captions);
     const currentTime = frame / fps;
 
-    const timings = estimateWordTimings(text, durationInSeconds);
+    const timings = getWordTimings(text, durationInSeconds, wordTimings);
 
-    // Group words into 1-2 word chunks for impact
+    // Group words into short chunks for impact
     const chunks: { words: string[], startTime: number, endTime: number, index: number }[] = [];
-    const wordsPerChunk = 2; // Aggressive pacing
+    const wordsPerChunk = theme.maxWordsPerLine; // Aggressive pacing (2 by default)
 
     for (let i = 0; i < timings.length; i += wordsPerChunk) {
         const chunkTimings = timings.slice(i, i + wordsPerChunk);
@@ -29,10 +36,8 @@ export const DarkPsyStyle: React.FC<DarkPsyStyleProps> = ({ text, durationInSeco
         });
     }
 
-    // Find current chunk
-    const currentChunk = chunks.find(c =>
-        currentTime >= c.startTime && currentTime < c.endTime
-    );
+    // Find current chunk (held through pauses between words)
+    const currentChunk = [...chunks].reverse().find(c => currentTime >= c.startTime);
 
     if (!currentChunk) return null;
 
@@ -56,41 +61,53 @@ export const DarkPsyStyle: React.FC<DarkPsyStyleProps> = ({ text, durationInSeco
     // Opacity Fade In (Fast)
     const opacity = interpolate(framesSinceStart, [0, 3], [0, 1]);
 
-    // Color Logic: Alternate between White and Red/Yellow for emphasis
-    const isEmphasis = currentChunk.index % 3 === 0; // Every 3rd chunk is "special"
-    const mainColor = isEmphasis ? '#FFD700' : '#FFFFFF'; // Gold or White
+    // Color Logic: chunks with tagged emphasis words get the red shift (the words themselves the
+    // highlight colour); without tags every 3rd chunk is "special" and drawn in the highlight colour
+    const emphasisMap = getEmphasisMap(text, emphasis);
+    const useTags = emphasisMap.size > 0 && !!settings.captions.emphasis && settings.captions.emphasis !== 'off';
+    const firstIndex = currentChunk.index * wordsPerChunk;
+    const isEmphasis = useTags
+        ? currentChunk.words.some((_, i) => emphasisMap.has(firstIndex + i))
+        : currentChunk.index % 3 === 0;
+    const mainColor = isEmphasis && !useTags ? theme.highlightColor : theme.textColor;
+    const renderWords = (color?: string) => (
+        <EmphasizedText
+            words={currentChunk.words}
+            firstIndex={firstIndex}
+            emphasis={emphasisMap}
+            mode={settings.captions.emphasis}
+            separator={captionSeparator(text)}
+            color={color}
+        />
+    );
     const shadowColor = isEmphasis ? '#FF0000' : '#000000'; // Red shadow for emphasis
 
     return (
-        <AbsoluteFill style={{
-            justifyContent: 'center',
-            alignItems: 'center',
-            pointerEvents: 'none',
-            paddingBottom: 150 // Position near bottom-middle
-        }}>
+        <AbsoluteFill style={theme.containerStyle}>
             <div style={{
                 transform: `scale(${scale}) translate(${shakeX}px, ${shakeY}px)`,
                 textAlign: 'center',
                 position: 'relative'
             }}>
                 {/* Background Box for Contrast */}
-                <div style={{
-                    position: 'absolute',
-                    top: '50%',
-                    left: '50%',
-                    transform: 'translate(-50%, -50%)',
-                    width: '120%',
-                    height: '140%',
-                    background: 'black',
-                    opacity: 0.7,
-                    filter: 'blur(20px)',
-                    zIndex: -1
-                }} />
+                {theme.boxBackground && (
+                    <div style={{
+                        position: 'absolute',
+                        top: '50%',
+                        left: '50%',
+                        transform: 'translate(-50%, -50%)',
+                        width: '120%',
+                        height: '140%',
+                        background: theme.boxBackground,
+                        filter: 'blur(20px)',
+                        zIndex: -1
+                    }} />
+                )}
 
                 {/* Glitch Shadow (Red Shift) */}
                 <h1 style={{
-                    fontFamily: 'Impact, "Arial Black", sans-serif',
-                    fontSize: 82,
+                    fontFamily: theme.fontFamily,
+                    fontSize: theme.fontSize,
                     fontWeight: 900,
                     color: shadowColor,
                     textTransform: 'uppercase',
@@ -103,13 +120,13 @@ export const DarkPsyStyle: React.FC<DarkPsyStyleProps> = ({ text, durationInSeco
                     opacity: 0.7,
                     zIndex: 0
                 }}>
-                    {currentChunk.words.join(' ')}
+                    {renderWords()}
                 </h1>
 
                 {/* Main Text */}
                 <h1 style={{
-                    fontFamily: 'Impact, "Arial Black", sans-serif',
-                    fontSize: 82,
+                    fontFamily: theme.fontFamily,
+                    fontSize: theme.fontSize,
                     fontWeight: 900,
                     color: mainColor,
                     textTransform: 'uppercase',
@@ -118,9 +135,10 @@ export const DarkPsyStyle: React.FC<DarkPsyStyleProps> = ({ text, durationInSeco
                     lineHeight: 1,
                     opacity: opacity,
                     zIndex: 1,
-                    textShadow: '0 10px 30px rgba(0,0,0,1)'
+                    textShadow: theme.shadow ? '0 10px 30px rgba(0,0,0,1)' : undefined,
+                    WebkitTextStroke: `${theme.strokePx / 2}px black`
                 }}>
-                    {currentChunk.words.join(' ')}
+                    {renderWords(theme.highlightColor)}
                 </h1>
 
                 {/* Film Scratch / Grain Overlay (Simulated with simple noise line) */}
@@ -0,0 +1,55 @@
+import React from 'react';
+import type { CaptionSettings } from '../../types';
+
+interface EmphasizedTextProps {
+    words: string[];
+    firstIndex: number; // Index of words[0] among the scene's words
+    emphasis: Map<number, string | null>; // From getEmphasisMap
+    mode: CaptionSettings['emphasis'];
+    color?: string; // Colour of emphasized words; inherited when unset (e.g. on a highlight background)
+    visibleChars?: number; // Typewriter: characters of the joined text shown so far
+    separator?: string; // Between words: captionSeparator() of the scene text (none for CJK)
+}
+
+/**
+ * A run of caption words joined by the separator, with emphasized words drawn in the caption's
+ * emphasis mode: highlight colour, scaled up as well, or followed by their emoji.
+ */
+export const EmphasizedText: React.FC<EmphasizedTextProps> = ({ words, firstIndex, emphasis, mode, color, visibleChars, separator = ' ' }) => {
+    let remaining = visibleChars ?? Infinity;
+    const nodes: React.ReactNode[] = [];
+
+    for (let i = 0; i < words.length && remaining > 0; i++) {
+        if (i > 0 && separator) {
+            nodes.push(separator);
+            remaining -= separator.length;
+            if (remaining <= 0) break;
+        }
+
+        const word = words[i];
+        const shown = word.slice(0, remaining);
+        remaining -= word.length;
+
+        const emoji = emphasis.get(firstIndex + i);
+        if (!mode || mode === 'off' || emoji === undefined) {
+            nodes.push(<React.Fragment key={i}>{shown}</React.Fragment>);
+            continue;
+        }
+
+        nodes.push(
+            <span
+                key={i}
+                style={{
+                    color,
+                    display: 'inline-block',
+                    fontSize: mode === 'scale' ? '1.25em' : undefined
+                }}
+            >
+                {shown}
+                {mode === 'emoji' && emoji && shown.length === word.length ? ` ${emoji}` : ''}
+            </span>
+        );
+    }
+
+    return <>{nodes}</>;
+};
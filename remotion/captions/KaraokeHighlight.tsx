@@ -1,24 +1,34 @@
 import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate, Easing } from 'remotion';
-import { estimateWordTimings, getCurrentWordIndex } from './utils';
+import type { CaptionEmphasis, ProjectSettings } from '../../types';
+import { EmphasizedText } from './EmphasizedText';
+import { hexToRgba, useCaptionTheme } from './theme';
+import { captionSeparator, getCurrentWordIndex, getEmphasisMap, getWordTimings, WordTiming } from './utils';
 
 interface KaraokeHighlightProps {
     text: string;
     durationInSeconds: number;
-    color?: string; // Add optional color prop
+    wordTimings?: WordTiming[] | null; // Real timings from the scene audio, estimated when missing
+    emphasis?: CaptionEmphasis | null;
+    settings: ProjectSettings;
 }
 
 export const KaraokeHighlight: React.FC<KaraokeHighlightProps> = ({
     text,
     durationInSeconds,
-    color = '#00D9FF' // Default neon blue
+    wordTimings,
+    emphasis,
+    settings
 }) => {
     const frame = useCurrentFrame();
     const { fps } = useVideoConfig();
+    const theme = useCaptionTheme(settings.captions);
+    const color = theme.highlightColor;
     const currentTime = frame / fps;
 
-    const timings = estimateWordTimings(text, durationInSeconds);
+    const timings = getWordTimings(text, durationInSeconds, wordTimings);
     const currentIndex = getCurrentWordIndex(timings, currentTime);
+    const emphasisMap = getEmphasisMap(text, emphasis);
 
     // Group words into pairs
     const currentPairIndex = Math.floor(currentIndex / 2);
@@ -43,40 +53,23 @@ export const KaraokeHighlight: React.FC<KaraokeHighlightProps> = ({
         }
     }
 
-    // Show only 3 pairs at a time (5-6 words total) - sliding window
-    const WINDOW_SIZE = 3;
+    // Show only as many pairs as fit the line (3 pairs = 5-6 words by default) - sliding window
+    const WINDOW_SIZE = Math.ceil(theme.maxWordsPerLine / 2);
     const startPairIndex = Math.max(0, currentPairIndex - 1);
     const endPairIndex = Math.min(pairs.length, startPairIndex + WINDOW_SIZE);
     const visiblePairs = pairs.slice(startPairIndex, endPairIndex);
 
-    // Convert hex color to RGB for glow effects
-    const hexToRgb = (hex: string) => {
-        const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-        return result ? {
-            r: parseInt(result[1], 16),
-            g: parseInt(result[2], 16),
-            b: parseInt(result[3], 16)
-        } : { r: 0, g: 217, b: 255 };
-    };
-
-    const rgb = hexToRgb(color);
-
     return (
-        <AbsoluteFill style={{
-            justifyContent: 'flex-end',
-            alignItems: 'center',
-            paddingBottom: 100,
-            pointerEvents: 'none'
-        }}>
-            <div style={{
-                backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        <AbsoluteFill style={theme.containerStyle}>
+            <div style={theme.boxBackground ? {
+                backgroundColor: theme.boxBackground,
                 padding: '28px 48px',
                 borderRadius: 20,
                 maxWidth: '90%',
                 backdropFilter: 'blur(20px)',
-                border: `2px solid rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.4)`,
-                boxShadow: `0 12px 48px rgba(0, 0, 0, 0.8), 0 0 80px rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, 0.2)`
-            }}>
+                border: `2px solid ${hexToRgba(color, 0.4)}`,
+                boxShadow: `0 12px 48px rgba(0, 0, 0, 0.8), 0 0 80px ${hexToRgba(color, 0.2)}`
+            } : { maxWidth: '90%' }}>
                 <div style={{
                     display: 'flex',
                     justifyContent: 'center',
@@ -114,18 +107,18 @@ export const KaraokeHighlight: React.FC<KaraokeHighlightProps> = ({
                         const textColor = isActive
                             ? activeColor
                             : isPast
-                                ? '#FFFFFF'
+                                ? theme.textColor
                                 : '#666666';
 
                         // Enhanced neon glow effect
                         const textShadow = isActive
                             ? `
-                                0 0 ${glowIntensity * 40}px rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${glowIntensity}),
-                                0 0 ${glowIntensity * 60}px rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${glowIntensity * 0.7}),
-                                0 0 ${glowIntensity * 90}px rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${glowIntensity * 0.4}),
+                                0 0 ${glowIntensity * 40}px ${hexToRgba(color, glowIntensity)},
+                                0 0 ${glowIntensity * 60}px ${hexToRgba(color, glowIntensity * 0.7)},
+                                0 0 ${glowIntensity * 90}px ${hexToRgba(color, glowIntensity * 0.4)},
                                 0 4px 12px rgba(0,0,0,0.9)
                             `
-                            : '3px 3px 8px rgba(0,0,0,0.9)';
+                            : theme.textShadow;
 
                         // Subtle brightness pulse
                         const brightness = isActive ? 1 + (glowIntensity * 0.3) : 1;
@@ -137,8 +130,8 @@ export const KaraokeHighlight: React.FC<KaraokeHighlightProps> = ({
                             <span
                                 key={pair.pairIndex}
                                 style={{
-                                    fontFamily: 'Inter, Arial, sans-serif',
-                                    fontSize: 56,
+                                    fontFamily: theme.fontFamily,
+                                    fontSize: theme.fontSize,
                                     fontWeight: isActive ? 900 : 600,
                                     color: textColor,
                                     transform: `scale(${scale})`,
@@ -158,7 +151,14 @@ export const KaraokeHighlight: React.FC<KaraokeHighlightProps> = ({
                                     zIndex: isActive ? 10 : 1
                                 }}
                             >
-                                {pair.words.join(' ')}
+                                <EmphasizedText
+                                    words={pair.words}
+                                    firstIndex={pair.pairIndex * 2}
+                                    emphasis={emphasisMap}
+                                    mode={settings.captions.emphasis}
+                                    separator={captionSeparator(text)}
+                                    color={isActive ? undefined : color}
+                                />
                             </span>
                         );
                     })}
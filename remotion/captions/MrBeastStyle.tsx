@@ -1,39 +1,57 @@
 import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, spring, interpolate, Easing } from 'remotion';
-import { estimateWordTimings } from './utils';
+import type { CaptionEmphasis, ProjectSettings } from '../../types';
+import { EmphasizedText } from './EmphasizedText';
+import { hexToRgba, useCaptionTheme } from './theme';
+import { captionSeparator, getEmphasisMap, getWordTimings, WordTiming } from './utils';
 
 interface MrBeastStyleProps {
     text: string;
     durationInSeconds: number;
+    wordTimings?: WordTiming[] | null; // Real timings from the scene audio, estimated when missing
+    emphasis?: CaptionEmphasis | null;
+    settings: ProjectSettings;
 }
 
-export const MrBeastStyle: React.FC<MrBeastStyleProps> = ({ text, durationInSeconds }) => {
+export const MrBeastStyle: React.FC<MrBeastStyleProps> = ({ text, durationInSeconds, wordTimings, emphasis, settings }) => {
     const frame = useCurrentFrame();
     const { fps } = useVideoConfig();
+    const theme = useCaptionTheme(settings.captions);
     const currentTime = frame / fps;
 
-    const timings = estimateWordTimings(text, durationInSeconds);
+    const timings = getWordTimings(text, durationInSeconds, wordTimings);
 
-    // Group words into 3 word chunks for better readability
-    const chunks: { words: string[], startTime: number, endTime: number }[] = [];
-    const wordsPerChunk = 3;
+    // Group words into short chunks (3 words by default) for better readability
+    const chunks: { words: string[], firstIndex: number, startTime: number, endTime: number }[] = [];
+    const wordsPerChunk = theme.maxWordsPerLine;
 
     for (let i = 0; i < timings.length; i += wordsPerChunk) {
         const chunkTimings = timings.slice(i, i + wordsPerChunk);
         chunks.push({
             words: chunkTimings.map(t => t.word),
+            firstIndex: i,
             startTime: chunkTimings[0].startTime,
             endTime: chunkTimings[chunkTimings.length - 1].endTime
         });
     }
 
-    // Find current chunk
-    const currentChunk = chunks.find(c =>
-        currentTime >= c.startTime && currentTime < c.endTime
-    );
+    // Find current chunk (held through pauses between words)
+    const currentChunk = [...chunks].reverse().find(c => currentTime >= c.startTime);
 
     if (!currentChunk) return null;
 
+    const emphasisMap = getEmphasisMap(text, emphasis);
+    const renderWords = (color?: string) => (
+        <EmphasizedText
+            words={currentChunk.words}
+            firstIndex={currentChunk.firstIndex}
+            emphasis={emphasisMap}
+            mode={settings.captions.emphasis}
+            separator={captionSeparator(text)}
+            color={color}
+        />
+    );
+
     const chunkStartFrame = currentChunk.startTime * fps;
     const framesSinceStart = frame - chunkStartFrame;
 
@@ -62,15 +80,13 @@ export const MrBeastStyle: React.FC<MrBeastStyleProps> = ({ text, durationInSeco
     const rotation = 0;
 
     return (
-        <AbsoluteFill style={{
-            justifyContent: 'center',
-            alignItems: 'center',
-            pointerEvents: 'none'
-        }}>
+        <AbsoluteFill style={theme.containerStyle}>
             <div style={{
                 transform: `scale(${scale}) rotate(${rotation}deg) translateX(${shake}px)`,
                 textAlign: 'center',
-                padding: '0 40px'
+                padding: theme.boxBackground ? '16px 40px' : '0 40px',
+                backgroundColor: theme.boxBackground ?? undefined,
+                borderRadius: 16
             }}>
                 {/* Outer glow layers */}
                 <div style={{
@@ -83,26 +99,26 @@ export const MrBeastStyle: React.FC<MrBeastStyleProps> = ({ text, durationInSeco
                     zIndex: -1
                 }}>
                     <h1 style={{
-                        fontFamily: 'Inter, Arial Black, sans-serif',
-                        fontSize: 76,
+                        fontFamily: theme.fontFamily,
+                        fontSize: theme.fontSize,
                         fontWeight: 900,
-                        color: '#FFD700',
+                        color: theme.highlightColor,
                         textTransform: 'uppercase',
                         letterSpacing: '2px',
                         margin: 0,
                         lineHeight: 1.2,
                         whiteSpace: 'nowrap'
                     }}>
-                        {currentChunk.words.join(' ')}
+                        {renderWords()}
                     </h1>
                 </div>
 
                 {/* Main text with neon effect */}
                 <h1 style={{
-                    fontFamily: 'Inter, Arial Black, sans-serif',
-                    fontSize: 76,
+                    fontFamily: theme.fontFamily,
+                    fontSize: theme.fontSize,
                     fontWeight: 900,
-                    color: '#FFFFFF',
+                    color: theme.textColor,
                     textTransform: 'uppercase',
                     letterSpacing: '2px',
                     margin: 0,
@@ -113,25 +129,25 @@ export const MrBeastStyle: React.FC<MrBeastStyleProps> = ({ text, durationInSeco
                         -5px 5px 0 #000,
                         5px 5px 0 #000,
                         0 0 20px rgba(255,255,255,${glowPulse}),
-                        0 0 40px rgba(255,215,0,${glowPulse * 0.8}),
-                        0 0 60px rgba(255,165,0,${glowPulse * 0.6})
+                        0 0 40px ${hexToRgba(theme.highlightColor, glowPulse * 0.8)},
+                        0 0 60px ${hexToRgba(theme.highlightColor, glowPulse * 0.6)}
                     `,
-                    WebkitTextStroke: '4px black',
+                    WebkitTextStroke: `${theme.strokePx}px black`,
                     paintOrder: 'stroke fill',
-                    filter: `drop-shadow(0 6px 12px rgba(0,0,0,0.7))`,
+                    filter: theme.shadow ? `drop-shadow(0 6px 12px rgba(0,0,0,0.7))` : undefined,
                     position: 'relative',
                     zIndex: 1
                 }}>
-                    {currentChunk.words.join(' ')}
+                    {renderWords(theme.highlightColor)}
                 </h1>
 
                 {/* Bottom accent line */}
                 <div style={{
                     marginTop: 12,
                     height: 6,
-                    background: 'linear-gradient(90deg, transparent, #FFD700, transparent)',
+                    background: `linear-gradient(90deg, transparent, ${theme.highlightColor}, transparent)`,
                     borderRadius: 3,
-                    boxShadow: `0 0 ${glowPulse * 20}px rgba(255, 215, 0, ${glowPulse})`,
+                    boxShadow: `0 0 ${glowPulse * 20}px ${hexToRgba(theme.highlightColor, glowPulse)}`,
                     transform: `scaleX(${interpolate(framesSinceStart, [0, 15], [0, 1], { extrapolateRight: 'clamp' })})`
                 }} />
             </div>
@@ -1,19 +1,27 @@
 import React from 'react';
 import { AbsoluteFill, useCurrentFrame, useVideoConfig, interpolate, spring, Easing } from 'remotion';
-import { estimateWordTimings, getCurrentWordIndex } from './utils';
+import type { CaptionEmphasis, ProjectSettings } from '../../types';
+import { EmphasizedText } from './EmphasizedText';
+import { hexToRgba, useCaptionTheme } from './theme';
+import { captionSeparator, getCurrentWordIndex, getEmphasisMap, getWordTimings, WordTiming } from './utils';
 
 interface WordByWordPopProps {
     text: string;
     durationInSeconds: number;
+    wordTimings?: WordTiming[] | null; // Real timings from the scene audio, estimated when missing
+    emphasis?: CaptionEmphasis | null;
+    settings: ProjectSettings;
 }
 
-export const WordByWordPop: React.FC<WordByWordPopProps> = ({ text, durationInSeconds }) => {
+export const WordByWordPop: React.FC<WordByWordPopProps> = ({ text, durationInSeconds, wordTimings, emphasis, settings }) => {
     const frame = useCurrentFrame();
     const { fps } = useVideoConfig();
+    const theme = useCaptionTheme(settings.captions);
     const currentTime = frame / fps;
 
-    const timings = estimateWordTimings(text, durationInSeconds);
+    const timings = getWordTimings(text, durationInSeconds, wordTimings);
     const currentIndex = getCurrentWordIndex(timings, currentTime);
+    const emphasisMap = getEmphasisMap(text, emphasis);
 
     // Calculate current pair index (every 2 words is a pair)
     const currentPairIndex = Math.floor(currentIndex / 2);
@@ -32,26 +40,23 @@ export const WordByWordPop: React.FC<WordByWordPopProps> = ({ text, durationInSe
         });
     }
 
-    // Show only 3 pairs (5-6 words total)
-    const WINDOW_SIZE = 3;
+    // Show only as many pairs as fit the line (3 pairs = 5-6 words by default)
+    const WINDOW_SIZE = Math.ceil(theme.maxWordsPerLine / 2);
     const startPairIndex = Math.max(0, currentPairIndex - 1);
     const endPairIndex = Math.min(pairs.length, startPairIndex + WINDOW_SIZE);
     const visiblePairs = pairs.slice(startPairIndex, endPairIndex);
 
     return (
-        <AbsoluteFill style={{
-            justifyContent: 'flex-end',
-            alignItems: 'center',
-            paddingBottom: 80,
-            pointerEvents: 'none'
-        }}>
+        <AbsoluteFill style={theme.containerStyle}>
             <div style={{
                 display: 'flex',
                 justifyContent: 'center',
                 alignItems: 'center',
                 maxWidth: '90%',
-                padding: '0 20px',
-                gap: 16
+                padding: theme.boxBackground ? '16px 32px' : '0 20px',
+                gap: 16,
+                backgroundColor: theme.boxBackground ?? undefined,
+                borderRadius: 16
             }}>
                 {visiblePairs.map((pair) => {
                     const isActive = pair.pairIndex === currentPairIndex;
@@ -105,10 +110,10 @@ export const WordByWordPop: React.FC<WordByWordPopProps> = ({ text, durationInSe
                                     left: -12,
                                     right: -12,
                                     bottom: -8,
-                                    background: 'linear-gradient(135deg, #FFD700 0%, #FFA500 100%)',
+                                    background: `linear-gradient(135deg, ${theme.highlightColor} 0%, ${hexToRgba(theme.highlightColor, 0.75)} 100%)`,
                                     borderRadius: 12,
                                     zIndex: -1,
-                                    boxShadow: '0 8px 24px rgba(255, 215, 0, 0.6), 0 0 30px rgba(255, 165, 0, 0.4)',
+                                    boxShadow: `0 8px 24px ${hexToRgba(theme.highlightColor, 0.6)}, 0 0 30px ${hexToRgba(theme.highlightColor, 0.4)}`,
                                     opacity: interpolate(framesSinceActive, [0, 6], [0, 1], { extrapolateRight: 'clamp' })
                                 }} />
                             )}
@@ -121,7 +126,7 @@ export const WordByWordPop: React.FC<WordByWordPopProps> = ({ text, durationInSe
                                     left: -16,
                                     right: -16,
                                     bottom: -16,
-                                    background: 'radial-gradient(circle, rgba(255,215,0,0.3) 0%, transparent 70%)',
+                                    background: `radial-gradient(circle, ${hexToRgba(theme.highlightColor, 0.3)} 0%, transparent 70%)`,
                                     borderRadius: 16,
                                     zIndex: -2,
                                     opacity: interpolate(framesSinceActive, [0, 8, 20], [0, 0.8, 0.3], { extrapolateRight: 'clamp' })
@@ -130,19 +135,24 @@ export const WordByWordPop: React.FC<WordByWordPopProps> = ({ text, durationInSe
 
                             {/* Both words together */}
                             <span style={{
-                                fontFamily: 'Inter, Arial, sans-serif',
-                                fontSize: isActive ? 64 : 50,
+                                fontFamily: theme.fontFamily,
+                                fontSize: isActive ? theme.fontSize : Math.round(theme.fontSize * 0.78),
                                 fontWeight: isActive ? 900 : 700,
-                                color: isActive ? '#1A1A1A' : (isPast ? '#FFFFFF' : '#C0C0C0'),
-                                textShadow: isActive
-                                    ? 'none'
-                                    : '3px 3px 6px rgba(0,0,0,0.9), -1px -1px 2px rgba(0,0,0,0.7)',
+                                color: isActive ? '#1A1A1A' : (isPast ? theme.textColor : '#C0C0C0'),
+                                textShadow: isActive ? 'none' : theme.textShadow,
                                 letterSpacing: isActive ? '1.5px' : '0.5px',
                                 textTransform: 'uppercase',
                                 transition: !isActive ? 'all 0.25s ease' : 'none',
                                 whiteSpace: 'nowrap'
                             }}>
-                                {pair.words.join(' ')}
+                                <EmphasizedText
+                                    words={pair.words}
+                                    firstIndex={pair.indices[0]}
+                                    emphasis={emphasisMap}
+                                    mode={settings.captions.emphasis}
+                                    separator={captionSeparator(text)}
+                                    color={isActive ? undefined : theme.highlightColor}
+                                />
                             </span>
                         </div>
                     );
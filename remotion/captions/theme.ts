@@ -0,0 +1,181 @@
+/**
+ * Caption Theme
+ * Resolves ProjectSettings.captions into the concrete look every caption style renders with: font
+ * (Google Fonts are loaded on first use), size, stroke, shadow, colours, background box, words per
+ * line and placement inside a safe area. Options left unset fall back to the style's own defaults.
+ * font and color are stored on every project, so they only replace a style's own font / highlight
+ * once the user has picked them (captions.overrides).
+ */
+
+import type React from 'react';
+import { useVideoConfig } from 'remotion';
+import { loadFont as loadAnton } from '@remotion/google-fonts/Anton';
+import { loadFont as loadBebasNeue } from '@remotion/google-fonts/BebasNeue';
+import { loadFont as loadInter } from '@remotion/google-fonts/Inter';
+import { loadFont as loadMontserrat } from '@remotion/google-fonts/Montserrat';
+import { loadFont as loadOswald } from '@remotion/google-fonts/Oswald';
+import { loadFont as loadPermanentMarker } from '@remotion/google-fonts/PermanentMarker';
+import { loadFont as loadPoppins } from '@remotion/google-fonts/Poppins';
+import type { CaptionFont, CaptionSettings } from '../../types';
+
+export const CAPTION_FONTS: Record<CaptionFont, { label: string; fontFamily: string; load?: () => void }> = {
+    helvetica: { label: 'Sans', fontFamily: 'Helvetica, Arial, sans-serif' },
+    serif: { label: 'Serif', fontFamily: 'Georgia, "Times New Roman", serif' },
+    brush: { label: 'Brush', fontFamily: '"Permanent Marker", cursive', load: () => loadPermanentMarker() },
+    inter: { label: 'Inter', fontFamily: '"Inter", Arial, sans-serif', load: () => loadInter('normal', { weights: ['400', '700', '900'], subsets: ['latin'] }) },
+    montserrat: { label: 'Montserrat', fontFamily: '"Montserrat", Arial, sans-serif', load: () => loadMontserrat('normal', { weights: ['400', '700', '900'], subsets: ['latin'] }) },
+    poppins: { label: 'Poppins', fontFamily: '"Poppins", Arial, sans-serif', load: () => loadPoppins('normal', { weights: ['400', '700', '900'], subsets: ['latin'] }) },
+    oswald: { label: 'Oswald', fontFamily: '"Oswald", "Arial Narrow", sans-serif', load: () => loadOswald('normal', { weights: ['400', '700'], subsets: ['latin'] }) },
+    bebas_neue: { label: 'Bebas Neue', fontFamily: '"Bebas Neue", Impact, sans-serif', load: () => loadBebasNeue('normal', { weights: ['400'], subsets: ['latin'] }) },
+    anton: { label: 'Anton', fontFamily: 'Anton, Impact, sans-serif', load: () => loadAnton('normal', { weights: ['400'], subsets: ['latin'] }) },
+    impact: { label: 'Impact', fontFamily: 'Impact, "Arial Black", sans-serif' },
+};
+
+type StyleDefaults = {
+    font?: CaptionFont; // Unset: the style has always used captions.font
+    highlightColor?: string; // Unset: the style has always used captions.color
+    sizeScale: number; // Relative to the classic size for the chosen fontSize
+    textColor: string;
+    shadow: boolean;
+    backgroundBox: boolean;
+    boxColor: string;
+    boxOpacity: number;
+    maxWordsPerLine: number;
+};
+
+const STYLE_DEFAULTS: Record<CaptionSettings['style'], StyleDefaults> = {
+    classic: { sizeScale: 1, textColor: '#FFFFFF', shadow: false, backgroundBox: false, boxColor: '#000000', boxOpacity: 0.6, maxWordsPerLine: 6 },
+    word_pop: { font: 'inter', highlightColor: '#FFD700', sizeScale: 1, textColor: '#FFFFFF', shadow: true, backgroundBox: false, boxColor: '#000000', boxOpacity: 0.6, maxWordsPerLine: 6 },
+    karaoke: { font: 'inter', sizeScale: 0.875, textColor: '#FFFFFF', shadow: true, backgroundBox: true, boxColor: '#000000', boxOpacity: 0.85, maxWordsPerLine: 6 },
+    mrbeast: { font: 'inter', highlightColor: '#FFD700', sizeScale: 1.2, textColor: '#FFFFFF', shadow: true, backgroundBox: false, boxColor: '#000000', boxOpacity: 0.6, maxWordsPerLine: 3 },
+    dark_psychology: { font: 'impact', highlightColor: '#FFD700', sizeScale: 1.3, textColor: '#FFFFFF', shadow: true, backgroundBox: true, boxColor: '#000000', boxOpacity: 0.7, maxWordsPerLine: 2 },
+};
+
+export const DEFAULT_SAFE_AREA = 6;
+
+/**
+ * Font the captions render with: the user's pick, else the style's own font.
+ */
+export function captionFont(captions: CaptionSettings): CaptionFont {
+    const defaults = STYLE_DEFAULTS[captions.style] ?? STYLE_DEFAULTS.classic;
+    const font = captions.overrides?.includes('font') || !defaults.font ? captions.font : defaults.font;
+    return CAPTION_FONTS[font] ? font : 'helvetica';
+}
+
+/**
+ * Highlight colour the captions render with: the user's pick, else the style's own highlight.
+ */
+export function captionHighlightColor(captions: CaptionSettings): string {
+    const defaults = STYLE_DEFAULTS[captions.style] ?? STYLE_DEFAULTS.classic;
+    const color = captions.overrides?.includes('color') || !defaults.highlightColor ? captions.color : defaults.highlightColor;
+    return color || '#00D9FF';
+}
+
+/**
+ * Sets the font or highlight colour as the user's pick, so it replaces every style's own.
+ */
+export function overrideCaptions(captions: CaptionSettings, changes: Pick<Partial<CaptionSettings>, 'font' | 'color'>): CaptionSettings {
+    const picked = (Object.keys(changes) as ('font' | 'color')[]).filter(key => changes[key] !== undefined);
+    return { ...captions, ...changes, overrides: Array.from(new Set([...(captions.overrides || []), ...picked])) };
+}
+
+const STROKE_SHADOWS: Record<CaptionSettings['strokeWidth'], string> = {
+    thin: '2px 2px 0 #000, -1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000',
+    medium: '3px 3px 0 #000, -1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000',
+    thick: '4px 4px 0 #000, -2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000, 2px 2px 0 #000',
+    bold: '5px 5px 0 #000, -2px -2px 0 #000, 2px -2px 0 #000, -2px 2px 0 #000, 2px 2px 0 #000, 0 0 10px #000'
+};
+
+// -webkit-text-stroke widths; the stroke is painted under the fill, so half of it shows
+const STROKE_PX: Record<CaptionSettings['strokeWidth'], number> = { thin: 2, medium: 4, thick: 6, bold: 8 };
+
+const DROP_SHADOW = '0 6px 16px rgba(0,0,0,0.85)';
+
+export type CaptionTheme = {
+    fontFamily: string;
+    fontSize: number; // px of the style's main text
+    textColor: string;
+    highlightColor: string;
+    textShadow: string; // Stroke outline, plus a drop shadow when enabled
+    strokePx: number;
+    shadow: boolean;
+    boxBackground: string | null; // rgba, null = no background box
+    maxWordsPerLine: number;
+    containerStyle: React.CSSProperties; // Placement for the style's AbsoluteFill
+};
+
+export function hexToRgba(hex: string, alpha: number): string {
+    const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+    const [r, g, b] = result
+        ? [parseInt(result[1], 16), parseInt(result[2], 16), parseInt(result[3], 16)]
+        : [0, 0, 0];
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+}
+
+// Dynamic font size based on orientation, screen size, and user preference
+function baseFontSize(fontSize: CaptionSettings['fontSize'], width: number, height: number): number {
+    const sizeMap = {
+        small: height > width ? (width < 500 ? 24 : 36) : (width < 1000 ? 32 : 48),
+        medium: height > width ? (width < 500 ? 32 : 48) : (width < 1000 ? 42 : 64),
+        large: height > width ? (width < 500 ? 40 : 60) : (width < 1000 ? 52 : 80),
+        xlarge: height > width ? (width < 500 ? 48 : 72) : (width < 1000 ? 64 : 96)
+    };
+    return sizeMap[fontSize] ?? sizeMap.medium;
+}
+
+function placement(position: CaptionSettings['position'], safeArea: number, height: number): React.CSSProperties {
+    const margin = Math.round(height * safeArea / 100);
+    const base: React.CSSProperties = {
+        flexDirection: 'column',
+        alignItems: 'center',
+        paddingLeft: margin,
+        paddingRight: margin,
+        pointerEvents: 'none'
+    };
+
+    switch (position) {
+        case 'top':
+            return { ...base, justifyContent: 'flex-start', paddingTop: margin };
+        case 'center':
+            return { ...base, justifyContent: 'center' };
+        case 'mid-bottom':
+            return { ...base, justifyContent: 'flex-end', paddingBottom: margin + Math.round(height * 0.06) };
+        default:
+            return { ...base, justifyContent: 'flex-end', paddingBottom: margin };
+    }
+}
+
+const loadedFonts = new Set<CaptionFont>();
+
+function ensureFontLoaded(font: CaptionFont) {
+    if (loadedFonts.has(font)) return;
+    loadedFonts.add(font);
+    CAPTION_FONTS[font].load?.();
+}
+
+export function useCaptionTheme(captions: CaptionSettings): CaptionTheme {
+    const { width, height } = useVideoConfig();
+    const defaults = STYLE_DEFAULTS[captions.style] ?? STYLE_DEFAULTS.classic;
+
+    const font = captionFont(captions);
+    ensureFontLoaded(font);
+
+    const strokeWidth = STROKE_SHADOWS[captions.strokeWidth] ? captions.strokeWidth : 'medium';
+    const shadow = captions.shadow ?? defaults.shadow;
+    const backgroundBox = captions.backgroundBox ?? defaults.backgroundBox;
+
+    return {
+        fontFamily: CAPTION_FONTS[font].fontFamily,
+        fontSize: Math.round(baseFontSize(captions.fontSize, width, height) * defaults.sizeScale),
+        textColor: captions.textColor || defaults.textColor,
+        highlightColor: captionHighlightColor(captions),
+        textShadow: shadow ? `${STROKE_SHADOWS[strokeWidth]}, ${DROP_SHADOW}` : STROKE_SHADOWS[strokeWidth],
+        strokePx: STROKE_PX[strokeWidth],
+        shadow,
+        boxBackground: backgroundBox
+            ? hexToRgba(captions.boxColor || defaults.boxColor, captions.boxOpacity ?? defaults.boxOpacity)
+            : null,
+        maxWordsPerLine: Math.max(1, Math.round(captions.maxWordsPerLine ?? defaults.maxWordsPerLine)),
+        containerStyle: placement(captions.position, captions.safeArea ?? DEFAULT_SAFE_AREA, height),
+    };
+}
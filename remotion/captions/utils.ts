@@ -1,14 +1,70 @@
-export interface WordTiming {
-    word: string;
-    startTime: number; // in seconds
-    endTime: number;
+import type { CaptionEmphasis, WordTiming } from '../../types';
+
+export type { WordTiming };
+
+// Scripts written without spaces between words (Chinese, Japanese, Thai...)
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+const RTL_SCRIPT = /[\p{Script=Arabic}\p{Script=Hebrew}\p{Script=Syriac}\p{Script=Thaana}]/u;
+
+/**
+ * A caption's words. Spaced text splits on whitespace; text in a script without spaces is split
+ * into dictionary words by Intl.Segmenter, each word keeping the punctuation and spaces after it so
+ * the words joined with captionSeparator() give back the text.
+ */
+export function splitCaptionWords(text: string): string[] {
+    const trimmed = text.trim();
+    if (!UNSPACED_SCRIPT.test(trimmed) || typeof Intl.Segmenter !== 'function') {
+        return trimmed.split(/\s+/).filter(w => w.length > 0);
+    }
+
+    const words: string[] = [];
+    let leading = ''; // Punctuation before the first word (opening quotes...)
+    for (const { segment, isWordLike } of new Intl.Segmenter(undefined, { granularity: 'word' }).segment(trimmed)) {
+        if (isWordLike) {
+            words.push(leading + segment);
+            leading = '';
+        } else if (words.length > 0) {
+            words[words.length - 1] += segment;
+        } else {
+            leading += segment;
+        }
+    }
+    if (leading.trim()) words.push(leading);
+    return words;
+}
+
+/**
+ * What goes between a caption's words when they are shown together
+ */
+export function captionSeparator(text: string): string {
+    return UNSPACED_SCRIPT.test(text) ? '' : ' ';
+}
+
+/**
+ * Writing direction of a caption: right-to-left for Arabic and Hebrew script text
+ */
+export function captionDirection(text: string): 'ltr' | 'rtl' {
+    return RTL_SCRIPT.test(text) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Word timings for a scene's caption: the real timings captured with its audio when they match
+ * the text (same word count), otherwise an even estimate.
+ */
+export function getWordTimings(text: string, durationInSeconds: number, wordTimings?: WordTiming[] | null): WordTiming[] {
+    const words = splitCaptionWords(text);
+    if (wordTimings && wordTimings.length > 0 && wordTimings.length === words.length) {
+        // Display the current text; timings only carry the timestamps
+        return wordTimings.map((timing, i) => ({ ...timing, word: words[i] }));
+    }
+    return estimateWordTimings(text, durationInSeconds);
 }
 
 /**
  * Estimates word timings by dividing total duration evenly across words
  */
 export function estimateWordTimings(text: string, durationInSeconds: number): WordTiming[] {
-    const words = text.trim().split(/\s+/).filter(w => w.length > 0);
+    const words = splitCaptionWords(text);
     if (words.length === 0) return [];
 
     const timePerWord = durationInSeconds / words.length;
@@ -21,12 +77,15 @@ export function estimateWordTimings(text: string, durationInSeconds: number): Wo
 }
 
 /**
- * Gets the currently active word based on current time
+ * Gets the currently active word based on current time.
+ * During pauses the last spoken word stays active; -1 before the first word.
  */
 export function getCurrentWordIndex(timings: WordTiming[], currentTimeInSeconds: number): number {
-    return timings.findIndex(t =>
-        currentTimeInSeconds >= t.startTime && currentTimeInSeconds < t.endTime
-    );
+    let index = -1;
+    for (let i = 0; i < timings.length && timings[i].startTime <= currentTimeInSeconds; i++) {
+        index = i;
+    }
+    return index;
 }
 
 /**
@@ -39,3 +98,18 @@ export function breakIntoLines(words: string[], maxWordsPerLine: number = 6): st
     }
     return lines;
 }
+
+/**
+ * Emphasized words of a scene's caption by word index, with the emoji to add (null = none).
+ * Empty when the tags were made for different text.
+ */
+export function getEmphasisMap(text: string, emphasis?: CaptionEmphasis | null): Map<number, string | null> {
+    const map = new Map<number, string | null>();
+    if (!emphasis || emphasis.text !== text) return map;
+
+    const wordCount = splitCaptionWords(text).length;
+    for (const word of emphasis.words) {
+        if (word.index >= 0 && word.index < wordCount) map.set(word.index, word.emoji);
+    }
+    return map;
+}
@@ -0,0 +1,47 @@
+/**
+ * Composition Timeline
+ * Frame layout of MainComposition, shared with anything that has to line up with the rendered video
+ * (e.g. caption export in lib/subtitles).
+ */
+
+import type { ProjectSettings, SceneApi } from '../types';
+
+export const FPS = 30;
+export const DISCLAIMER_FRAMES = 45; // 1.5s
+// Audio files from Minimax may be 1-2s longer than reported duration
+export const LAST_SCENE_BUFFER_SECONDS = 2.0;
+
+/**
+ * The disclaimer plays at the start of a full render or of its first part.
+ */
+export function showsDisclaimer(settings: Pick<ProjectSettings, 'disclaimerEnabled'>, isFirstPart?: boolean): boolean {
+    return !!settings.disclaimerEnabled && (isFirstPart === undefined || isFirstPart === true);
+}
+
+/**
+ * Frames a scene occupies; the last scene gets a buffer so its audio completes.
+ */
+export function sceneDurationInFrames(scene: Pick<SceneApi, 'duration'>, isLastScene: boolean): number {
+    let durationInSeconds = scene.duration || 5;
+    if (isLastScene) {
+        durationInSeconds += LAST_SCENE_BUFFER_SECONDS;
+    }
+    return Math.ceil(durationInSeconds * FPS);
+}
+
+/**
+ * Start frame and length of every scene, in composition order.
+ */
+export function sceneTimeline(
+    scenes: Pick<SceneApi, 'duration'>[],
+    settings: Pick<ProjectSettings, 'disclaimerEnabled'>,
+    isFirstPart?: boolean
+): { startFrame: number; durationInFrames: number }[] {
+    let frame = showsDisclaimer(settings, isFirstPart) ? DISCLAIMER_FRAMES : 0;
+    return scenes.map((scene, index) => {
+        const durationInFrames = sceneDurationInFrames(scene, index === scenes.length - 1);
+        const entry = { startFrame: frame, durationInFrames };
+        frame += durationInFrames;
+        return entry;
+    });
+}
@@ -54,6 +54,317 @@ create policy "Users can update scenes of own projects" on scenes for update usi
   exists ( select 1 from projects where id = scenes.project_id and user_id = auth.uid() )
 );
 
+-- Image provider audit (which provider actually produced each scene image)
+alter table scenes add column if not exists image_provider text;
+alter table scenes add column if not exists image_provider_2 text;
+
+-- Assets left out of date by a scene text edit ('audio', 'prompt'), cleared on regeneration
+alter table scenes add column if not exists stale_assets text[] default '{}' not null;
+
+-- Scene descriptions planned in batches before generation ({ text, prompts }), see lib/promptPlanning
+alter table scenes add column if not exists prompt_plan jsonb;
+
+-- User-locked image prompt: generation and regeneration use scenes.prompt verbatim instead of writing a new one
+alter table scenes add column if not exists prompt_locked boolean default false not null;
+
+-- Candidates mode (manual selection): the scene shows its first candidate until the user picks one
+alter table scenes add column if not exists candidates_pending boolean default false not null;
+
+-- Per-word timestamps of the scene audio for captions ([{ word, startTime, endTime }] in seconds), see lib/wordTimings
+alter table scenes add column if not exists word_timings jsonb;
+
+-- Caption emphasis words ({ text, words: [{ index, emoji }], manual }), see lib/captionEmphasis
+alter table scenes add column if not exists caption_emphasis jsonb;
+
+-- Scene boundaries computed by lib/segmentation when the project is created
+alter table projects add column if not exists segments jsonb;
+
+-- Story bible (recurring characters, locations, era) for consistent scene prompts, see lib/storyContext
+alter table projects add column if not exists story_bible jsonb;
+
+-- JOBS (server-side batch scene generation, progress streamed to the studio via Realtime)
+create table if not exists jobs (
+  id uuid default uuid_generate_v4() primary key,
+  project_id uuid references projects on delete cascade not null,
+  user_id uuid references auth.users not null,
+  type text check (type in ('generate_scenes', 'narrate_scenes')) default 'generate_scenes' not null,
+  status text check (status in ('queued', 'running', 'completed', 'failed', 'cancelled')) default 'queued' not null,
+  total integer default 0 not null,
+  completed integer default 0 not null,
+  failed integer default 0 not null,
+  failed_indices integer[] default '{}' not null,
+  current_message text,
+  error text,
+  heartbeat_at timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+create index if not exists jobs_project_id_idx on jobs (project_id, created_at desc);
+-- Owner of a running job: each runner claims it with a fresh token and stops once the token changes
+alter table jobs add column if not exists run_token uuid;
+-- narrate_scenes: audio-only jobs for translated projects (existing databases)
+alter table jobs drop constraint if exists jobs_type_check;
+alter table jobs add constraint jobs_type_check check (type in ('generate_scenes', 'narrate_scenes'));
+
+-- RLS for Jobs (read-only for users; queued, cancelled and resumed by server actions with the service role)
+alter table jobs enable row level security;
+create policy "Users can view own jobs" on jobs for select using (auth.uid() = user_id);
+-- Jobs are only written by the server, after it has checked the project is the user's
+drop policy if exists "Users can insert jobs for own projects" on jobs;
+drop policy if exists "Users can update own jobs" on jobs;
+
+alter publication supabase_realtime add table jobs;
+
+-- SCENE STRUCTURE RPCs (insert / delete / split / merge / reorder)
+-- Each renumbers order_index and writes the project's script + segments in one transaction.
+-- security invoker: the caller's RLS policies still apply.
+create policy "Users can delete scenes of own projects" on scenes for delete using (
+  exists ( select 1 from projects where id = scenes.project_id and user_id = auth.uid() )
+);
+
+create or replace function insert_scene(p_project_id uuid, p_at integer, p_text text, p_script text, p_segments jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  new_id uuid;
+begin
+  update scenes set order_index = order_index + 1
+  where project_id = p_project_id and order_index >= p_at;
+
+  insert into scenes (project_id, order_index, text, status)
+  values (p_project_id, p_at, p_text, 'pending')
+  returning id into new_id;
+
+  update projects set script = p_script, segments = p_segments where id = p_project_id;
+  return new_id;
+end;
+$$;
+
+create or replace function delete_scene(p_scene_id uuid, p_script text, p_segments jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  target scenes%rowtype;
+begin
+  select * into target from scenes where id = p_scene_id;
+  if not found then
+    raise exception 'Scene not found';
+  end if;
+
+  delete from scenes where id = p_scene_id;
+  update scenes set order_index = order_index - 1
+  where project_id = target.project_id and order_index > target.order_index;
+
+  update projects set script = p_script, segments = p_segments where id = target.project_id;
+end;
+$$;
+
+-- The first half keeps the scene's primary image; a second image (long sentence break) moves to the new scene
+create or replace function split_scene(p_scene_id uuid, p_first_text text, p_second_text text, p_script text, p_segments jsonb)
+returns uuid
+language plpgsql
+as $$
+declare
+  target scenes%rowtype;
+  new_id uuid;
+begin
+  select * into target from scenes where id = p_scene_id;
+  if not found then
+    raise exception 'Scene not found';
+  end if;
+
+  update scenes set order_index = order_index + 1
+  where project_id = target.project_id and order_index > target.order_index;
+
+  update scenes set
+    text = p_first_text,
+    image_url_2 = null,
+    image_provider_2 = null,
+    stale_assets = array(select distinct unnest(stale_assets || array['audio', 'prompt']))
+  where id = p_scene_id;
+
+  insert into scenes (project_id, order_index, text, status, image_url, image_provider, media_type, stale_assets)
+  values (
+    target.project_id,
+    target.order_index + 1,
+    p_second_text,
+    case when target.image_url_2 is not null then 'ready' else 'pending' end,
+    target.image_url_2,
+    target.image_provider_2,
+    'image',
+    case when target.image_url_2 is not null then array['audio', 'prompt'] else '{}'::text[] end
+  )
+  returning id into new_id;
+
+  update projects set script = p_script, segments = p_segments where id = target.project_id;
+  return new_id;
+end;
+$$;
+
+-- Merges p_second_id (which must directly follow p_first_id) into p_first_id.
+-- The second scene's image becomes the merged scene's second image when that slot is free.
+create or replace function merge_scenes(p_first_id uuid, p_second_id uuid, p_text text, p_script text, p_segments jsonb)
+returns void
+language plpgsql
+as $$
+declare
+  first_scene scenes%rowtype;
+  second_scene scenes%rowtype;
+begin
+  select * into first_scene from scenes where id = p_first_id;
+  select * into second_scene from scenes where id = p_second_id;
+  if first_scene.id is null or second_scene.id is null
+    or first_scene.project_id <> second_scene.project_id
+    or second_scene.order_index <> first_scene.order_index + 1 then
+    raise exception 'Scenes must be adjacent scenes of the same project';
+  end if;
+
+  update scenes set
+    text = p_text,
+    image_url_2 = case
+      when image_url_2 is null and coalesce(second_scene.media_type, 'image') = 'image' then second_scene.image_url
+      else image_url_2 end,
+    image_provider_2 = case
+      when image_url_2 is null and coalesce(second_scene.media_type, 'image') = 'image' then second_scene.image_provider
+      else image_provider_2 end,
+    stale_assets = array(select distinct unnest(stale_assets || array['audio', 'prompt']))
+  where id = p_first_id;
+
+  delete from scenes where id = p_second_id;
+  update scenes set order_index = order_index - 1
+  where project_id = first_scene.project_id and order_index > second_scene.order_index;
+
+  update projects set script = p_script, segments = p_segments where id = first_scene.project_id;
+end;
+$$;
+
+-- p_scene_ids lists every scene of the project in its new order, p_order_indices the position each one moves to
+-- (not-yet-generated segments keep theirs)
+drop function if exists reorder_scenes(uuid, uuid[], text, jsonb);
+create or replace function reorder_scenes(p_project_id uuid, p_scene_ids uuid[], p_order_indices integer[], p_script text, p_segments jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  update scenes s set order_index = t.order_index
+  from unnest(p_scene_ids, p_order_indices) as t(id, order_index)
+  where s.id = t.id and s.project_id = p_project_id;
+
+  update projects set script = p_script, segments = p_segments where id = p_project_id;
+end;
+$$;
+
+-- CUSTOM STYLES (user-defined visual styles, selected as visualStyle = 'custom:<id>')
+create table if not exists custom_styles (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users on delete cascade not null,
+  name text not null,
+  style_text text default '' not null,
+  subject_text text default '' not null,
+  negative_prompt text default '' not null,
+  image_provider text check (image_provider in ('fal', 'gemini', 'runware', 'imagen', 'replicate')),
+  reference_image_path text, -- Object path in the assets bucket (custom-styles/<userId>/...)
+  reference_image_url text, -- Public URL of reference_image_path, for display
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+create index if not exists custom_styles_user_id_idx on custom_styles (user_id, created_at desc);
+-- Reference images are stored by path; generation derives their URL from it (existing databases)
+alter table custom_styles add column if not exists reference_image_path text;
+update custom_styles set reference_image_path = substring(reference_image_url from '/storage/v1/object/public/assets/(.*)$')
+  where reference_image_path is null and reference_image_url is not null;
+
+-- RLS for Custom Styles (the job runner reads them with the service role)
+alter table custom_styles enable row level security;
+create policy "Users can view own custom styles" on custom_styles for select using (auth.uid() = user_id);
+create policy "Users can insert own custom styles" on custom_styles for insert with check (auth.uid() = user_id);
+create policy "Users can update own custom styles" on custom_styles for update using (auth.uid() = user_id);
+create policy "Users can delete own custom styles" on custom_styles for delete using (auth.uid() = user_id);
+
+-- REFERENCE CHARACTERS (user-uploaded character images, selected as referenceCharacter = 'custom:<id>')
+create table if not exists reference_characters (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users on delete cascade not null,
+  name text not null,
+  image_path text not null, -- Object path in the assets bucket
+  image_url text not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+create index if not exists reference_characters_user_id_idx on reference_characters (user_id, created_at desc);
+
+-- RLS for Reference Characters (the job runner reads them with the service role)
+alter table reference_characters enable row level security;
+create policy "Users can view own reference characters" on reference_characters for select using (auth.uid() = user_id);
+create policy "Users can insert own reference characters" on reference_characters for insert with check (auth.uid() = user_id);
+create policy "Users can update own reference characters" on reference_characters for update using (auth.uid() = user_id);
+create policy "Users can delete own reference characters" on reference_characters for delete using (auth.uid() = user_id);
+
+-- RUNWARE REFERENCE UPLOADS (lib/runwareReferences: one upload per image + Runware account, service role only)
+create table if not exists runware_reference_uploads (
+  content_hash text not null, -- sha256 of the image bytes
+  key_hash text not null, -- sha256 of the Runware API key the upload belongs to
+  image_uuid text not null,
+  expires_at timestamp with time zone not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (content_hash, key_hash)
+);
+alter table runware_reference_uploads enable row level security;
+
+-- SCENE ASSETS (lib/sceneAssets: every generated image / audio take, so a scene can switch back to an earlier one)
+create table if not exists scene_assets (
+  id uuid default uuid_generate_v4() primary key,
+  scene_id uuid references scenes(id) on delete cascade not null,
+  project_id uuid references projects(id) on delete cascade not null,
+  user_id uuid references auth.users on delete cascade not null,
+  kind text not null check (kind in ('image', 'image_2', 'audio')),
+  url text not null,
+  prompt text,
+  provider text,
+  duration float,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+create index if not exists scene_assets_scene_id_idx on scene_assets (scene_id, created_at desc);
+create index if not exists scene_assets_created_at_idx on scene_assets (created_at);
+
+-- RLS for Scene Assets (read-only for users; recorded and garbage collected with the service role)
+alter table scene_assets enable row level security;
+create policy "Users can view own scene assets" on scene_assets for select using (auth.uid() = user_id);
+-- Takes are only written by the server (service role), after it has checked the scene is the user's
+drop policy if exists "Users can insert own scene assets" on scene_assets;
+
+-- Word timings of audio takes, restored with the take (see scenes.word_timings)
+alter table scene_assets add column if not exists word_timings jsonb;
+
+-- LLM FAILURES (lib/llm: structured responses that stayed invalid after repair, service role only)
+create table if not exists llm_failures (
+  id uuid default uuid_generate_v4() primary key,
+  label text not null, -- call site, e.g. 'scene_prompt'
+  model text not null,
+  reason text not null,
+  raw_output text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+create index if not exists llm_failures_created_at_idx on llm_failures (created_at desc);
+alter table llm_failures enable row level security;
+
+-- CAPTION PRESETS (named caption looks a user saved, applied to ProjectSettings.captions)
+create table if not exists caption_presets (
+  id uuid default uuid_generate_v4() primary key,
+  user_id uuid references auth.users on delete cascade not null,
+  name text not null,
+  captions jsonb not null, -- ProjectSettings.captions without "enabled"
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+create index if not exists caption_presets_user_id_idx on caption_presets (user_id, created_at desc);
+
+-- RLS for Caption Presets
+alter table caption_presets enable row level security;
+create policy "Users can view own caption presets" on caption_presets for select using (auth.uid() = user_id);
+create policy "Users can insert own caption presets" on caption_presets for insert with check (auth.uid() = user_id);
+create policy "Users can delete own caption presets" on caption_presets for delete using (auth.uid() = user_id);
+
 -- RPC: Decrement Credits
 create or replace function decrement_credits(user_id uuid, amount int)
 returns void
@@ -67,6 +378,35 @@ begin
 end;
 $$;
 
+-- RPC: Reserve / Refund Credits (scene generation reserves its cost up front; service role only)
+create or replace function reserve_credits(p_user_id uuid, p_amount int)
+returns boolean
+language plpgsql
+security definer
+as $$
+begin
+  update profiles
+  set credits = credits - p_amount
+  where id = p_user_id and p_amount > 0 and credits >= p_amount;
+  return found;
+end;
+$$;
+
+create or replace function refund_credits(p_user_id uuid, p_amount int)
+returns void
+language plpgsql
+security definer
+as $$
+begin
+  update profiles
+  set credits = credits + p_amount
+  where id = p_user_id and p_amount > 0;
+end;
+$$;
+
+revoke execute on function reserve_credits(uuid, int) from public, anon, authenticated;
+revoke execute on function refund_credits(uuid, int) from public, anon, authenticated;
+
 -- USER CREATION TRIGGER (Fix for missing profiles)
 create or replace function public.handle_new_user()
 returns trigger
@@ -87,4 +427,11 @@ create or replace trigger on_auth_user_created
 -- STORAGE BUCKET POLICY (Execute in Storage Dashboard or SQL if supported)
 -- insert into storage.buckets (id, name, public) values ('assets', 'assets', true);
 -- create policy "Public Access" on storage.objects for select using ( bucket_id = 'assets' );
--- create policy "Auth Upload" on storage.objects for insert with check ( bucket_id = 'assets' and auth.role() = 'authenticated' );
+-- Server code uploads generated assets with the service role. The browser only uploads reference images,
+-- each user into their own folder (assets/custom-styles/<uid>/, assets/characters/<uid>/)
+create policy "Users can upload own custom style images" on storage.objects for insert to authenticated with check (
+  bucket_id = 'assets' and (storage.foldername(name))[1] = 'custom-styles' and (storage.foldername(name))[2] = auth.uid()::text
+);
+create policy "Users can upload own character images" on storage.objects for insert to authenticated with check (
+  bucket_id = 'assets' and (storage.foldername(name))[1] = 'characters' and (storage.foldername(name))[2] = auth.uid()::text
+);
@@ -1,33 +1,42 @@
+import type { ImageProviderId } from '../lib/imageProviders/types';
+
 export type ProjectApi = {
     id: string;
     user_id: string;
     script: string;
+    segments?: string[] | null; // Scene texts from lib/segmentation, fixed at creation
+    story_bible?: StoryBible | null; // Recurring characters / locations / era, extracted on first generation
     status: 'draft' | 'generating' | 'rendering' | 'done' | 'error';
     settings: ProjectSettings;
     created_at: string;
     video_url?: string | null;
 };
 
+export type BuiltInVisualStyle = 'zen' | 'normal' | 'stick' | 'health' | 'cartoon' | 'art' | 'stock_natural' | 'clean_illustration' | 'stock_vector' | 'stock_art' | 'reference_image' | 'thick_stick_color' | 'thick_stick_bw' | 'james_finetuned' | 'grandma_finetuned' | 'dark_animated';
+
+export type StoryBible = {
+    characters: { name: string; description: string }[];
+    locations: { name: string; description: string }[];
+    era: string;
+};
+
 export type ProjectSettings = {
     aspectRatio: '16:9' | '9:16' | '1:1';
-    visualStyle: 'zen' | 'normal' | 'stick' | 'health' | 'cartoon' | 'art' | 'stock_natural' | 'clean_illustration' | 'stock_vector' | 'stock_art' | 'reference_image' | 'thick_stick_color' | 'thick_stick_bw' | 'james_finetuned' | 'grandma_finetuned' | 'dark_animated';
-    referenceCharacter?: 'grandpa' | 'grandma' | 'james' | 'dr_sticky';
+    visualStyle: BuiltInVisualStyle | `custom:${string}`; // custom:<custom_styles.id>, resolved at generation time
+    referenceCharacter?: 'grandpa' | 'grandma' | 'james' | 'dr_sticky' | `custom:${string}`; // custom:<reference_characters.id>
     imageModel: 'fal' | 'gemini' | 'runware' | 'imagen' | 'replicate';  // Renamed from imageProvider for clarity or alias? user said "image generator". Let's stick to imageProvider to match Python script logic if possible, but valid types are key.
+    imageFallbacks?: ImageProviderId[]; // Providers to try in order if imageModel fails (unset = global default)
+    imageCandidates?: {
+        count: number; // Images generated per scene (1 = off, up to 4); each extra image costs a credit
+        selection: 'manual' | 'auto'; // manual = user picks in the storyboard, auto = best score (lib/imageCandidates)
+    };
     audioVoice: string;
+    language?: string; // ISO 639-1 code of the script and narration (English when unset); see LANGUAGE_OPTIONS
     disclaimerEnabled: boolean;
     longSentenceBreak: boolean; // Generate 2 images for scenes with 20+ words
     headingsEnabled: boolean; // Show animated headings for matching scenes
     headings?: string[]; // Array of heading texts extracted from script
-    captions: {
-        enabled: boolean;
-        position: 'bottom' | 'mid-bottom' | 'center' | 'top';
-        font: 'helvetica' | 'serif' | 'brush';
-        fontSize: 'small' | 'medium' | 'large' | 'xlarge';
-        animation: 'none' | 'typewriter' | 'fade-in' | 'slide-up' | 'bounce';
-        strokeWidth: 'thin' | 'medium' | 'thick' | 'bold';
-        style: 'word_pop' | 'karaoke' | 'mrbeast' | 'classic' | 'dark_psychology';
-        color: string; // Hex color for karaoke highlight
-    };
+    captions: CaptionSettings;
     audioWave: {
         enabled: boolean;
         position: 'bottom' | 'center' | 'top' | 'mid-bottom';
@@ -58,6 +67,46 @@ export type ProjectSettings = {
     }[];
 };
 
+export type CaptionFont = 'helvetica' | 'serif' | 'brush' | 'inter' | 'montserrat' | 'poppins' | 'oswald' | 'bebas_neue' | 'anton' | 'impact';
+
+// Theme fields are honoured by every caption style; unset optional ones use the style's own defaults (remotion/captions/theme)
+export type CaptionSettings = {
+    enabled: boolean;
+    position: 'bottom' | 'mid-bottom' | 'center' | 'top';
+    font: CaptionFont;
+    fontSize: 'small' | 'medium' | 'large' | 'xlarge';
+    animation: 'none' | 'typewriter' | 'fade-in' | 'slide-up' | 'bounce'; // Classic only
+    strokeWidth: 'thin' | 'medium' | 'thick' | 'bold';
+    style: 'word_pop' | 'karaoke' | 'mrbeast' | 'classic' | 'dark_psychology';
+    color: string; // Hex highlight colour (active word / emphasis)
+    overrides?: ('font' | 'color')[]; // font / color picked by the user; styles otherwise use their own (see remotion/captions/theme)
+    textColor?: string; // Hex
+    shadow?: boolean; // Drop shadow under the text
+    backgroundBox?: boolean; // Box behind the caption
+    boxColor?: string; // Hex
+    boxOpacity?: number; // 0-1
+    maxWordsPerLine?: number;
+    safeArea?: number; // Margin kept clear at the frame edges, % of the frame height
+    emphasis?: 'off' | 'highlight' | 'scale' | 'emoji'; // How words tagged in scenes.caption_emphasis are drawn (highlight colour, + larger, + emoji)
+};
+
+export type PromptPlan = {
+    text: string; // Scene text the plan was written for; ignored once the text changes
+    prompts: string[]; // Unstyled scene descriptions: the first image, then the second (long sentences)
+};
+
+export type WordTiming = {
+    word: string;
+    startTime: number; // Seconds from the start of the scene's audio
+    endTime: number;
+};
+
+export type CaptionEmphasis = {
+    text: string; // Scene text the tags were made for; ignored once the text changes
+    words: { index: number; emoji: string | null }[]; // Positions in the scene's whitespace-split words
+    manual?: boolean; // Edited in the storyboard
+};
+
 export type SceneApi = {
     id: string;
     project_id: string;
@@ -66,10 +115,84 @@ export type SceneApi = {
     prompt: string | null;
     image_url: string | null;
     image_url_2: string | null; // Second image for long sentences
+    image_provider?: string | null; // Provider that actually produced image_url
+    image_provider_2?: string | null; // Provider that actually produced image_url_2
     audio_url: string | null;
     duration: number | null;
     status: 'pending' | 'ready' | 'error';
     visual_style?: string | null;
     media_type?: 'image' | 'video';
     attribution?: string | null;
+    stale_assets?: ('audio' | 'prompt')[]; // Out of date after a text edit, until regenerated
+    prompt_plan?: PromptPlan | null; // Scene descriptions written ahead of time by lib/promptPlanning
+    prompt_locked?: boolean; // prompt was set by the user and is used verbatim on (re)generation
+    candidates_pending?: boolean; // Candidate images (see scene_assets) are waiting for the user to pick one
+    word_timings?: WordTiming[] | null; // Per-word timestamps of audio_url (lib/wordTimings); null = captions estimate
+    caption_emphasis?: CaptionEmphasis | null; // Words captions emphasize (lib/captionEmphasis)
+};
+
+export type SceneAssetKind = 'image' | 'image_2' | 'audio';
+
+export type SceneAssetApi = {
+    id: string;
+    scene_id: string;
+    project_id: string;
+    user_id: string;
+    kind: SceneAssetKind; // image_2 = second image of a long-sentence scene
+    url: string;
+    prompt: string | null; // Full image prompt the take was generated from
+    provider: string | null;
+    duration: number | null; // Audio takes only
+    word_timings: WordTiming[] | null; // Audio takes only
+    created_at: string;
+};
+
+export type JobApi = {
+    id: string;
+    project_id: string;
+    user_id: string;
+    type: 'generate_scenes' | 'narrate_scenes'; // narrate_scenes: audio only, visuals kept (translated projects)
+    status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+    total: number; // Scenes that needed work when the job was queued
+    completed: number;
+    failed: number;
+    failed_indices: number[]; // order_index of scenes that failed in this job (not retried by it)
+    current_message: string | null;
+    error: string | null;
+    heartbeat_at: string | null; // Last progress write by the runner; stale = runner died, job can be resumed
+    run_token?: string | null; // Set by the run that claimed the job; a run whose token was replaced stops
+    created_at: string;
+    updated_at: string;
+};
+
+export type CustomStyleApi = {
+    id: string;
+    user_id: string;
+    name: string;
+    style_text: string;
+    subject_text: string;
+    negative_prompt: string;
+    image_provider: ImageProviderId | null; // Pins generation to this provider (null = project's image model)
+    reference_image_path: string | null; // Object path in the assets bucket (custom-styles/<userId>/); generated on Runware when set
+    reference_image_url: string | null; // Public URL of reference_image_path, for display
+    created_at: string;
+    updated_at: string;
+};
+
+export type ReferenceCharacterApi = {
+    id: string;
+    user_id: string;
+    name: string;
+    image_path: string; // Object path in the assets bucket
+    image_url: string; // Public URL of image_path, for display; generation builds it from image_path
+    created_at: string;
+};
+
+// Caption look saved by a user to reuse across projects
+export type CaptionPresetApi = {
+    id: string;
+    user_id: string;
+    name: string;
+    captions: Omit<CaptionSettings, 'enabled'>;
+    created_at: string;
 };